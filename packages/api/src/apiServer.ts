@@ -1,27 +1,132 @@
-import { Node } from '@rei-network/core';
-import { RpcServer } from './types';
-import { SimpleOracle } from './gasPriceOracle';
+import { Address, BN } from 'ethereumjs-util';
+import { Node, Topics, TooManyLogsError } from '@rei-network/core';
+import { Client, RpcServer } from './types';
+import { GasPriceOracle } from './gasPriceOracle';
 import { FilterSystem } from './filterSystem';
 import { api } from './controller';
 
+const apiVersion = '1.0';
+const defaultMaxLogsBlockRange = 5000;
+const defaultMaxLogs = 10000;
+
+export interface ApiServerOptions {
+  // max block range of a logs query
+  maxLogsBlockRange?: number;
+  // max number of logs returned by a logs query
+  maxLogs?: number;
+}
+
+export type ApiMethod = (params: any, client?: Client) => any;
+
+/**
+ * Get the public methods of the controller,
+ * only the methods listed in the static `methods` of the controller class are public,
+ * because typescript `private` doesn't hide the helpers at runtime
+ * @param controller - Controller instance
+ * @returns Public method names
+ */
+function getPublicMethods(controller: any) {
+  const methods = new Set<string>();
+  const proto = Object.getPrototypeOf(controller);
+  const allowlist: string[] = proto.constructor.methods ?? [];
+  for (const name of allowlist) {
+    // the method should be defined by the controller class itself
+    if (!Object.prototype.hasOwnProperty.call(proto, name) || typeof Object.getOwnPropertyDescriptor(proto, name)!.value !== 'function') {
+      throw new Error(`unknown api method: ${name}`);
+    }
+    methods.add(name);
+  }
+  return methods;
+}
+
 /**
  * Api server
  */
 export class ApiServer {
   readonly node: Node;
   readonly version: string;
-  readonly oracle: SimpleOracle;
+  readonly oracle: GasPriceOracle;
   readonly filterSystem: FilterSystem;
+  readonly maxLogsBlockRange: number;
+  readonly maxLogs: number;
   readonly controllers = new Map<string, any>();
+  private readonly methods = new Map<string, Set<string>>();
   rpcServer!: RpcServer;
 
-  constructor(node: Node, version: string) {
+  constructor(node: Node, version: string, options?: ApiServerOptions) {
     this.node = node;
     this.version = version;
-    this.oracle = new SimpleOracle(node);
+    this.maxLogsBlockRange = options?.maxLogsBlockRange ?? defaultMaxLogsBlockRange;
+    this.maxLogs = options?.maxLogs ?? defaultMaxLogs;
+    this.oracle = new GasPriceOracle(node);
     this.filterSystem = new FilterSystem(node);
     for (const [name, controller] of Object.entries(api)) {
-      this.controllers.set(name, new controller(this));
+      const instance = new controller(this);
+      this.controllers.set(name, instance);
+      this.methods.set(name, getPublicMethods(instance));
+    }
+  }
+
+  /**
+   * Get api method by the full method name
+   * @param method - Full method name, like `eth_getBalance`
+   * @param apis - Enabled apis, all apis are enabled if it is undefined
+   * @returns Api method, undefined if the method doesn't exist or isn't enabled
+   */
+  getMethod(method: string, apis?: Set<string>): ApiMethod | undefined {
+    const index = method.indexOf('_');
+    if (index === -1) {
+      return;
+    }
+
+    const namespace = method.substring(0, index);
+    const name = method.substring(index + 1);
+    if (apis && !apis.has(namespace)) {
+      return;
+    }
+
+    const controller = this.controllers.get(namespace);
+    if (!controller || !this.methods.get(namespace)!.has(name)) {
+      return;
+    }
+    return controller[name].bind(controller);
+  }
+
+  /**
+   * Get enabled apis and their versions
+   * @param apis - Enabled apis, all apis are enabled if it is undefined
+   * @returns Api versions
+   */
+  getModules(apis?: Set<string>) {
+    const modules: { [name: string]: string } = {};
+    for (const name of apis ?? this.controllers.keys()) {
+      modules[name] = apiVersion;
+    }
+    modules['rpc'] = apiVersion;
+    return modules;
+  }
+
+  /**
+   * Get logs matching the filter in the given range,
+   * the range and the number of logs are limited
+   * @param from - Start block number
+   * @param to - End block number
+   * @param addresses - Log addresses
+   * @param topics - Log topics
+   * @returns Logs
+   */
+  async filterLogs(from: BN, to: BN, addresses: Address[], topics: Topics) {
+    if (to.sub(from).gten(this.maxLogsBlockRange)) {
+      throw new Error(`block range is too large, max limit is ${this.maxLogsBlockRange}`);
+    }
+
+    try {
+      return await this.node.getFilter().filterRange(from, to, addresses, topics, this.maxLogs);
+    } catch (err) {
+      if (err instanceof TooManyLogsError) {
+        throw new Error(`query returned more than ${err.limit} results, please narrow the block range`);
+      }
+      throw err;
     }
   }
 
@@ -4,6 +4,9 @@ import { Controller } from './base';
  * Admin api Controller
  */
 export class AdminController extends Controller {
+  // methods exposed as `admin_*` api
+  static readonly methods = ['peers', 'nodeInfo', 'datadir', 'rpcRunning', 'rpcRateLimits', 'startRPC', 'stopRPC', 'addPeer', 'removePeer', 'addTrustedPeer', 'removeTrutedPeer', 'isTrusted'];
+
   /**
    * Get connected peers
    * @returns Peers information
@@ -35,6 +38,14 @@ export class AdminController extends Controller {
     return this.rpcServer.isRunning;
   }
 
+  /**
+   * Get the counters of rpc rate limiter
+   * @returns Counters, null if rate limit is disabled
+   */
+  rpcRateLimits() {
+    return this.rpcServer.rateLimitStats() ?? null;
+  }
+
   /**
    * Start rpc server on given options
    */
@@ -1,14 +1,43 @@
-import { Address, BN } from 'ethereumjs-util';
-import { Block } from '@rei-network/structure';
+import { Address, BN, bnToHex } from 'ethereumjs-util';
+import { Block, TransactionFactory } from '@rei-network/structure';
 import { hexStringToBuffer, hexStringToBN } from '@rei-network/utils';
-import { StateManager } from '@rei-network/core';
+import { StateManager, StateOverrides, applyStateOverrides, Topics } from '@rei-network/core';
+import { VM } from '@rei-network/vm';
 import { ERROR } from '@rei-network/vm/dist/exceptions';
-import { CallData } from '../types';
+import { EVMWorkMode } from '@rei-network/vm/dist/evm/evm';
+import { getActivePrecompiles } from '@rei-network/vm/dist/evm/precompiles';
+import { CallData, TopicsData } from '../types';
 import { ApiServer } from '../apiServer';
 import { OutOfGasError, RevertError } from './errors';
 
 const revertErrorSelector = Buffer.from('08c379a0', 'hex');
 
+export function parseAddressesAndTopics(_addresses?: string | string[], _topics?: TopicsData) {
+  const addresses: Address[] = typeof _addresses === 'string' ? [Address.fromString(_addresses)] : _addresses?.map((addr) => Address.fromString(addr)) ?? [];
+  const topics: (Buffer | null | (Buffer | null)[])[] = _topics
+    ? _topics.map((topic) => {
+        if (topic === null) {
+          return null;
+        } else if (typeof topic === 'string') {
+          return hexStringToBuffer(topic);
+        } else if (Array.isArray(topic)) {
+          return topic.map((subTopic) => {
+            if (subTopic === null) {
+              return null;
+            }
+            if (typeof subTopic !== 'string') {
+              throw new Error('Invalid topic type');
+            }
+            return hexStringToBuffer(subTopic);
+          });
+        } else {
+          throw new Error('Invalid topic type');
+        }
+      })
+    : [];
+  return { addresses, topics };
+}
+
 export class Controller {
   protected readonly server: ApiServer;
 
@@ -39,7 +68,11 @@ export class Controller {
       return this.node.getLatestBlock().header.number.clone();
     } else if (tag === 'pending') {
       return this.node.getLatestBlock().header.number.addn(1);
-    } else if (tag.startsWith('0x')) {
+    } else if (tag === 'safe' || tag === 'finalized') {
+      return this.node.getFinalizedBlock().header.number.clone();
+    } else if (typeof tag === 'object' && tag !== null) {
+      return (await this.getBlockByTag(tag)).header.number.clone();
+    } else if (typeof tag === 'string' && tag.startsWith('0x')) {
       return hexStringToBN(tag);
     } else {
       throw new Error('Invalid tag value');
@@ -55,6 +88,9 @@ export class Controller {
         block = this.node.getLatestBlock();
       } else if (tag === 'pending') {
         block = this.node.getPendingBlock();
+      } else if (tag === 'safe' || tag === 'finalized') {
+        // Reimint has instant finality, so the safe block is the finalized block
+        block = this.node.getFinalizedBlock();
       } else if (tag.startsWith('0x')) {
         block = await this.node.db.getBlock(hexStringToBN(tag));
       } else {
@@ -65,6 +101,13 @@ export class Controller {
         block = await this.node.db.getBlock(hexStringToBN(tag.blockNumber));
       } else if ('blockHash' in tag) {
         block = await this.node.db.getBlock(hexStringToBuffer(tag.blockHash));
+        // EIP-1898, the block should be in the canonical chain if required
+        if (tag.requireCanonical) {
+          const canonicalHash = await this.node.db.numberToHash(block.header.number).catch(() => undefined);
+          if (!canonicalHash || !canonicalHash.equals(block.hash())) {
+            throw new Error(`hash ${tag.blockHash} is not currently canonical`);
+          }
+        }
       } else {
         throw new Error('Invalid tag value');
       }
@@ -76,6 +119,31 @@ export class Controller {
     return block;
   }
 
+  /**
+   * Get block by tag, the block must be stored in the database
+   * @param tag - Block tag
+   * @returns Block
+   */
+  protected async getCanonicalBlockByTag(tag: any): Promise<Block> {
+    if (tag === 'pending') {
+      throw new Error('pending block is not supported');
+    }
+    return this.getBlockByTag(tag);
+  }
+
+  /**
+   * Get logs matching the filter in the given range,
+   * the range and the number of logs are limited
+   * @param from - Start block number
+   * @param to - End block number
+   * @param addresses - Log addresses
+   * @param topics - Log topics
+   * @returns Logs
+   */
+  protected filterLogs(from: BN, to: BN, addresses: Address[], topics: Topics) {
+    return this.server.filterLogs(from, to, addresses, topics);
+  }
+
   protected async getStateManagerByTag(tag: any): Promise<StateManager> {
     if (tag === 'pending') {
       return this.node.getPendingStateManager();
@@ -85,41 +153,110 @@ export class Controller {
     }
   }
 
-  protected async runCall(data: CallData, tag: any) {
-    const block = tag instanceof Block ? tag : await this.getBlockByTag(tag);
+  protected async makeTxForUnlockedAccount(data: CallData) {
+    if (!data.from) {
+      throw new Error('Missing from');
+    }
+    if (!data.nonce) {
+      const stateManager = await this.getStateManagerByTag('latest');
+      const account = await stateManager.getAccount(Address.fromString(data.from));
+      data.nonce = bnToHex(account.nonce);
+    }
+    const unsignedTx = TransactionFactory.fromTxData(
+      {
+        ...data,
+        gasLimit: data.gas
+      },
+      { common: this.node.getLatestCommon() }
+    );
+    const privateKey = this.node.accMngr.getPrivateKey(data.from);
+    return unsignedTx.sign(privateKey);
+  }
+
+  /**
+   * Run call on the given vm without converting the execution error,
+   * if the call data contains an access list, the list will be warmed up before execution
+   * @param vm - VM instance
+   * @param data - Call data
+   * @param block - Block
+   * @returns Call result
+   */
+  protected async callOnVM(vm: VM, data: CallData, block: Block) {
+    const from = data.from ? Address.fromString(data.from) : Address.zero();
+    const to = data.to ? Address.fromString(data.to) : undefined;
+    if (data.accessList) {
+      const stateManager = vm.stateManager as StateManager;
+      getActivePrecompiles(vm._common).forEach((address) => stateManager.addWarmedAddress(address.buf));
+      stateManager.addWarmedAddress(from.buf);
+      to && stateManager.addWarmedAddress(to.buf);
+      for (const { address, storageKeys } of data.accessList) {
+        const addressBuf = hexStringToBuffer(address);
+        stateManager.addWarmedAddress(addressBuf);
+        storageKeys.forEach((key) => stateManager.addWarmedStorage(addressBuf, hexStringToBuffer(key)));
+      }
+    }
+
+    return await vm.runCall({
+      block,
+      gasPrice: data.gasPrice ? hexStringToBN(data.gasPrice) : undefined,
+      origin: from,
+      caller: from,
+      gasLimit: data.gas ? hexStringToBN(data.gas) : undefined,
+      to,
+      value: data.value ? hexStringToBN(data.value) : undefined,
+      data: data.data ? hexStringToBuffer(data.data) : undefined
+    });
+  }
+
+  /**
+   * Run call on the given vm and convert the execution error
+   * @param vm - VM instance
+   * @param data - Call data
+   * @param block - Block
+   * @returns Call result
+   */
+  protected async executeCall(vm: VM, data: CallData, block: Block) {
     const gas = data.gas ? hexStringToBN(data.gas) : new BN(0xffffff);
-    const vm = await this.node.getVM(block.header.stateRoot, block.header.number);
-    await vm.stateManager.checkpoint();
-    try {
-      const result = await vm.runCall({
-        block,
-        gasPrice: data.gasPrice ? hexStringToBN(data.gasPrice) : undefined,
-        origin: data.from ? Address.fromString(data.from) : Address.zero(),
-        caller: data.from ? Address.fromString(data.from) : Address.zero(),
-        gasLimit: data.gas ? hexStringToBN(data.gas) : undefined,
-        to: data.to ? Address.fromString(data.to) : undefined,
-        value: data.value ? hexStringToBN(data.value) : undefined,
-        data: data.data ? hexStringToBuffer(data.data) : undefined
-      });
-
-      // handling specific types of errors
-      const error = result.execResult.exceptionError;
-      if (error) {
-        if (error.error === ERROR.OUT_OF_GAS) {
-          throw new OutOfGasError(gas);
-        } else if (error.error === ERROR.REVERT) {
-          const returnValue = result.execResult.returnValue;
-          if (returnValue.length > 4 && returnValue.slice(0, 4).equals(revertErrorSelector)) {
-            throw new RevertError(returnValue);
-          } else {
-            throw new RevertError('unknown error');
-          }
+    const result = await this.callOnVM(vm, data, block);
+
+    // handling specific types of errors
+    const error = result.execResult.exceptionError;
+    if (error) {
+      if (error.error === ERROR.OUT_OF_GAS) {
+        throw new OutOfGasError(gas);
+      } else if (error.error === ERROR.REVERT) {
+        const returnValue = result.execResult.returnValue;
+        if (returnValue.length > 4 && returnValue.slice(0, 4).equals(revertErrorSelector)) {
+          throw new RevertError(returnValue);
         } else {
-          throw error;
+          throw new RevertError('unknown error');
         }
+      } else {
+        throw error;
       }
+    }
+
+    return result;
+  }
 
-      return result;
+  /**
+   * Run call on the given block, the state changes will be reverted,
+   * it is public for other services like graphql, but it won't be exposed as an api method
+   * @param data - Call data
+   * @param tag - Block tag or block
+   * @param overrides - State override set
+   * @returns Call result
+   */
+  async runCall(data: CallData, tag: any, overrides?: StateOverrides) {
+    const block = tag instanceof Block ? tag : await this.getBlockByTag(tag);
+    // the access list and the state overrides can only take effect in js mode
+    const vm = await this.node.getVM(block.header.stateRoot, block.header.number, false, data.accessList || overrides ? EVMWorkMode.JS : undefined);
+    await vm.stateManager.checkpoint();
+    try {
+      if (overrides) {
+        await applyStateOverrides(vm.stateManager as StateManager, overrides);
+      }
+      return await this.executeCall(vm, data, block);
     } finally {
       await vm.stateManager.revert();
     }
@@ -1,11 +1,29 @@
-import { hexStringToBuffer } from '@rei-network/utils';
+import { Address, bufferToHex, setLengthLeft, setLengthRight } from 'ethereumjs-util';
+import { hexStringToBuffer, hexStringToBN, setLevel, setModuleLevels } from '@rei-network/utils';
 import { CallData } from '../types';
 import { Controller } from './base';
 
+const accountRangeMaxResults = 256;
+const storageRangeMaxResults = 1024;
+const dumpBlockMaxResults = 10000;
+const dumpBlockMaxStorage = 64;
+
+/**
+ * Convert the hex string to a 32 bytes seek key
+ * @param start - Hex string
+ * @returns Seek key
+ */
+function toSeekKey(start?: string) {
+  return setLengthRight(start ? hexStringToBuffer(start) : Buffer.alloc(0), 32);
+}
+
 /**
  * Debug api Controller
  */
 export class DebugController extends Controller {
+  // methods exposed as `debug_*` api
+  static readonly methods = ['traceBlock', 'traceBlockByNumber', 'traceBlockByHash', 'traceTransaction', 'traceCall', 'getRawHeader', 'getRawBlock', 'getRawReceipts', 'getRawTransaction', 'accountRange', 'storageRangeAt', 'dumpBlock', 'setHead', 'verbosity', 'vmodule'];
+
   /**
    * Trace a block by blockrlp data
    * @param blockRlp - block rlp encoded data
@@ -50,10 +68,146 @@ export class DebugController extends Controller {
    * Trace given transaction by call vm.runCall fucntion
    * @param data - call data
    * @param tag - block tag
-   * @param options - options
+   * @param options - options, `stateOverrides` field is the state override set
    * @returns Result of execution transaction
    */
   async traceCall([data, tag, options]: [CallData, string, any]) {
-    return this.node.getTracer().traceCall(data, await this.getBlockByTag(tag), options);
+    return this.node.getTracer().traceCall(data, await this.getBlockByTag(tag), options, options?.stateOverrides);
+  }
+
+  /**
+   * Returns the rlp encoded block header
+   * @param tag - block tag
+   * @returns Encoded header
+   */
+  async getRawHeader([tag]: [any]) {
+    const block = await this.getCanonicalBlockByTag(tag);
+    return bufferToHex(await this.node.db.getRawHeader(block.hash(), block.header.number));
+  }
+
+  /**
+   * Returns the rlp encoded block
+   * @param tag - block tag
+   * @returns Encoded block
+   */
+  async getRawBlock([tag]: [any]) {
+    const block = await this.getCanonicalBlockByTag(tag);
+    return bufferToHex(await this.node.db.getRawBlock(block.hash(), block.header.number));
+  }
+
+  /**
+   * Returns the rlp encoded receipts of a block
+   * @param tag - block tag
+   * @returns Encoded receipts
+   */
+  async getRawReceipts([tag]: [any]) {
+    const block = await this.getCanonicalBlockByTag(tag);
+    return (await this.node.db.getRawReceipts(block.header.number, block.hash())).map((receipt) => bufferToHex(receipt));
+  }
+
+  /**
+   * Returns the encoded transaction
+   * @param hash - transaction hash
+   * @returns Encoded transaction, null if the transaction doesn't exist
+   */
+  async getRawTransaction([hash]: [string]) {
+    try {
+      return bufferToHex((await this.node.db.getTransaction(hexStringToBuffer(hash))).serialize());
+    } catch (err: any) {
+      if (err.type !== 'NotFoundError') {
+        throw err;
+      }
+    }
+    const tx = this.node.txPool.getTransaction(hexStringToBuffer(hash));
+    return tx ? bufferToHex(tx.serialize()) : null;
+  }
+
+  /**
+   * Returns a range of accounts at given block, the snapshot will be used if it is available
+   * @param tag - block tag
+   * @param start - account hash to start with
+   * @param maxResults - max number of accounts, up to 256
+   * @param nocode - skip the contract code
+   * @param nostorage - skip the contract storage, up to 1024 slots of each account are returned,
+   *                    the remaining slots can be fetched by `debug_storageRangeAt` from the next slot
+   * @returns Accounts and the hash of the next account
+   */
+  async accountRange([tag, start, maxResults, nocode, nostorage]: [any, string?, number?, boolean?, boolean?]) {
+    const block = await this.getCanonicalBlockByTag(tag);
+    const stateManager = await this.node.getStateManager(block.header.stateRoot, block._common, true);
+    const limit = maxResults === undefined || maxResults <= 0 || maxResults > accountRangeMaxResults ? accountRangeMaxResults : maxResults;
+    return stateManager.dumpRange(toSeekKey(start), limit, !!nocode, !!nostorage, storageRangeMaxResults);
+  }
+
+  /**
+   * Returns a range of storage slots of the account,
+   * the state is the state before the transaction is executed
+   * @param blockHash - block hash
+   * @param txIndex - transaction index
+   * @param address - account address
+   * @param startKey - slot hash to start with
+   * @param limit - max number of slots
+   * @returns Storage slots and the hash of the next slot
+   */
+  async storageRangeAt([blockHash, txIndex, address, startKey, limit]: [string, number, string, string, number]) {
+    if (typeof limit !== 'number' || limit <= 0 || limit > storageRangeMaxResults) {
+      throw new Error(`invalid limit, max limit is ${storageRangeMaxResults}`);
+    }
+    const block = await this.node.db.getBlock(hexStringToBuffer(blockHash));
+    return this.node.getTracer().stateAtTransaction(block, txIndex, async (stateManager) => {
+      const storage: { [hash: string]: { key: null; value: string } } = {};
+      let nextKey: string | null = null;
+      let count = 0;
+      for await (const { hash, value } of stateManager.iterateStorage(Address.fromString(address), toSeekKey(startKey))) {
+        if (count >= limit) {
+          nextKey = bufferToHex(hash);
+          break;
+        }
+        storage[bufferToHex(hash)] = { key: null, value: bufferToHex(setLengthLeft(value, 32)) };
+        count++;
+      }
+      return { storage, nextKey };
+    });
+  }
+
+  /**
+   * Returns the accounts at given block, up to 10000 accounts and 64 storage slots of each account,
+   * the remaining accounts can be fetched by `debug_accountRange` from the next account
+   * @param tag - block tag
+   * @returns Accounts and the hash of the next account
+   */
+  async dumpBlock([tag]: [any]) {
+    const block = await this.getCanonicalBlockByTag(tag);
+    const stateManager = await this.node.getStateManager(block.header.stateRoot, block._common, true);
+    return stateManager.dumpRange(Buffer.alloc(32), dumpBlockMaxResults, false, false, dumpBlockMaxStorage);
+  }
+
+  /**
+   * Rewind the local chain to the given block number,
+   * the blocks above it will be synchronized again, it is unavailable while mining
+   * @param number - Target block number
+   */
+  async setHead([number]: [string]) {
+    await this.node.setHead(hexStringToBN(number));
+    return null;
+  }
+
+  /**
+   * Set the default log level of all modules
+   * @param level - Level name or verbosity number, e.g. info, 3
+   */
+  verbosity([level]: [string | number]) {
+    setLevel(level);
+    return null;
+  }
+
+  /**
+   * Set the log level of the specified modules,
+   * the previous settings will be cleared
+   * @param vmodule - Comma separated list of `<module>=<level>`, e.g. sync=debug,txpool=5
+   */
+  vmodule([vmodule]: [string]) {
+    setModuleLevels(vmodule);
+    return null;
   }
 }
@@ -1,41 +1,113 @@
-import { Address, intToHex, bnToHex, bufferToHex, hashPersonalMessage, toRpcSig, ecsign, BN, setLengthLeft } from 'ethereumjs-util';
+import { Address, intToHex, bnToHex, bufferToHex, hashPersonalMessage, toRpcSig, ecsign, BN, setLengthLeft, generateAddress, keccak256 } from 'ethereumjs-util';
 import { hexStringToBN, hexStringToBuffer } from '@rei-network/utils';
-import { Block, Log, Transaction, TransactionFactory } from '@rei-network/structure';
+import { Block, BlockHeader, Log, TransactionFactory, AccessList, calcEffectiveGasPrice } from '@rei-network/structure';
+import { StateManager, StateOverrides, PrestateTracerDebug, isEnableFreeStaking, isEnableDAO, applyStateOverrides } from '@rei-network/core';
+import Bloom from '@rei-network/vm/dist/bloom';
+import { ERROR } from '@rei-network/vm/dist/exceptions';
+import { EVMWorkMode } from '@rei-network/vm/dist/evm/evm';
 import { Common } from '@rei-network/common';
-import { CallData, Client, TopicsData } from '../types';
-import { Controller } from './base';
+import { CallData, Client, TopicsData, SimulateBlock } from '../types';
+import { Controller, parseAddressesAndTopics } from './base';
 import { OutOfGasError } from './errors';
 
-function parseAddressesAndTopics(_addresses?: string | string[], _topics?: TopicsData) {
-  const addresses: Address[] = typeof _addresses === 'string' ? [Address.fromString(_addresses)] : _addresses?.map((addr) => Address.fromString(addr)) ?? [];
-  const topics: (Buffer | null | (Buffer | null)[])[] = _topics
-    ? _topics.map((topic) => {
-        if (topic === null) {
-          return null;
-        } else if (typeof topic === 'string') {
-          return hexStringToBuffer(topic);
-        } else if (Array.isArray(topic)) {
-          return topic.map((subTopic) => {
-            if (subTopic === null) {
-              return null;
-            }
-            if (typeof subTopic !== 'string') {
-              throw new Error('Invalid topic type');
-            }
-            return hexStringToBuffer(subTopic);
-          });
-        } else {
-          throw new Error('Invalid topic type');
-        }
-      })
-    : [];
-  return { addresses, topics };
+// the default number of blocks that a private transaction can wait to be included
+const defaultPrivateTxBlocks = 25;
+const maxSimulateBlocks = 256;
+// the calls of eth_simulateV1 are signed by this key, then their senders are replaced
+const simulatePrivateKey = Buffer.alloc(32, 1);
+
+function isSameAccessList(list1: AccessList, list2: AccessList) {
+  const normalize = (list: AccessList) => JSON.stringify(list.map(({ address, storageKeys }) => [address.toLowerCase(), storageKeys.map((key) => key.toLowerCase())]));
+  return normalize(list1) === normalize(list2);
+}
+
+function calculateBaseFee(data: CallData, common: Common) {
+  const txDataZero = common.param('gasPrices', 'txDataZero');
+  const txDataNonZero = common.param('gasPrices', 'txDataNonZero');
+  let cost = 0;
+  if (data.data) {
+    const buf = hexStringToBuffer(data.data);
+    for (let i = 0; i < buf.length; i++) {
+      buf[i] === 0 ? (cost += txDataZero) : (cost += txDataNonZero);
+    }
+  }
+
+  const fee = new BN(cost).addn(common.param('gasPrices', 'tx'));
+  if (common.gteHardfork('homestead') && (!data.to || hexStringToBuffer(data.to).length === 0)) {
+    fee.iaddn(common.param('gasPrices', 'txCreation'));
+  }
+  if (data.accessList) {
+    for (const { storageKeys } of data.accessList) {
+      fee.iaddn(common.param('gasPrices', 'accessListAddressCost'));
+      fee.iaddn(common.param('gasPrices', 'accessListStorageKeyCost') * storageKeys.length);
+    }
+  }
+  return fee;
 }
 
 /**
  * Eth api Controller
  */
 export class ETHController extends Controller {
+  // methods exposed as `eth_*` api
+  static readonly methods = [
+    'protocolVersion',
+    'syncing',
+    'chainId',
+    'coinbase',
+    'mining',
+    'hashrate',
+    'gasPrice',
+    'maxPriorityFeePerGas',
+    'feeHistory',
+    'accounts',
+    'blockNumber',
+    'getBalance',
+    'getStorageAt',
+    'getTransactionCount',
+    'getBlockTransactionCountByHash',
+    'getBlockTransactionCountByNumber',
+    'getUncleCountByBlockHash',
+    'getUncleCountByBlockNumber',
+    'getCode',
+    'getProof',
+    'sign',
+    'signTransaction',
+    'sendTransaction',
+    'sendRawTransaction',
+    'sendPrivateTransaction',
+    'call',
+    'callBundle',
+    'simulateV1',
+    'createAccessList',
+    'estimateGas',
+    'getBlockByHash',
+    'getBlockByNumber',
+    'getTransactionByHash',
+    'getTransactionByBlockHashAndIndex',
+    'getTransactionByBlockNumberAndIndex',
+    'getTransactionReceipt',
+    'getBlockReceipts',
+    'getUncleByBlockHashAndIndex',
+    'getUncleByBlockNumberAndIndex',
+    'getCompilers',
+    'compileSolidity',
+    'compileLLL',
+    'compileSerpent',
+    'newFilter',
+    'newBlockFilter',
+    'newPendingTransactionFilter',
+    'uninstallFilter',
+    'getFilterChanges',
+    'getFilterLogs',
+    'getLogs',
+    'getWork',
+    'submitWork',
+    'submitHashrate',
+    'unsubscribe',
+    'subscribe'
+  ];
+
   protocolVersion() {
     return '1';
   }
@@ -96,6 +168,28 @@ export class ETHController extends Controller {
     return bnToHex(this.oracle.gasPrice);
   }
 
+  /**
+   * Returns the suggested priority fee per gas in wei
+   * @returns Max priority fee per gas
+   */
+  maxPriorityFeePerGas() {
+    return bnToHex(this.oracle.maxPriorityFeePerGas);
+  }
+
+  /**
+   * Returns the base fee, gas used ratio and reward percentiles of a range of blocks
+   * @param blockCount - number of blocks in the requested range
+   * @param newestBlock - highest block of the requested range
+   * @param rewardPercentiles - a monotonically increasing list of percentile values
+   * @returns Fee history
+   */
+  async feeHistory([blockCount, newestBlock, rewardPercentiles]: [string | number, any, number[]?]) {
+    const count = typeof blockCount === 'number' ? blockCount : hexStringToBN(blockCount).toNumber();
+    // the pending block doesn't have receipts, use the latest block instead
+    const newest = await this.getBlockByTag(newestBlock === 'pending' ? 'latest' : newestBlock);
+    return await this.oracle.feeHistory(count, newest, rewardPercentiles);
+  }
+
   /**
    * Returns a list of addresses owned by client
    * @returns Accounts list
@@ -205,6 +299,21 @@ export class ETHController extends Controller {
     return bufferToHex(code);
   }
 
+  /**
+   * Returns the account and storage values of the specified account including the Merkle-proof
+   * @param address - query address
+   * @param storageKeys - storage keys which should be proofed
+   * @param tag - block tag
+   * @returns Account proof and storage proofs
+   */
+  async getProof([address, storageKeys, tag]: [string, string[], any]) {
+    const stateManager = await this.getStateManagerByTag(tag);
+    return await stateManager.getProof(
+      Address.fromString(address),
+      (storageKeys ?? []).map((key) => setLengthLeft(hexStringToBuffer(key), 32))
+    );
+  }
+
   /**
    * Sign a message with an account
    * @param address - sign address
@@ -216,26 +325,6 @@ export class ETHController extends Controller {
     return toRpcSig(signature.v, signature.r, signature.s);
   }
 
-  private async makeTxForUnlockedAccount(data: CallData) {
-    if (!data.from) {
-      throw new Error('Missing from');
-    }
-    if (!data.nonce) {
-      const stateManager = await this.getStateManagerByTag('latest');
-      const account = await stateManager.getAccount(Address.fromString(data.from));
-      data.nonce = bnToHex(account.nonce);
-    }
-    const unsignedTx = TransactionFactory.fromTxData(
-      {
-        ...data,
-        gasLimit: data.gas
-      },
-      { common: this.node.getLatestCommon() }
-    );
-    const privateKey = this.node.accMngr.getPrivateKey(data.from);
-    return unsignedTx.sign(privateKey);
-  }
-
   /**
    * Signs a transaction that can be submitted to the network at a later time
    * @param data - transaction data
@@ -243,9 +332,6 @@ export class ETHController extends Controller {
    */
   async signTransaction([data]: [CallData]) {
     const tx = await this.makeTxForUnlockedAccount(data);
-    if (!(tx instanceof Transaction)) {
-      return null;
-    }
     return bufferToHex(tx.serialize());
   }
 
@@ -256,10 +342,7 @@ export class ETHController extends Controller {
    */
   async sendTransaction([data]: [CallData]) {
     const tx = await this.makeTxForUnlockedAccount(data);
-    if (!(tx instanceof Transaction)) {
-      return null;
-    }
-    const results = await this.node.addPendingTxs([tx]);
+    const results = await this.node.addPendingTxs([tx], true);
     return results.length > 0 && results[0] ? bufferToHex(tx.hash()) : null;
   }
 
@@ -270,51 +353,299 @@ export class ETHController extends Controller {
    */
   async sendRawTransaction([rawtx]: [string]) {
     const tx = TransactionFactory.fromSerializedData(hexStringToBuffer(rawtx), { common: this.node.getLatestCommon() });
-    if (!(tx instanceof Transaction)) {
-      return null;
-    }
-    const results = await this.node.addPendingTxs([tx]);
+    const results = await this.node.addPendingTxs([tx], true);
     return results.length > 0 && results[0] ? bufferToHex(tx.hash()) : null;
   }
 
+  /**
+   * Sends a private transaction, it will only be included in the blocks proposed by this node
+   * and will never be announced to peers, the node must be an active validator
+   * @param rawtx - raw transaction
+   * @param options - private transaction options, `maxBlockNumber` is the last block number
+   *                  that the transaction can be included in, default latest block number + 25
+   * @returns Transaction hash
+   */
+  async sendPrivateTransaction([rawtx, options]: [string, { maxBlockNumber?: string }?]) {
+    const tx = TransactionFactory.fromSerializedData(hexStringToBuffer(rawtx), { common: this.node.getLatestCommon() });
+    const maxBlockNumber = options?.maxBlockNumber ? hexStringToBN(options.maxBlockNumber) : this.node.getLatestBlock().header.number.addn(defaultPrivateTxBlocks);
+    await this.node.addPrivateTx(tx, maxBlockNumber);
+    return bufferToHex(tx.hash());
+  }
+
   /**
    * Executes a new message call immediately without creating a transaction on the block chain.
    * @param data - transaction data
    * @param tag - block tag
+   * @param overrides - state override set
    * @returns
    */
-  async call([data, tag]: [CallData, any]) {
-    const result = await this.runCall(data, tag);
+  async call([data, tag, overrides]: [CallData, any, StateOverrides?]) {
+    const result = await this.runCall(data, tag, overrides);
     return bufferToHex(result.execResult.returnValue);
   }
 
-  private calculateBaseFee(data: CallData, common: Common) {
-    const txDataZero = common.param('gasPrices', 'txDataZero');
-    const txDataNonZero = common.param('gasPrices', 'txDataNonZero');
-    let cost = 0;
-    if (data.data) {
-      const buf = hexStringToBuffer(data.data);
-      for (let i = 0; i < buf.length; i++) {
-        buf[i] === 0 ? (cost += txDataZero) : (cost += txDataNonZero);
+  /**
+   * Simulates an ordered bundle of signed transactions on top of the state block,
+   * the transactions are processed in a pending block the same way as the real block,
+   * and the state changes will be reverted
+   * @param rawTxs - raw transactions
+   * @param blockNumber - the block number the bundle is simulated for, default the next block of the state block
+   * @param stateTag - block tag of the state to run on, default `latest`
+   * @param timestamp - timestamp of the simulated block
+   * @returns Per-transaction results and the total gas used
+   */
+  async callBundle([rawTxs, blockNumber, stateTag, timestamp]: [string[], string?, any?, string?]) {
+    if (!Array.isArray(rawTxs) || rawTxs.length === 0) {
+      throw new Error('bundle missing txs');
+    }
+    const stateBlock = await this.getBlockByTag(stateTag ?? 'latest');
+    const stateHeader = stateBlock.header;
+    const number = blockNumber === undefined || blockNumber === 'pending' ? stateHeader.number.addn(1) : hexStringToBN(blockNumber);
+    if (number.lte(stateHeader.number)) {
+      throw new Error(`block number ${number.toString()} should be greater than the state block number ${stateHeader.number.toString()}`);
+    }
+    const common = this.node.getCommon(number);
+    const period: number = common.consensusConfig().period;
+    const block = this.node.reimint.generatePendingBlock(
+      {
+        parentHash: stateBlock.hash(),
+        stateRoot: stateHeader.stateRoot,
+        number,
+        timestamp: timestamp ? hexStringToBN(timestamp) : stateHeader.timestamp.addn(period * number.sub(stateHeader.number).toNumber()),
+        gasLimit: stateHeader.gasLimit
+      },
+      common
+    );
+    const txs = rawTxs.map((rawtx) => TransactionFactory.fromSerializedData(hexStringToBuffer(rawtx), { common }));
+
+    // load the fee accounting variables like the pending block does
+    const totalAmount = isEnableFreeStaking(common) ? await this.node.reimint.getTotalAmount(stateHeader.stateRoot, common) : undefined;
+    let dailyFee: BN | undefined;
+    if (isEnableDAO(stateBlock._common)) {
+      const parentVM = await this.node.getVM(stateHeader.stateRoot, stateBlock._common);
+      dailyFee = await this.node.reimint.getConfig(parentVM, block).dailyFee();
+    }
+
+    // the state changes of the previous transactions only exist in memory, so it should run in js mode
+    const vm = await this.node.getVM(stateHeader.stateRoot, common, false, EVMWorkMode.JS);
+    await vm.stateManager.checkpoint();
+    try {
+      const blockGasUsed = new BN(0);
+      const results: any[] = [];
+      for (let i = 0; i < txs.length; i++) {
+        const tx = txs[i];
+        const debug = new PrestateTracerDebug({ diffMode: true }, tx.hash());
+        const { receipt, gasUsed, execResult } = await this.node.reimint.executor.processTx({ vm, debug, tx, block, root: stateHeader.stateRoot, blockGasUsed, totalAmount, dailyFee }).catch((err) => {
+          throw new Error(`transaction ${i}(${bufferToHex(tx.hash())}) failed: ${err?.message ?? err}`);
+        });
+        blockGasUsed.iadd(gasUsed);
+        const error = execResult.exceptionError;
+        results.push({
+          txHash: bufferToHex(tx.hash()),
+          fromAddress: tx.getSenderAddress().toString(),
+          toAddress: tx.to?.toString() ?? null,
+          gasUsed: bnToHex(gasUsed),
+          gasPrice: bnToHex(calcEffectiveGasPrice(tx, block.header.baseFeePerGas)),
+          status: intToHex(receipt.status),
+          value: bufferToHex(execResult.returnValue),
+          error: error ? error.error : null,
+          revert: error?.error === ERROR.REVERT ? bufferToHex(execResult.returnValue) : null,
+          logs: receipt.logs.map((log) => log.toRPCJSON()),
+          stateChanges: await debug.result()
+        });
+      }
+      return {
+        bundleHash: bufferToHex(keccak256(Buffer.concat(txs.map((tx) => tx.hash())))),
+        blockNumber: bnToHex(number),
+        stateBlockNumber: bnToHex(stateHeader.number),
+        totalGasUsed: bnToHex(blockGasUsed),
+        results
+      };
+    } finally {
+      await vm.stateManager.revert();
+    }
+  }
+
+  /**
+   * Simulates a sequence of blocks on top of the base block,
+   * each block can override the header fields and the state before its calls run,
+   * the calls are processed as transactions the same way as the real block,
+   * the state changes are carried across blocks and will be reverted at the end
+   * @param blockStateCalls - simulated blocks
+   * @param tag - block tag of the base block
+   * @returns Synthetic blocks with call results
+   */
+  async simulateV1([{ blockStateCalls }, tag]: [{ blockStateCalls: SimulateBlock[] }, any]) {
+    if (!Array.isArray(blockStateCalls) || blockStateCalls.length === 0) {
+      throw new Error('empty input');
+    }
+    if (blockStateCalls.length > maxSimulateBlocks) {
+      throw new Error(`too many blocks, max: ${maxSimulateBlocks}`);
+    }
+
+    const base = await this.getCanonicalBlockByTag(tag ?? 'latest');
+    const common = this.node.getCommon(base.header.number.addn(1));
+    const period: number = common.consensusConfig().period;
+
+    // the latest one first
+    const recentHashes: Buffer[] = [];
+    for (let i = base.header.number.clone(); i.gten(0) && recentHashes.length < 256; i.isubn(1)) {
+      recentHashes.push(await this.node.db.numberToHash(i));
+    }
+
+    // load the fee accounting variables like the pending block does
+    const totalAmount = isEnableFreeStaking(common) ? await this.node.reimint.getTotalAmount(base.header.stateRoot, common) : undefined;
+    let dailyFee: BN | undefined;
+    if (isEnableDAO(base._common)) {
+      const parentVM = await this.node.getVM(base.header.stateRoot, base._common);
+      dailyFee = await this.node.reimint.getConfig(parentVM, base).dailyFee();
+    }
+
+    // the simulated blocks aren't signed, so the coinbase of the header is treated as the miner
+    const vm = await this.node.getVM(base.header.stateRoot, common, false, EVMWorkMode.JS, (header) => header.coinbase);
+    const stateManager = vm.stateManager as StateManager;
+    await stateManager.checkpoint();
+    try {
+      const results: any[] = [];
+      let parent = base.header;
+      for (const { blockOverrides, stateOverrides, calls } of blockStateCalls) {
+        const number = blockOverrides?.number ? hexStringToBN(blockOverrides.number) : parent.number.addn(1);
+        if (number.lte(parent.number)) {
+          throw new Error(`block numbers must be in order: ${number.toString()} <= ${parent.number.toString()}`);
+        }
+        if (this.node.getCommon(number).hardfork() !== common.hardfork()) {
+          throw new Error(`block ${number.toString()} is in a different hardfork`);
+        }
+        const timestamp = blockOverrides?.time ? hexStringToBN(blockOverrides.time) : parent.timestamp.addn(period * number.sub(parent.number).toNumber());
+        if (timestamp.lte(parent.timestamp)) {
+          throw new Error(`block timestamps must be in order: ${timestamp.toString()} <= ${parent.timestamp.toString()}`);
+        }
+        const headerData = {
+          parentHash: parent.hash(),
+          number,
+          timestamp,
+          gasLimit: blockOverrides?.gasLimit ? hexStringToBN(blockOverrides.gasLimit) : parent.gasLimit,
+          coinbase: blockOverrides?.feeRecipient ? Address.fromString(blockOverrides.feeRecipient) : Address.zero()
+        };
+        const block = Block.fromBlockData({ header: headerData }, { common });
+
+        // the skipped blocks don't exist, so their hashes are empty
+        for (let i = parent.number.addn(1); i.lt(number) && i.lt(parent.number.addn(256)); i.iaddn(1)) {
+          recentHashes.unshift(Buffer.alloc(32));
+        }
+
+        if (stateOverrides) {
+          await applyStateOverrides(stateManager, stateOverrides);
+        }
+
+        const gasUsed = new BN(0);
+        const bloom = new Bloom();
+        const callResults: any[] = [];
+        for (const [index, data] of (calls ?? []).entries()) {
+          const from = data.from ? Address.fromString(data.from) : Address.zero();
+          const gas = data.gas ? hexStringToBN(data.gas) : headerData.gasLimit.sub(gasUsed);
+          if (gasUsed.add(gas).gt(headerData.gasLimit)) {
+            throw new Error(`block ${number.toString()} gas limit reached`);
+          }
+          const nonce = data.nonce ? hexStringToBN(data.nonce) : (await stateManager.getAccount(from)).nonce;
+          const tx = TransactionFactory.fromTxData({ ...data, type: data.type ?? (data.accessList ? '0x1' : undefined), nonce, gasLimit: gas }, { common }).sign(simulatePrivateKey);
+          // the calls aren't signed by the sender, so the sender is replaced after signing
+          tx.getSenderAddress = () => from;
+
+          const txRes = await this.node.reimint.executor.processTx({ vm, tx, block, root: base.header.stateRoot, blockGasUsed: gasUsed, totalAmount, dailyFee, recentHashes: recentHashes.slice(0, 256) }).catch((err) => {
+            throw new Error(`call ${index} of block ${number.toString()} failed: ${err?.message ?? err}`);
+          });
+          bloom.or(txRes.bloom);
+          gasUsed.iadd(txRes.gasUsed);
+
+          const { receipt, execResult } = txRes;
+          const error = execResult.exceptionError;
+          callResults.push({
+            returnData: bufferToHex(execResult.returnValue),
+            logs: receipt.logs,
+            gasUsed: bnToHex(txRes.gasUsed),
+            status: intToHex(receipt.status),
+            error: error ? (error.error === ERROR.REVERT ? { code: 3, message: 'execution reverted', data: bufferToHex(execResult.returnValue) } : { code: -32015, message: error.error }) : undefined
+          });
+        }
+
+        const header = BlockHeader.fromHeaderData({ ...headerData, stateRoot: await stateManager.getStateRoot(), gasUsed, bloom: bloom.bitvector }, { common });
+        const hash = header.hash();
+        let logIndex = 0;
+        results.push({
+          ...new Block(header, [], undefined, { common }).toRPCJSON(false, false),
+          calls: callResults.map((result, index) => ({
+            ...result,
+            logs: result.logs.map((log: Log) => ({
+              ...log.toRPCJSON(),
+              blockHash: bufferToHex(hash),
+              blockNumber: bnToHex(number),
+              logIndex: intToHex(logIndex++),
+              transactionIndex: intToHex(index)
+            }))
+          }))
+        });
+
+        recentHashes.unshift(hash);
+        parent = header;
       }
+      return results;
+    } finally {
+      await stateManager.revert();
     }
+  }
 
-    const fee = new BN(cost).addn(common.param('gasPrices', 'tx'));
-    if (common.gteHardfork('homestead') && (!data.to || hexStringToBuffer(data.to).length === 0)) {
-      fee.iaddn(common.param('gasPrices', 'txCreation'));
+  /**
+   * Creates an EIP-2930 access list for the transaction,
+   * the call will be repeated until the access list stops changing
+   * @param data - transaction data
+   * @param tag - block tag
+   * @returns Access list and gas used with the access list applied
+   */
+  async createAccessList([data, tag]: [CallData, any]) {
+    const block = await this.getBlockByTag(tag);
+    const from = data.from ? Address.fromString(data.from) : Address.zero();
+    const to = data.to ? Address.fromString(data.to) : undefined;
+    let accessList: AccessList = data.accessList ?? [];
+    for (;;) {
+      const vm = await this.node.getVM(block.header.stateRoot, block.header.number, false, EVMWorkMode.JS);
+      const stateManager = vm.stateManager as StateManager;
+      await stateManager.checkpoint();
+      try {
+        // the sender and the created contract shouldn't be included in the access list,
+        // the recipient should only be included if its storage has been accessed
+        const removed = [from];
+        if (!to) {
+          const { nonce } = await stateManager.getAccount(from);
+          removed.push(new Address(generateAddress(from.buf, nonce.toArrayLike(Buffer))));
+        }
+
+        const callData = { ...data, accessList };
+        const result = await this.executeCall(vm, callData, block);
+        const newAccessList = stateManager.generateAccessList(removed, to ? [to] : []);
+        if (isSameAccessList(accessList, newAccessList)) {
+          return {
+            accessList,
+            gasUsed: bnToHex(result.gasUsed.add(calculateBaseFee(callData, block._common)))
+          };
+        }
+        accessList = newAccessList;
+      } finally {
+        await stateManager.revert();
+      }
     }
-    return fee;
   }
 
   /**
    * Generates and returns an estimate of how much gas is necessary to allow the transaction to complete
    * @param data - transaction data
    * @param tag - block tag
+   * @param overrides - state override set
    * @returns Estimated gas limit
    */
-  async estimateGas([data, tag]: [CallData, any]) {
+  async estimateGas([data, tag, overrides]: [CallData, any, StateOverrides?]) {
     const block = await this.getBlockByTag(tag);
-    const baseFee = this.calculateBaseFee(data, block._common);
+    const baseFee = calculateBaseFee(data, block._common);
     const gas = data.gas ? hexStringToBN(data.gas) : block.header.gasLimit;
     if (gas.lt(baseFee)) {
       throw new OutOfGasError(gas);
@@ -329,7 +660,7 @@ export class ETHController extends Controller {
 
     const executable = async (gas: BN) => {
       try {
-        await this.runCall({ ...data, gas: bnToHex(gas) }, block);
+        await this.runCall({ ...data, gas: bnToHex(gas) }, block, overrides);
       } catch (err: any) {
         return err;
       }
@@ -393,7 +724,7 @@ export class ETHController extends Controller {
   async getTransactionByHash([hash]: [string]) {
     const hashBuffer = hexStringToBuffer(hash);
     try {
-      return ((await this.node.db.getTransaction(hashBuffer)) as Transaction).toRPCJSON();
+      return (await this.node.db.getTransaction(hashBuffer)).toRPCJSON();
     } catch (err: any) {
       if (err.type !== 'NotFoundError') {
         throw err;
@@ -415,7 +746,7 @@ export class ETHController extends Controller {
   async getTransactionByBlockHashAndIndex([hash, index]: [string, string]) {
     try {
       const block = await this.node.db.getBlock(hexStringToBuffer(hash));
-      const tx = block.transactions[Number(index)] as Transaction;
+      const tx = block.transactions[Number(index)];
       tx.initExtension(block);
       return tx.toRPCJSON();
     } catch (err) {
@@ -432,7 +763,7 @@ export class ETHController extends Controller {
   async getTransactionByBlockNumberAndIndex([tag, index]: [any, string]) {
     try {
       const block = await this.getBlockByTag(tag);
-      const tx = block.transactions[Number(index)] as Transaction;
+      const tx = block.transactions[Number(index)];
       tx.initExtension(block);
       return tx.toRPCJSON();
     } catch (err) {
@@ -453,6 +784,28 @@ export class ETHController extends Controller {
     }
   }
 
+  /**
+   * Returns all transaction receipts of a block
+   * @param tag - block tag
+   * @returns Transaction receipts
+   */
+  async getBlockReceipts([tag]: [any]) {
+    if (tag === 'pending') {
+      return null;
+    }
+    try {
+      const block = await this.getBlockByTag(tag);
+      const receipts = await this.node.db.getReceipts(block.header.number, block.hash(), block);
+      return receipts.map((receipt) => receipt.toRPCJSON());
+    } catch (err: any) {
+      // the block or its receipts are unknown
+      if (err.type !== 'NotFoundError') {
+        throw err;
+      }
+      return null;
+    }
+  }
+
   /**
    * Returns information about a uncle of a block by hash and uncle index position
    * @returns Uncle block data
@@ -565,12 +918,7 @@ export class ETHController extends Controller {
     const { fromBlock, toBlock, addresses, topics } = query;
     const from = await this.getBlockNumberByTag(fromBlock ?? 'latest');
     const to = await this.getBlockNumberByTag(toBlock ?? 'latest');
-    if (to.sub(from).gtn(5000)) {
-      throw new Error('getFilterLogs, too many block, max limit is 5000');
-    }
-
-    const filter = this.node.getFilter();
-    const logs = await filter.filterRange(from, to, addresses, topics);
+    const logs = await this.filterLogs(from, to, addresses, topics);
     return logs.map((log) => log.toRPCJSON());
   }
 
@@ -580,15 +928,15 @@ export class ETHController extends Controller {
    * @returns Logs
    */
   async getLogs([{ fromBlock, toBlock, address: _addresses, topics: _topics, blockhash }]: [{ fromBlock?: string; toBlock?: string; address?: string | string[]; topics?: TopicsData; blockhash?: string }]) {
-    const from = await this.getBlockNumberByTag(fromBlock ?? 'latest');
-    const to = await this.getBlockNumberByTag(toBlock ?? 'latest');
-    if (to.sub(from).gtn(5000)) {
-      throw new Error('getLogs, too many block, max limit is 5000');
-    }
-
     const { addresses, topics } = parseAddressesAndTopics(_addresses, _topics);
-    const filter = this.node.getFilter();
-    const logs = blockhash ? await filter.filterBlock(hexStringToBuffer(blockhash), addresses, topics) : await filter.filterRange(from, to, addresses, topics);
+    let logs: Log[];
+    if (blockhash) {
+      logs = await this.node.getFilter().filterBlock(hexStringToBuffer(blockhash), addresses, topics);
+    } else {
+      const from = await this.getBlockNumberByTag(fromBlock ?? 'latest');
+      const to = await this.getBlockNumberByTag(toBlock ?? 'latest');
+      logs = await this.filterLogs(from, to, addresses, topics);
+    }
     return logs.map((log) => log.toRPCJSON());
   }
 
@@ -634,7 +982,7 @@ export class ETHController extends Controller {
       throw new Error('subscribe is only supported on websocket!');
     }
 
-    if (type !== 'newHeads' && type !== 'logs' && type !== 'newPendingTransactions' && type !== 'syncing') {
+    if (type !== 'newHeads' && type !== 'logs' && type !== 'newPendingTransactions' && type !== 'syncing' && type !== 'droppedTransactions') {
       throw new Error('subscribe, invalid subscription type!');
     }
 
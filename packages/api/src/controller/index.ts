@@ -4,9 +4,11 @@ import { NetController } from './net';
 import { TxPoolController } from './txpool';
 import { Web3Controller } from './web3';
 import { ReiController } from './rei';
+import { TraceController } from './trace';
 import { AdminController } from './admin';
 
 export * from './errors';
+export { parseAddressesAndTopics } from './base';
 export const api = {
   admin: AdminController,
   debug: DebugController,
@@ -14,5 +16,6 @@ export const api = {
   net: NetController,
   txpool: TxPoolController,
   web3: Web3Controller,
-  rei: ReiController
+  rei: ReiController,
+  trace: TraceController
 };
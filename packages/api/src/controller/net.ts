@@ -5,6 +5,9 @@ import { Controller } from './base';
  * Net api Controller
  */
 export class NetController extends Controller {
+  // methods exposed as `net_*` api
+  static readonly methods = ['version', 'listening', 'peerCount'];
+
   /**
    * Get the current network id
    * @returns Network id
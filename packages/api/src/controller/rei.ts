@@ -1,12 +1,48 @@
-import { bnToHex, Address, intToHex, BN } from 'ethereumjs-util';
-import { hexStringToBN } from '@rei-network/utils';
-import { isEnableDAO } from '@rei-network/core';
-import { Controller } from './base';
+import { bnToHex, bufferToHex, Address, intToHex, BN } from 'ethereumjs-util';
+import { hexStringToBN, hexStringToBuffer } from '@rei-network/utils';
+import { Block, Log } from '@rei-network/structure';
+import { Node, isEnableDAO, TooManyLogsError } from '@rei-network/core';
+import { TopicsData } from '../types';
+import { Controller, parseAddressesAndTopics } from './base';
+
+// position of a log, `logIndex` starts from 0 in each receipt
+type LogsCursor = { blockNumber: string; transactionIndex: string; logIndex: string };
+
+/**
+ * Compare the positions of two logs
+ * @param a - Log a
+ * @param b - Log b
+ * @returns Comparison result
+ */
+function compareLogs(a: Log, b: Log) {
+  return a.extension!.blockNumber.cmp(b.extension!.blockNumber) || a.extension!.transactionIndex - b.extension!.transactionIndex || a.extension!.logIndex - b.extension!.logIndex;
+}
+
+/**
+ * Load the validator set from the state of the block,
+ * it is the validator set of the next block
+ * @param node - Node instance
+ * @param block - Block
+ * @returns Validator set and stake manager
+ */
+async function loadValidatorSet(node: Node, block: Block) {
+  const header = block.header;
+  const vm = await node.getVM(header.stateRoot, block._common);
+  const sm = node.reimint.getStakeManager(vm, block);
+  // the bls public keys are used since the next block enables DAO
+  const nextCommon = node.getCommon(header.number.addn(1));
+  const bls = isEnableDAO(nextCommon) ? node.reimint.getValidatorBLS(vm, block, nextCommon) : undefined;
+  const valSet = await node.reimint.validatorSets.getValSet(header.stateRoot, sm, bls);
+  return { valSet, sm };
+}
 
 /**
  * Rei api Controller
  */
 export class ReiController extends Controller {
+  // methods exposed as `rei_*` api
+  static readonly methods = ['getVersion', 'getCrude', 'getUsedCrude', 'getTotalAmount', 'getDailyFee', 'getMinerRewardFactor', 'getMinerInfo', 'getValidators', 'getIndexedValidators', 'getTransactionStatus', 'getLogsPaged'];
+
   /**
    * Get client version
    * @returns Client version
@@ -178,4 +214,153 @@ export class ReiController extends Controller {
     result.registerBLSPublicKey = blsPublicKey?.toString('hex') ?? null;
     return result;
   }
+
+  /**
+   * Get the active validator set after the block,
+   * which is used to produce the next block
+   * @param tag - Block tag
+   * @returns Active validators and the proposer of the next block
+   */
+  async getValidators([tag]: [any]) {
+    const block = await this.getCanonicalBlockByTag(tag);
+    const { valSet, sm } = await loadValidatorSet(this.node, block);
+    const active = valSet.active;
+    const validators: any[] = [];
+    for (const { validator, votingPower, priority, blsPublicKey } of active.activeValidators()) {
+      validators.push({
+        address: validator.toString(),
+        validatorId: bnToHex(await sm.getValidatorIdByAddress(validator)),
+        votingPower: bnToHex(votingPower),
+        // the priority may be negative
+        priority: priority.isNeg() ? '-' + bnToHex(priority.abs()) : bnToHex(priority),
+        blsPublicKey: blsPublicKey ? bufferToHex(blsPublicKey) : null
+      });
+    }
+    return {
+      number: bnToHex(block.header.number),
+      hash: bufferToHex(block.hash()),
+      proposer: active.proposer.toString(),
+      totalVotingPower: bnToHex(active.totalVotingPower),
+      validators
+    };
+  }
+
+  /**
+   * Get the indexed validator set after the block,
+   * the genesis validators are excluded
+   * @param tag - Block tag
+   * @returns Indexed validators
+   */
+  async getIndexedValidators([tag]: [any]) {
+    const block = await this.getCanonicalBlockByTag(tag);
+    const { valSet, sm } = await loadValidatorSet(this.node, block);
+    const validators: any[] = [];
+    for (const { validator, votingPower, blsPublicKey } of valSet.indexed.indexed.values()) {
+      validators.push({
+        address: validator.toString(),
+        validatorId: bnToHex(await sm.getValidatorIdByAddress(validator)),
+        votingPower: bnToHex(votingPower),
+        blsPublicKey: blsPublicKey ? bufferToHex(blsPublicKey) : null
+      });
+    }
+    return {
+      number: bnToHex(block.header.number),
+      hash: bufferToHex(block.hash()),
+      validators
+    };
+  }
+
+  /**
+   * Get the status of the transaction, if the transaction was dropped by the pool,
+   * the reason will be returned
+   * @param hash - Transaction hash
+   * @returns Transaction status
+   */
+  async getTransactionStatus([hash]: [string]) {
+    const hashBuffer = hexStringToBuffer(hash);
+    const status = this.node.txPool.getTransactionStatus(hashBuffer);
+    if (status) {
+      return { status };
+    }
+
+    try {
+      const tx = await this.node.db.getTransaction(hashBuffer);
+      return {
+        status: 'included',
+        blockHash: bufferToHex(tx.extension!.blockHash!),
+        blockNumber: bnToHex(tx.extension!.blockNumber!)
+      };
+    } catch (err: any) {
+      if (err.type !== 'NotFoundError') {
+        throw err;
+      }
+    }
+
+    const dropped = this.node.txPool.getDroppedTransaction(hashBuffer);
+    if (dropped) {
+      return { status: 'dropped', ...dropped.toRPCJSON() };
+    }
+
+    return { status: 'unknown' };
+  }
+
+  /**
+   * Returns logs matching the filter object page by page,
+   * each page scans at most `maxLogsBlockRange` blocks
+   * @param filter - filter parameters
+   * @param cursor - position of the next log, returned by the last page
+   * @param limit - max number of logs in a page
+   * @returns Logs and the cursor of the next page, the cursor is null if there are no more logs
+   */
+  async getLogsPaged([{ fromBlock, toBlock, address: _addresses, topics: _topics }, cursor, limit]: [{ fromBlock?: string; toBlock?: string; address?: string | string[]; topics?: TopicsData }, LogsCursor?, string?]) {
+    const pageSize = limit ? Math.min(hexStringToBN(limit).toNumber(), this.server.maxLogs) : this.server.maxLogs;
+    if (pageSize <= 0) {
+      throw new Error('invalid limit');
+    }
+
+    const from = cursor ? hexStringToBN(cursor.blockNumber) : await this.getBlockNumberByTag(fromBlock ?? 'latest');
+    const fromTxIndex = cursor ? hexStringToBN(cursor.transactionIndex).toNumber() : 0;
+    const fromLogIndex = cursor ? hexStringToBN(cursor.logIndex).toNumber() : 0;
+    const to = await this.getBlockNumberByTag(toBlock ?? 'latest');
+    const rangeEnd = BN.min(to, from.addn(this.server.maxLogsBlockRange - 1));
+    const { addresses, topics } = parseAddressesAndTopics(_addresses, _topics);
+    const filter = this.node.getFilter();
+
+    const logs: Log[] = [];
+    let start = from.clone();
+    while (start.lte(rangeEnd)) {
+      // narrow the range until the number of logs doesn't exceed the limit
+      let end = rangeEnd.clone();
+      let chunk: Log[];
+      for (;;) {
+        try {
+          chunk = end.eq(start) ? await filter.filterBlock(start, addresses, topics) : await filter.filterRange(start, end, addresses, topics, this.server.maxLogs);
+          break;
+        } catch (err) {
+          if (!(err instanceof TooManyLogsError)) {
+            throw err;
+          }
+          end = start.add(end).divn(2);
+        }
+      }
+
+      chunk.sort(compareLogs);
+      for (const log of chunk) {
+        const { blockNumber, transactionIndex, logIndex } = log.extension!;
+        if (blockNumber.eq(from) && (transactionIndex < fromTxIndex || (transactionIndex === fromTxIndex && logIndex < fromLogIndex))) {
+          continue;
+        }
+        if (logs.length === pageSize) {
+          return { logs: logs.map((log) => log.toRPCJSON()), cursor: { blockNumber: bnToHex(blockNumber), transactionIndex: intToHex(transactionIndex), logIndex: intToHex(logIndex) } };
+        }
+        logs.push(log);
+      }
+      start = end.addn(1);
+    }
+
+    return {
+      logs: logs.map((log) => log.toRPCJSON()),
+      cursor: rangeEnd.lt(to) ? { blockNumber: bnToHex(rangeEnd.addn(1)), transactionIndex: intToHex(0), logIndex: intToHex(0) } : null
+    };
+  }
 }
@@ -0,0 +1,159 @@
+import { bnToHex, bufferToHex } from 'ethereumjs-util';
+import { Block } from '@rei-network/structure';
+import { hexStringToBuffer } from '@rei-network/utils';
+import { Node, ParityTrace, ParityTraceType } from '@rei-network/core';
+import { Controller } from './base';
+
+const maxFilterBlockRange = 1000;
+const traceTypes = new Set<string>(['trace', 'stateDiff', 'vmTrace']);
+
+type TraceFilter = {
+  fromBlock?: string;
+  toBlock?: string;
+  fromAddress?: string[];
+  toAddress?: string[];
+  after?: number;
+  count?: number;
+};
+
+/**
+ * Attach the block and transaction information to the traces
+ * @param traces - Traces of a transaction
+ * @param block - Block
+ * @param index - Transaction index
+ * @returns Traces
+ */
+function localizeTraces(traces: ParityTrace[], block: Block, index: number) {
+  const blockHash = bufferToHex(block.hash());
+  const blockNumber = block.header.number.toNumber();
+  const transactionHash = bufferToHex(block.transactions[index].hash());
+  return traces.map((trace) => ({ ...trace, blockHash, blockNumber, transactionHash, transactionPosition: index }));
+}
+
+/**
+ * Replay all transactions of the block and return the flat traces
+ * @param node - Node instance
+ * @param block - Block
+ * @returns Traces
+ */
+async function traceAllTransactions(node: Node, block: Block) {
+  if (block.transactions.length === 0) {
+    return [];
+  }
+  const results = await node.getTracer().replayBlock(block, ['trace']);
+  return results.reduce<ReturnType<typeof localizeTraces>>((traces, { trace }, i) => traces.concat(localizeTraces(trace, block, i)), []);
+}
+
+/**
+ * Check whether the trace matches the filter addresses
+ * @param trace - Trace
+ * @param fromAddress - From addresses
+ * @param toAddress - To addresses
+ * @returns `true` if matched
+ */
+function matchAddresses(trace: ParityTrace, fromAddress: Set<string>, toAddress: Set<string>) {
+  let from: string | undefined;
+  let to: string | undefined;
+  if (trace.type === 'suicide') {
+    from = trace.action.address;
+    to = trace.action.refundAddress;
+  } else if (trace.type === 'create') {
+    from = trace.action.from;
+    to = trace.result?.address;
+  } else {
+    from = trace.action.from;
+    to = trace.action.to;
+  }
+  return (fromAddress.size === 0 || (from !== undefined && fromAddress.has(from))) && (toAddress.size === 0 || (to !== undefined && toAddress.has(to)));
+}
+
+/**
+ * Trace api Controller, the output is compatible with OpenEthereum
+ */
+export class TraceController extends Controller {
+  // methods exposed as `trace_*` api
+  static readonly methods = ['block', 'transaction', 'replayTransaction', 'filter'];
+
+  /**
+   * Returns traces created at given block
+   * @param tag - block tag
+   * @returns Traces
+   */
+  async block([tag]: [any]) {
+    return traceAllTransactions(this.node, await this.getCanonicalBlockByTag(tag));
+  }
+
+  /**
+   * Returns all traces of given transaction
+   * @param hash - transaction hash
+   * @returns Traces
+   */
+  async transaction([hash]: [string]) {
+    const hashBuffer = hexStringToBuffer(hash);
+    const tx = await this.node.db.getTransaction(hashBuffer);
+    const block = await this.node.db.getBlockByHashAndNumber(tx.extension!.blockHash, tx.extension!.blockNumber);
+    const [{ trace }] = await this.node.getTracer().replayBlock(block, ['trace'], hashBuffer);
+    return localizeTraces(trace, block, tx.extension!.transactionIndex);
+  }
+
+  /**
+   * Replays a transaction, returning the traces
+   * @param hash - transaction hash
+   * @param types - trace types, `trace`, `stateDiff` or `vmTrace`
+   * @returns Traces
+   */
+  async replayTransaction([hash, types]: [string, ParityTraceType[]]) {
+    if (!Array.isArray(types) || types.some((type) => !traceTypes.has(type))) {
+      throw new Error('invalid trace types');
+    }
+    const hashBuffer = hexStringToBuffer(hash);
+    const tx = await this.node.db.getTransaction(hashBuffer);
+    const block = await this.node.db.getBlockByHashAndNumber(tx.extension!.blockHash, tx.extension!.blockNumber);
+    const [result] = await this.node.getTracer().replayBlock(block, types, hashBuffer);
+    return result;
+  }
+
+  /**
+   * Returns traces matching given filter
+   * @param filter - trace filter
+   * @returns Traces
+   */
+  async filter([{ fromBlock, toBlock, fromAddress, toAddress, after, count }]: [TraceFilter]) {
+    const from = await this.getBlockNumberByTag(fromBlock ?? 'latest');
+    const to = await this.getBlockNumberByTag(toBlock ?? 'latest');
+    const latest = this.node.getLatestBlock().header.number;
+    if (to.gt(latest)) {
+      throw new Error(`block ${bnToHex(to)} doesn't exist`);
+    }
+    if (to.lt(from)) {
+      throw new Error('invalid block range');
+    }
+    if (to.sub(from).gten(maxFilterBlockRange)) {
+      throw new Error(`block range is too large, max limit is ${maxFilterBlockRange}`);
+    }
+
+    const fromAddresses = new Set<string>((fromAddress ?? []).map((address) => address.toLowerCase()));
+    const toAddresses = new Set<string>((toAddress ?? []).map((address) => address.toLowerCase()));
+    let skip = after ?? 0;
+    const traces: ReturnType<typeof localizeTraces> = [];
+    for (const num = from.clone(); num.lte(to); num.iaddn(1)) {
+      if (num.isZero()) {
+        continue;
+      }
+      for (const trace of await traceAllTransactions(this.node, await this.node.db.getBlock(num))) {
+        if (!matchAddresses(trace, fromAddresses, toAddresses)) {
+          continue;
+        }
+        if (skip > 0) {
+          skip--;
+          continue;
+        }
+        traces.push(trace);
+        if (count !== undefined && traces.length >= count) {
+          return traces;
+        }
+      }
+    }
+    return traces;
+  }
+}
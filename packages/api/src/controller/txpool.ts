@@ -1,9 +1,13 @@
+import { Address, intToHex } from 'ethereumjs-util';
 import { Controller } from './base';
 
 /**
  * Txpool api Controller
  */
 export class TxPoolController extends Controller {
+  // methods exposed as `txpool_*` api
+  static readonly methods = ['content', 'status', 'inspect', 'contentFrom'];
+
   /**
    * Get total pool content
    * @returns An object containing all transactions in the pool
@@ -11,4 +15,30 @@ export class TxPoolController extends Controller {
   content() {
     return this.node.txPool.getPoolContent();
   }
+
+  /**
+   * Get the number of pending and queued transactions
+   * @returns Pending and queued transaction counts
+   */
+  status() {
+    const { pending, queued } = this.node.txPool.getPoolStatus();
+    return { pending: intToHex(pending), queued: intToHex(queued) };
+  }
+
+  /**
+   * Get the summary of all transactions in the pool
+   * @returns An object containing the summary string of all transactions
+   */
+  inspect() {
+    return this.node.txPool.getPoolInspect();
+  }
+
+  /**
+   * Get the pool content of the given account
+   * @param address - Account address
+   * @returns An object containing all transactions of the account
+   */
+  contentFrom([address]: [string]) {
+    return this.node.txPool.getPoolContentFrom(Address.fromString(address));
+  }
 }
@@ -5,6 +5,9 @@ import { Controller } from './base';
  * Web3 api Controller
  */
 export class Web3Controller extends Controller {
+  // methods exposed as `web3_*` api
+  static readonly methods = ['clientVersion', 'sha3'];
+
   /**
    * Get client version
    * @returns version data
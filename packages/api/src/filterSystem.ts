@@ -2,9 +2,9 @@ import { Address, BN, bufferToHex, toBuffer, bnToHex } from 'ethereumjs-util';
 import { v4 as uuidv4 } from 'uuid';
 import { AbortableTimer, Channel, logger } from '@rei-network/utils';
 import { Topics, BloomBitsFilter } from '@rei-network/core';
-import { Transaction, Log, BlockHeader } from '@rei-network/structure';
+import { TypedTransaction, Log, BlockHeader } from '@rei-network/structure';
 import { Node } from '@rei-network/core';
-import { SyncingStatus, Client } from './types';
+import { SyncingStatus, DroppedTransactionInfo, Client } from './types';
 
 type Query = {
   fromBlock?: BN;
@@ -59,7 +59,14 @@ class SyncingTask {
   }
 }
 
-type Task = LogsTask | HeadsTask | PendingTxTask | SyncingTask;
+class DroppedTxTask {
+  dropped: DroppedTransactionInfo[];
+  constructor(dropped: DroppedTransactionInfo[]) {
+    this.dropped = dropped;
+  }
+}
+
+type Task = LogsTask | HeadsTask | PendingTxTask | SyncingTask | DroppedTxTask;
 
 /**
  * Filter subscribe information for client
@@ -75,6 +82,7 @@ export class FilterSystem {
   private readonly subscribeLogs = new Map<string, Filter>();
   private readonly subscribePendingTransactions = new Map<string, Filter>();
   private readonly subscribeSyncing = new Map<string, Filter>();
+  private readonly subscribeDroppedTransactions = new Map<string, Filter>();
   private readonly filterHeads = new Map<string, Filter>();
   private readonly filterLogs = new Map<string, Filter>();
   private readonly filterPendingTransactions = new Map<string, Filter>();
@@ -117,10 +125,14 @@ export class FilterSystem {
     this.taskQueue.push(new SyncingTask(false));
   };
 
-  private onReadies = (readies: Transaction[]) => {
+  private onReadies = (readies: TypedTransaction[]) => {
     this.taskQueue.push(new PendingTxTask(readies.map((tx) => tx.hash())));
   };
 
+  private onDropped = (dropped: { toRPCJSON(): DroppedTransactionInfo }[]) => {
+    this.taskQueue.push(new DroppedTxTask(dropped.map((d) => d.toRPCJSON())));
+  };
+
   private deleteTimeout(map: Map<string, Filter>, now: number) {
     for (const [key, filter] of map) {
       if (now - filter.creationTime! > deadline) {
@@ -151,6 +163,7 @@ export class FilterSystem {
     this.node.sync.on('failed', this.onFailed);
     this.node.sync.on('synchronized', this.onSynchronized);
     this.node.txPool.on('readies', this.onReadies);
+    this.node.txPool.on('dropped', this.onDropped);
   }
 
   /**
@@ -165,6 +178,7 @@ export class FilterSystem {
     this.node.sync.off('failed', this.onFailed);
     this.node.sync.off('synchronized', this.onSynchronized);
     this.node.txPool.off('readies', this.onReadies);
+    this.node.txPool.off('dropped', this.onDropped);
     this.aborted = true;
     this.timer.abort();
   }
@@ -182,6 +196,7 @@ export class FilterSystem {
       this.deleteClosed(this.subscribeLogs);
       this.deleteClosed(this.subscribePendingTransactions);
       this.deleteClosed(this.subscribeSyncing);
+      this.deleteClosed(this.subscribeDroppedTransactions);
 
       await this.timer.wait(deadline);
     }
@@ -214,6 +229,8 @@ export class FilterSystem {
           this.newPendingTransactions(task.hashes);
         } else if (task instanceof SyncingTask) {
           this.newSyncing(task.status);
+        } else if (task instanceof DroppedTxTask) {
+          this.newDroppedTransactions(task.dropped);
         }
       } catch (err) {
         logger.error('FilterSystem::taskLoop, catch error:', err);
@@ -223,7 +240,7 @@ export class FilterSystem {
 
   /**
    * Subscription operation, categorize subscription types, including
-   * `newHeads`, `logs`, `newPendingTransactions`, `syncing`, then set
+   * `newHeads`, `logs`, `newPendingTransactions`, `syncing`, `droppedTransactions`, then set
    * into map
    * @param client - Websocket client
    * @param type - Subscription type
@@ -250,6 +267,10 @@ export class FilterSystem {
         this.subscribeSyncing.set(uid, filter);
         break;
       }
+      case 'droppedTransactions': {
+        this.subscribeDroppedTransactions.set(uid, filter);
+        break;
+      }
     }
     return uid;
   }
@@ -291,6 +312,7 @@ export class FilterSystem {
     result = this.subscribeLogs.delete(id) || result;
     result = this.subscribePendingTransactions.delete(id) || result;
     result = this.subscribeSyncing.delete(id) || result;
+    result = this.subscribeDroppedTransactions.delete(id) || result;
     return result;
   }
 
@@ -438,4 +460,18 @@ export class FilterSystem {
       }
     }
   }
+
+  /**
+   * Notify dropped transactions to all subscribed client
+   * @param dropped - Dropped transactions
+   */
+  private newDroppedTransactions(dropped: DroppedTransactionInfo[]) {
+    for (const [id, filter] of this.subscribeDroppedTransactions) {
+      if (filter.client!.isClosed) {
+        this.subscribeDroppedTransactions.delete(id);
+      } else {
+        filter.client!.notifyDroppedTransactions(id, dropped);
+      }
+    }
+  }
 }
@@ -1,55 +1,249 @@
-import { BN } from 'ethereumjs-util';
-import { Channel } from '@rei-network/utils';
-import { Block, Transaction } from '@rei-network/structure';
+import { BN, bnToHex, intToHex } from 'ethereumjs-util';
+import { Channel, FunctionalBufferMap, logger } from '@rei-network/utils';
+import { Block, calcEffectiveGasTip } from '@rei-network/structure';
 import { Node } from '@rei-network/core';
 
-const defaultGasPrice = 1000000000;
+const defaultGasPrice = new BN(1000000000);
+const defaultBlocks = 20;
+const defaultPercentile = 60;
+const defaultIgnorePrice = new BN(2);
+const defaultMaxPrice = new BN(500).mul(defaultGasPrice);
+
+// number of transactions sampled in a block
+const sampleNumber = 3;
+// max number of blocks that can be queried by `feeHistory`
+const maxFeeHistory = 1024;
+// max number of reward percentiles that can be queried by `feeHistory`
+const maxRewardPercentiles = 100;
 
 type Task = Buffer[];
 
+export interface GasPriceOracleOptions {
+  // number of recent blocks to sample
+  blocks?: number;
+  // percentile of the sampled tips used as the suggestion
+  percentile?: number;
+  // suggestion used before any transaction has been sampled
+  defaultPrice?: BN;
+  // upper bound of the suggestion
+  maxPrice?: BN;
+  // tips lower than this value will be ignored when sampling
+  ignorePrice?: BN;
+}
+
+export type FeeHistory = {
+  oldestBlock: string;
+  baseFeePerGas: string[];
+  gasUsedRatio: number[];
+  reward?: string[][];
+};
+
 /**
- * TODO: improve oracle logic
+ * GasPriceOracle recommends gas prices based on the effective tips of
+ * transactions included in recent blocks
  */
-export class SimpleOracle {
+export class GasPriceOracle {
   private node: Node;
   private taskQueue = new Channel<Task>();
-  private avgGasPrice?: BN;
+  private samples = new FunctionalBufferMap<BN[]>();
+  private lastTip: BN;
+  private lastBaseFee?: BN;
 
-  constructor(node: Node) {
+  private blocks: number;
+  private percentile: number;
+  private maxPrice: BN;
+  private ignorePrice: BN;
+
+  constructor(node: Node, options?: GasPriceOracleOptions) {
     this.node = node;
+    this.blocks = options?.blocks ?? defaultBlocks;
+    this.percentile = options?.percentile ?? defaultPercentile;
+    this.maxPrice = options?.maxPrice ?? defaultMaxPrice;
+    this.ignorePrice = options?.ignorePrice ?? defaultIgnorePrice;
+    this.lastTip = options?.defaultPrice ?? defaultGasPrice;
+    if (this.blocks < 1) {
+      throw new Error('invalid blocks');
+    }
+    if (this.percentile < 0 || this.percentile > 100) {
+      throw new Error('invalid percentile');
+    }
   }
 
+  /**
+   * Get suggested gas price,
+   * it is equal to the suggested tip plus the latest base fee
+   */
   get gasPrice() {
-    return this.avgGasPrice?.clone() ?? new BN(defaultGasPrice);
+    return this.lastBaseFee ? this.lastTip.add(this.lastBaseFee) : this.lastTip.clone();
+  }
+
+  /**
+   * Get suggested tip(max priority fee per gas)
+   */
+  get maxPriorityFeePerGas() {
+    return this.lastTip.clone();
   }
 
   private onNewHeads = (hashes: Buffer[]) => {
     this.taskQueue.push(hashes);
   };
 
+  /**
+   * Sample the lowest effective tips of the block
+   * @param block - Block
+   * @returns Sampled tips
+   */
+  private sampleBlock(block: Block) {
+    const baseFee = block.header.baseFeePerGas;
+    const tips = block.transactions
+      .map((tx) => calcEffectiveGasTip(tx, baseFee))
+      .filter((tip) => tip.gte(this.ignorePrice))
+      .sort((a, b) => a.cmp(b));
+    return tips.slice(0, sampleNumber);
+  }
+
+  /**
+   * Recalculate the suggested tip based on the recent blocks
+   * @param head - Latest block hash
+   */
+  private async update(head: Buffer) {
+    let block: Block = await this.node.db.getBlock(head);
+    this.lastBaseFee = block.header.baseFeePerGas;
+
+    const visited = new FunctionalBufferMap<BN[]>();
+    let tips: BN[] = [];
+    for (let i = 0; i < this.blocks; i++) {
+      const hash = block.hash();
+      let samples = this.samples.get(hash);
+      if (samples === undefined) {
+        samples = this.sampleBlock(block);
+      }
+      visited.set(hash, samples);
+      tips = tips.concat(samples);
+
+      if (block.header.number.eqn(0)) {
+        break;
+      }
+      block = await this.node.db.getBlockByHashAndNumber(block.header.parentHash, block.header.number.subn(1));
+    }
+    this.samples = visited;
+
+    // if there are no transactions in recent blocks, keep the last suggestion
+    if (tips.length > 0) {
+      tips.sort((a, b) => a.cmp(b));
+      const tip = tips[Math.floor(((tips.length - 1) * this.percentile) / 100)];
+      this.lastTip = BN.min(tip, this.maxPrice);
+    }
+  }
+
   private async taskLoop() {
     for await (const hashes of this.taskQueue) {
       try {
         if (hashes.length > 0) {
-          const hash = hashes[hashes.length - 1];
-          const block: Block = await this.node.db.getBlock(hash);
-          if (block.transactions.length > 0) {
-            const totalGasPrice = new BN(0);
-            for (const tx of block.transactions as Transaction[]) {
-              totalGasPrice.iadd(tx.gasPrice);
-            }
-            this.avgGasPrice = totalGasPrice.divn(block.transactions.length);
-            if (this.avgGasPrice.isZero()) {
-              this.avgGasPrice = new BN(1);
-            }
-          } else {
-            this.avgGasPrice = undefined;
-          }
+          await this.update(hashes[hashes.length - 1]);
         }
       } catch (err) {
-        // ignore errors ...
+        logger.debug('GasPriceOracle::taskLoop, catch error:', err);
+      }
+    }
+  }
+
+  /**
+   * Calculate the gas used ratio and the rewards of the block
+   * @param block - Block
+   * @param percentiles - Reward percentiles
+   * @returns Gas used ratio and rewards
+   */
+  private async processFeeHistoryBlock(block: Block, percentiles?: number[]) {
+    const gasUsedRatio = block.header.gasLimit.isZero() ? 0 : Number(block.header.gasUsed.toString()) / Number(block.header.gasLimit.toString());
+    if (!percentiles || percentiles.length === 0) {
+      return { gasUsedRatio };
+    }
+
+    if (block.transactions.length === 0) {
+      return { gasUsedRatio, reward: percentiles.map(() => bnToHex(new BN(0))) };
+    }
+
+    const baseFee = block.header.baseFeePerGas;
+    const receipts = await this.node.receiptsCache.get(block.hash(), this.node.db);
+    const sorted = block.transactions
+      .map((tx, i) => {
+        return {
+          reward: calcEffectiveGasTip(tx, baseFee),
+          gasUsed: receipts[i].extension!.gasUsed
+        };
+      })
+      .sort((a, b) => a.reward.cmp(b.reward));
+
+    const reward: string[] = [];
+    let txIndex = 0;
+    const sumGasUsed = sorted[0].gasUsed.clone();
+    for (const percentile of percentiles) {
+      const threshold = block.header.gasUsed.muln(percentile * 100).divn(10000);
+      while (sumGasUsed.lt(threshold) && txIndex < sorted.length - 1) {
+        txIndex++;
+        sumGasUsed.iadd(sorted[txIndex].gasUsed);
       }
+      reward.push(bnToHex(sorted[txIndex].reward));
+    }
+    return { gasUsedRatio, reward };
+  }
+
+  /**
+   * Get fee history of a range of blocks
+   * @param blockCount - Number of blocks in the requested range
+   * @param newest - Highest block of the requested range
+   * @param percentiles - Reward percentiles
+   * @returns Fee history
+   */
+  async feeHistory(blockCount: number, newest: Block, percentiles?: number[]): Promise<FeeHistory> {
+    if (blockCount < 1) {
+      return { oldestBlock: intToHex(0), baseFeePerGas: [], gasUsedRatio: [] };
+    }
+    if (blockCount > maxFeeHistory) {
+      blockCount = maxFeeHistory;
+    }
+    if (percentiles) {
+      if (percentiles.length > maxRewardPercentiles) {
+        throw new Error(`too many reward percentiles, max limit is ${maxRewardPercentiles}`);
+      }
+      for (let i = 0; i < percentiles.length; i++) {
+        if (typeof percentiles[i] !== 'number' || percentiles[i] < 0 || percentiles[i] > 100) {
+          throw new Error(`invalid reward percentile: ${percentiles[i]}`);
+        }
+        if (i > 0 && percentiles[i] < percentiles[i - 1]) {
+          throw new Error(`invalid reward percentile: #${i - 1}:${percentiles[i - 1]} > #${i}:${percentiles[i]}`);
+        }
+      }
+    }
+
+    if (newest.header.number.addn(1).ltn(blockCount)) {
+      blockCount = newest.header.number.addn(1).toNumber();
+    }
+
+    const blocks: Block[] = [newest];
+    while (blocks.length < blockCount) {
+      const child = blocks[0];
+      blocks.unshift(await this.node.db.getBlockByHashAndNumber(child.header.parentHash, child.header.number.subn(1)));
+    }
+
+    const baseFeePerGas: string[] = [];
+    const gasUsedRatio: number[] = [];
+    const reward: string[][] = [];
+    for (const block of blocks) {
+      const result = await this.processFeeHistoryBlock(block, percentiles);
+      baseFeePerGas.push(bnToHex(block.header.baseFeePerGas ?? new BN(0)));
+      gasUsedRatio.push(result.gasUsedRatio);
+      result.reward && reward.push(result.reward);
+    }
+    // the base fee of the next block
+    baseFeePerGas.push(bnToHex(newest.header.baseFeePerGas ? newest.header.calcNextBaseFee() : new BN(0)));
+
+    const result: FeeHistory = { oldestBlock: bnToHex(blocks[0].header.number), baseFeePerGas, gasUsedRatio };
+    if (percentiles && percentiles.length > 0) {
+      result.reward = reward;
     }
+    return result;
   }
 
   /**
@@ -58,6 +252,8 @@ export class SimpleOracle {
   start() {
     this.taskLoop();
     this.node.bcMonitor.on('newHeads', this.onNewHeads);
+    // calculate the initial suggestion with the latest block
+    this.taskQueue.push([this.node.getLatestBlock().hash()]);
   }
 
   /**
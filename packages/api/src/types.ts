@@ -1,7 +1,10 @@
-import type { BlockHeader, Log } from '@rei-network/structure';
+import type { BlockHeader, Log, AccessList } from '@rei-network/structure';
+import type { StateOverrides } from '@rei-network/core';
 
 export type SyncingStatus = { syncing: true; status: { startingBlock: string; currentBlock: string; highestBlock: string } } | false;
 
+export type DroppedTransactionInfo = { hash: string; reason: string; message: string | null; replacedBy: string | null; timestamp: string };
+
 export type TopicsData = (string | null | (string | null)[])[];
 
 export type CallData = {
@@ -9,9 +12,27 @@ export type CallData = {
   to?: string;
   gas?: string;
   gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
   value?: string;
   data?: string;
   nonce?: string;
+  type?: string;
+  chainId?: string;
+  accessList?: AccessList;
+};
+
+export type BlockOverrides = {
+  number?: string;
+  time?: string;
+  gasLimit?: string;
+  feeRecipient?: string;
+};
+
+export type SimulateBlock = {
+  blockOverrides?: BlockOverrides;
+  stateOverrides?: StateOverrides;
+  calls?: CallData[];
 };
 
 export interface Client {
@@ -22,6 +43,7 @@ export interface Client {
   notifyLogs(subscription: string, logs: Log[]): void;
   notifyPendingTransactions(subscription: string, hashes: Buffer[]): void;
   notifySyncing(subscription: string, status: SyncingStatus): void;
+  notifyDroppedTransactions(subscription: string, dropped: DroppedTransactionInfo[]): void;
 }
 
 export interface RpcServer {
@@ -29,6 +51,7 @@ export interface RpcServer {
   host: string;
   port: number;
   reset(newHost: string, newPort: number): void;
+  rateLimitStats(): any;
   start(): Promise<void>;
   abort(): Promise<void>;
 }
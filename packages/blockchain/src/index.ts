@@ -1372,6 +1372,55 @@ export class Blockchain implements BlockchainInterface {
     });
   }
 
+  /**
+   * Rewind the canonical chain to the block of the given number.
+   * Canonical references above the target are deleted,
+   * the blocks themselves are still kept in the database
+   * @param number - The target block number
+   * @returns The new head block
+   */
+  async rewind(number: BN) {
+    return await this.initAndLock<Block>(async () => {
+      const hash = await this.safeNumberToHash(number);
+      if (!hash) {
+        throw new Error(`missing canonical block, number: ${number.toString()}`);
+      }
+
+      const dbOps: DBOp[] = [];
+      // delete higher number assignments up to the latest block,
+      // the canonical chain may be discontinuous after snap sync
+      const latestNumber = this._latestBlock.header.number;
+      for (const blockNumber = number.addn(1); blockNumber.lte(latestNumber); blockNumber.iaddn(1)) {
+        const staleHash = await this.safeNumberToHash(blockNumber);
+        if (!staleHash) {
+          continue;
+        }
+        dbOps.push(DBOp.del(DBTarget.NumberToHash, { blockNumber: blockNumber.clone() }));
+        // reset stale iterator heads to the new head
+        Object.keys(this._heads).forEach((name) => {
+          if (this._heads[name].equals(staleHash)) {
+            this._heads[name] = hash;
+          }
+        });
+      }
+      this._headHeaderHash = hash;
+      this._headBlockHash = hash;
+      if (this._hardforkByHeadBlockNumber) {
+        this._common.setHardforkByBlockNumber(number);
+      }
+
+      await this.database.batch(dbOps.concat(this._saveHeadOps()));
+
+      // Clique: update signer votes and state
+      if (this._common.consensusAlgorithm() === ConsensusAlgorithm.Clique) {
+        await this._cliqueDeleteSnapshots(number);
+      }
+
+      await this.updateLatest();
+      return this._latestBlock;
+    });
+  }
+
   /* Methods regarding re-org operations */
 
   /**
@@ -87,4 +87,22 @@ describe('Blockchain', () => {
     expect(header.number.toNumber()).equal(100);
     expect(td.toNumber()).equal(100);
   });
+
+  it('should rewind succeed', async () => {
+    const block = await blockchain.rewind(new BN(5));
+    const header = await blockchain.getLatestHeader();
+    expect(block.header.number.toNumber()).equal(5);
+    expect(header.hash().equals(block.hash())).be.true;
+    expect(await blockchain.safeNumberToHash(new BN(6))).be.false;
+    expect(await blockchain.safeNumberToHash(new BN(100)), 'discontinuous canonical chain should be deleted').be.false;
+  });
+
+  it('should rewind failed', async () => {
+    try {
+      await blockchain.rewind(new BN(6));
+      assert.fail('should rewind failed');
+    } catch (err: any) {
+      expect(err.message).equal('missing canonical block, number: 6');
+    }
+  });
 });
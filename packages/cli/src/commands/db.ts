@@ -0,0 +1,41 @@
+import fs from 'fs';
+import { Command } from 'commander';
+import { BN, bufferToHex } from 'ethereumjs-util';
+import { NodeFactory } from '@rei-network/core';
+import { logger } from '@rei-network/utils';
+import { getKeyStorePath, getBlsPath, setupLogger } from '../utils';
+
+export function installDBCommand(program: any) {
+  const db = new Command('db').description('Manage the local database');
+  program.addCommand(db);
+
+  db.command('set-head <number>')
+    .description('Rewind the local chain to the block number, the node must be stopped')
+    .action(async (number) => {
+      try {
+        const opts = program.opts();
+        setupLogger(opts);
+        if (!fs.existsSync(opts.datadir)) {
+          throw new Error(`missing datadir: ${opts.datadir}`);
+        }
+        const node = await NodeFactory.createNode({
+          unlock: [],
+          databasePath: opts.datadir,
+          chain: opts.chain,
+          syncMode: opts.sync,
+          skipVerifySnap: true,
+          keyStorePath: getKeyStorePath(opts),
+          blsPath: getBlsPath(opts),
+          start: false
+        });
+        try {
+          const block = await node.setHead(new BN(number));
+          console.log('Set head, number:', block.header.number.toString(), 'hash:', bufferToHex(block.hash()));
+        } finally {
+          await node.abort();
+        }
+      } catch (err) {
+        logger.error('DB, set-head, error:', err);
+      }
+    });
+}
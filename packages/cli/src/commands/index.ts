@@ -3,3 +3,4 @@ export * from './startup';
 export * from './attach';
 export * from './console';
 export * from './bls';
+export * from './db';
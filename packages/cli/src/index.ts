@@ -5,7 +5,7 @@ import path from 'path';
 import process from 'process';
 import { program } from 'commander';
 import { loadVersion } from './utils';
-import { installStartAction, installAccountCommand, installAttachCommand, installConsoleCommand, installBlsCommand } from './commands';
+import { installStartAction, installAccountCommand, installAttachCommand, installConsoleCommand, installBlsCommand, installDBCommand } from './commands';
 
 // set version
 program.version(loadVersion());
@@ -14,7 +14,15 @@ program.version(loadVersion());
 program.option('--rpc', 'open rpc server');
 program.option('--rpc-port <port>', 'rpc server port');
 program.option('--rpc-host <port>', 'rpc server host');
-program.option('--rpc-api <apis>', 'rpc server apis: debug, eth, net, txpool, web3, rei');
+program.option('--rpc-api <apis>', 'rpc server apis: debug, eth, net, trace, txpool, web3, rei');
+program.option('--rpc-jwt-secret <path>', 'path to a hex encoded JWT secret file, enable JWT authentication for rpc server.\na random secret will be generated if the file does not exist');
+program.option('--rpc-auth-api <apis>', 'rpc server apis that require JWT authentication, default all enabled apis.\ne.g. admin,debug,txpool');
+program.option('--rpc-rate-limit <rate>', 'enable rpc rate limit, the number of tokens refilled per second for each ip or websocket client');
+program.option('--rpc-rate-burst <burst>', 'max tokens of each ip or websocket client, default equal to rate limit');
+program.option('--rpc-method-costs <costs>', 'comma separated list of rpc method cost weights.\ne.g. eth_getLogs=10,debug_traceTransaction=20');
+program.option('--rpc-logs-max-range <range>', 'max block range of a logs query, default 5000');
+program.option('--rpc-logs-max-results <results>', 'max number of logs returned by a logs query, default 10000');
+program.option('--rpc-graphql', 'enable graphql service at /graphql of rpc server, it requires eth api');
 program.option('--p2p-tcp-port <port>', 'p2p server tcp port');
 program.option('--p2p-udp-port <port>', 'p2p server udp port');
 program.option('--p2p-nat <ip>', 'p2p server nat ip');
@@ -34,7 +42,19 @@ program.option('--chain <chain>', 'chain name: rei-mainnet, rei-testnet, rei-dev
 program.option('--mine', 'mine block');
 program.option('--coinbase <address>', 'miner address');
 program.option('--verbosity <verbosity>', 'logging verbosity: silent, error, warn, info, debug, detail', 'info');
+program.option('--vmodule <vmodule>', 'per-module logging verbosity, comma separated list of <module>=<level>.\nmodules: sync, txpool, reimint, network, snap, rpc.\ne.g. sync=debug,txpool=detail');
+program.option('--log-format <format>', 'logging format: text, json', 'text');
 program.option('--receipts-cache-size <receiptsCacheSize>', 'receipts cache size');
+program.option('--txpool.pricelimit <price>', 'minimum gas price(tip) in wei for remote transactions to be accepted, default 1');
+program.option('--txpool.pricebump <percent>', 'price bump percentage to replace an already existing transaction, default 10');
+program.option('--txpool.accountslots <slots>', 'number of executable transaction slots guaranteed per account, default 16');
+program.option('--txpool.globalslots <slots>', 'maximum number of executable transaction slots for all accounts, default 4096');
+program.option('--txpool.accountqueue <count>', 'maximum number of non-executable transactions permitted per account, default 64');
+program.option('--txpool.globalqueue <count>', 'maximum number of non-executable transactions for all accounts, default 1024');
+program.option('--txpool.lifetime <seconds>', 'maximum time in seconds non-executable transactions are queued, default 10800');
+program.option('--txpool.journal <path>', 'directory of the local transactions journal, default datadir');
+program.option('--txpool.locals <addresses>', 'comma separated list of accounts to treat as locals,\nlocal transactions are exempt from price limits and eviction');
+program.option('--txpool.nolocals', 'disable the local treatment of unlocked accounts');
 program.option('--evm <evm>', 'evm implementation type, "js" or "binding"');
 program.option('--bls <bls>', 'the datadir for bls', 'bls');
 program.option('--bls-password <blsPassword>', 'bls password file to use for non-interactive password input');
@@ -46,6 +66,7 @@ installAccountCommand(program);
 installAttachCommand(program);
 installConsoleCommand(program);
 installBlsCommand(program);
+installDBCommand(program);
 
 // parse args
 program.parse(process.argv);
@@ -1,11 +1,11 @@
 import fs from 'fs';
 import process from 'process';
 import { Node, NodeFactory } from '@rei-network/core';
-import { RpcServer } from '@rei-network/rpc';
-import { setLevel, logger } from '@rei-network/utils';
+import { RpcServer, loadJWTSecret } from '@rei-network/rpc';
+import { logger } from '@rei-network/utils';
 import { ApiServer } from '@rei-network/api';
 import { IpcServer } from '@rei-network/ipc';
-import { getPassphrase, getKeyStorePath, getBlsPath, loadVersion } from './utils';
+import { getPassphrase, getKeyStorePath, getBlsPath, getTxPoolOptions, loadVersion, parseMethodCosts, setupLogger } from './utils';
 
 type Services = { node: Node; apiServer: ApiServer; rpcServer: RpcServer; ipcServer: IpcServer };
 
@@ -15,8 +15,8 @@ type Services = { node: Node; apiServer: ApiServer; rpcServer: RpcServer; ipcSer
  * @returns Services instance
  */
 export async function startServices(opts: { [option: string]: string }): Promise<Services> {
-  // set logger verbosity
-  setLevel(opts.verbosity);
+  // set logger verbosity and format
+  setupLogger(opts);
 
   // create dir if it doesn't exist
   if (!fs.existsSync(opts.datadir)) {
@@ -49,11 +49,15 @@ export async function startServices(opts: { [option: string]: string }): Promise
     syncMode: opts.sync,
     snapSyncMinTD: opts.snapMinTd ? Number(opts.snapMinTd) : undefined,
     trustedHeight: opts.snapTrustedHeight,
-    trustedHash: opts.snapTrustedHash
+    trustedHash: opts.snapTrustedHash,
+    txPool: getTxPoolOptions(opts)
   });
 
   // create API server instance
-  const apiServer = new ApiServer(node, loadVersion());
+  const apiServer = new ApiServer(node, loadVersion(), {
+    maxLogsBlockRange: opts.rpcLogsMaxRange ? Number(opts.rpcLogsMaxRange) : undefined,
+    maxLogs: opts.rpcLogsMaxResults ? Number(opts.rpcLogsMaxResults) : undefined
+  });
 
   // start API server
   apiServer.start();
@@ -62,7 +66,17 @@ export async function startServices(opts: { [option: string]: string }): Promise
     apiServer,
     port: opts.rpcPort ? Number(opts.rpcPort) : undefined,
     host: opts.rpcHost ? opts.rpcHost : undefined,
-    apis: opts.rpcApi ? opts.rpcApi : undefined
+    apis: opts.rpcApi ? opts.rpcApi : undefined,
+    jwtSecret: opts.rpcJwtSecret ? loadJWTSecret(opts.rpcJwtSecret) : undefined,
+    authApis: opts.rpcAuthApi ? opts.rpcAuthApi : undefined,
+    rateLimit: opts.rpcRateLimit
+      ? {
+          refillRate: Number(opts.rpcRateLimit),
+          capacity: opts.rpcRateBurst ? Number(opts.rpcRateBurst) : undefined,
+          costs: opts.rpcMethodCosts ? parseMethodCosts(opts.rpcMethodCosts) : undefined
+        }
+      : undefined,
+    graphql: !!opts.rpcGraphql
   };
   // create RPC server instance
   const rpcServer = new RpcServer(rpc);
@@ -1,6 +1,7 @@
 import fs from 'fs';
 import path from 'path';
 import inquirer from 'inquirer';
+import { setLevel, setModuleLevels, setFormat } from '@rei-network/utils';
 
 /**
  * Get passphrase, if the user specifies the file, read from the file, if not, let the user input
@@ -60,6 +61,18 @@ export async function getPassphrase(password?: string, options?: { addresses?: s
   return passphrase;
 }
 
+/**
+ * Set logging verbosity and format
+ * @param opts - Commander options
+ */
+export function setupLogger(opts: { [option: string]: string }) {
+  setLevel(opts.verbosity);
+  setFormat(opts.logFormat);
+  if (opts.vmodule) {
+    setModuleLevels(opts.vmodule);
+  }
+}
+
 export function getKeyStorePath(opts: { [option: string]: string }) {
   return path.join(opts.datadir, opts.keystore);
 }
@@ -79,3 +92,62 @@ export function loadVersion() {
   }
   return version;
 }
+
+/**
+ * Parse the non-negative integer option
+ * @param opts - Commander options
+ * @param name - Option name
+ * @returns Number, `undefined` if the option is missing
+ */
+function parseIntegerOption(opts: { [option: string]: string }, name: string) {
+  const value = opts[name];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`invalid ${name}: ${value}`);
+  }
+  return Number(value);
+}
+
+/**
+ * Get the transaction pool options from commander options
+ * @param opts - Commander options
+ * @returns Transaction pool options
+ */
+export function getTxPoolOptions(opts: { [option: string]: string }) {
+  const priceLimit = opts['txpool.pricelimit'];
+  if (priceLimit !== undefined && !/^\d+$/.test(priceLimit)) {
+    throw new Error(`invalid txpool.pricelimit: ${priceLimit}`);
+  }
+  const lifetime = parseIntegerOption(opts, 'txpool.lifetime');
+  return {
+    priceLimit,
+    priceBump: parseIntegerOption(opts, 'txpool.pricebump'),
+    accountSlots: parseIntegerOption(opts, 'txpool.accountslots'),
+    globalSlots: parseIntegerOption(opts, 'txpool.globalslots'),
+    accountQueue: parseIntegerOption(opts, 'txpool.accountqueue'),
+    globalQueue: parseIntegerOption(opts, 'txpool.globalqueue'),
+    lifetime: lifetime !== undefined ? lifetime * 1000 : undefined,
+    journal: opts['txpool.journal'],
+    locals: opts['txpool.locals'] ? opts['txpool.locals'].split(',').map((address) => address.trim()) : undefined,
+    noLocals: !!opts['txpool.nolocals']
+  };
+}
+
+/**
+ * Parse method cost weights
+ * @param costs - Comma separated list of cost weights, like `eth_getLogs=10,debug_traceTransaction=20`
+ * @returns Cost weights
+ */
+export function parseMethodCosts(costs: string) {
+  const result: { [method: string]: number } = {};
+  for (const item of costs.split(',')) {
+    const [method, cost] = item.split('=').map((s) => s.trim());
+    if (!method || !cost || isNaN(Number(cost)) || Number(cost) < 0) {
+      throw new Error('invalid method cost: ' + item);
+    }
+    result[method] = Number(cost);
+  }
+  return result;
+}
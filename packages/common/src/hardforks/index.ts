@@ -25,5 +25,6 @@ export const hardforks = [
   ['testnet-hf-3', require('./testnet-hf-3.json')],
   ['mainnet-hf-3', require('./mainnet-hf-3.json')],
   ['devnet-hf-3', require('./devnet-hf-3.json')],
-  ['rei-dao', require('./rei-dao.json')]
+  ['rei-dao', require('./rei-dao.json')],
+  ['typed-tx', require('./typed-tx.json')]
 ];
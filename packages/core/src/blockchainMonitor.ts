@@ -1,11 +1,11 @@
 import EventEmitter from 'events';
 import { BN } from 'ethereumjs-util';
-import { Transaction, Block, BlockHeader, Log } from '@rei-network/structure';
+import { TypedTransaction, Block, BlockHeader, Log } from '@rei-network/structure';
 import { FunctionalBufferMap, logger } from '@rei-network/utils';
 import { Database } from '@rei-network/database';
 
 // record block hash and block number for quering receipt.
-type TransactionInfo = { tx: Transaction; blockHash: Buffer; blockNumber: BN };
+type TransactionInfo = { tx: TypedTransaction; blockHash: Buffer; blockNumber: BN };
 
 /**
  * Events for new transactions and blocks in the blockchain
@@ -55,7 +55,7 @@ export class BlockchainMonitor extends EventEmitter {
         let oldBlock = await this.db.getBlockByHashAndNumber(this.currentHeader.hash(), this.currentHeader.number);
         while (oldBlock.header.number.gt(block.header.number)) {
           const blockHash = oldBlock.hash();
-          for (const tx of oldBlock.transactions as Transaction[]) {
+          for (const tx of oldBlock.transactions) {
             discarded.set(tx.hash(), { tx, blockHash, blockNumber: oldBlock.header.number });
           }
           oldBlock = await this.db.getBlockByHashAndNumber(oldBlock.header.parentHash, oldBlock.header.number.subn(1));
@@ -63,7 +63,7 @@ export class BlockchainMonitor extends EventEmitter {
         while (block.header.number.gt(oldBlock.header.number)) {
           newHeads.push(block.header);
           const blockHash = block.hash();
-          for (const tx of block.transactions as Transaction[]) {
+          for (const tx of block.transactions) {
             included.set(tx.hash(), { tx, blockHash, blockNumber: block.header.number });
           }
           block = await this.db.getBlockByHashAndNumber(block.header.parentHash, block.header.number.subn(1));
@@ -71,7 +71,7 @@ export class BlockchainMonitor extends EventEmitter {
         while (!oldBlock.hash().equals(block.hash()) && oldBlock.header.number.gtn(0) && block.header.number.gtn(0)) {
           {
             const blockHash = oldBlock.hash();
-            for (const tx of oldBlock.transactions as Transaction[]) {
+            for (const tx of oldBlock.transactions) {
               discarded.set(tx.hash(), { tx, blockHash, blockNumber: oldBlock.header.number });
             }
           }
@@ -80,7 +80,7 @@ export class BlockchainMonitor extends EventEmitter {
           {
             newHeads.push(block.header);
             const blockHash = block.hash();
-            for (const tx of block.transactions as Transaction[]) {
+            for (const tx of block.transactions) {
               included.set(tx.hash(), { tx, blockHash, blockNumber: block.header.number });
             }
           }
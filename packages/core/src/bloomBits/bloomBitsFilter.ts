@@ -82,6 +82,20 @@ function checkSingleNumber(bits: Buffer, sectionStart: BN, num: BN) {
   return false;
 }
 
+const defaultMaxLogs = 10000;
+
+/**
+ * The number of matched logs exceeds the limit
+ */
+export class TooManyLogsError extends Error {
+  readonly limit: number;
+
+  constructor(limit: number) {
+    super(`query returned more than ${limit} results`);
+    this.limit = limit;
+  }
+}
+
 export interface BloomBitsFilterBackend {
   db: Database;
   receiptsCache: ReceiptsCache;
@@ -145,14 +159,15 @@ export class BloomBitsFilter {
    * @param to The end block number
    * @param addresses Addresses which meet the requirements
    * @param topics Topics which meet the requirements
+   * @param maxLogs Max number of logs, throw `TooManyLogsError` if it is exceeded
    * @returns All logs that meet the conditions
    */
-  async filterRange(from: BN, to: BN, addresses: Address[], topics: Topics) {
+  async filterRange(from: BN, to: BN, addresses: Address[], topics: Topics, maxLogs: number = defaultMaxLogs) {
     let logs: Log[] = [];
     const append = (_logs: Log[]) => {
       logs = logs.concat(_logs);
-      if (logs.length > 10000) {
-        throw new Error('query returned more than 10000 results');
+      if (logs.length > maxLogs) {
+        throw new TooManyLogsError(maxLogs);
       }
     };
     const topicsBuf: Buffer[] = [];
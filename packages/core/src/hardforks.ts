@@ -216,6 +216,44 @@ export function isEnableDAO(common: Common) {
   }
 }
 
+/**
+ * Check whether typed transactions and typed receipts are enabled
+ * @param common - Common instance
+ * @returns Enable if `true`
+ */
+export function isEnableTypedTx(common: Common) {
+  if (common.chainName() === 'rei-testnet') {
+    return common.gteHardfork('typed-tx');
+  } else if (common.chainName() === 'rei-mainnet') {
+    return common.gteHardfork('typed-tx');
+  } else if (common.chainName() === 'rei-devnet') {
+    return common.gteHardfork('typed-tx');
+  } else {
+    throw new Error('unknown chain');
+  }
+}
+
+/**
+ * Check whether the transaction type is enabled,
+ * typed transactions are enabled after the typed-tx hardfork with the corresponding EIP
+ * @param common - Common instance
+ * @param type - Transaction type
+ * @returns Enable if `true`
+ */
+export function isEnableTxType(common: Common, type: number) {
+  if (type === 0) {
+    return true;
+  } else if (!isEnableTypedTx(common)) {
+    return false;
+  } else if (type === 1) {
+    return common.isActivatedEIP(2930);
+  } else if (type === 2) {
+    return common.isActivatedEIP(1559);
+  } else {
+    return false;
+  }
+}
+
 /**
  * Calculate total difficulty by block number.
  * @param number - Block number
@@ -4,3 +4,4 @@ export * from './nodeFactory';
 export * from './types';
 export * from './bloomBits';
 export * from './stateManager';
+export * from './tracer';
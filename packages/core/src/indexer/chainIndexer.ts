@@ -1,14 +1,15 @@
 import { BN } from 'ethereumjs-util';
 import { BlockHeader } from '@rei-network/structure';
 import { Channel, logger } from '@rei-network/utils';
-import { Database } from '@rei-network/database';
-import { DBSaveBloomBitsSectionCount } from '@rei-network/database/dist/helpers';
+import { Database, DBOp } from '@rei-network/database';
+import { DBSaveBloomBitsSectionCount, DBDeleteBloomBitsSectionCount } from '@rei-network/database/dist/helpers';
 import { EMPTY_HASH } from '../utils';
 import { ChainIndexerBackend, ChainIndexerOptions } from './types';
 
 type IndexTask = {
   header: BlockHeader;
   force: boolean;
+  rewind?: boolean;
   resolve?: () => void;
 };
 
@@ -85,14 +86,34 @@ export class ChainIndexer {
     }
   }
 
+  /**
+   * Roll back the stored sections to the new head header
+   * @param header - New head header
+   */
+  async rewind(header: BlockHeader) {
+    await this.initPromise;
+    if (this.processHeaderLoopPromise === undefined) {
+      // the index loop isn't running, process directly
+      await this.processRewind(header.number);
+    } else {
+      await new Promise<void>((resolve) => {
+        this.headerQueue.push({ header, resolve, force: true, rewind: true });
+      });
+    }
+  }
+
   /**
    * Process new block header, if it forks, do reorganize
    */
   private async processHeaderLoop() {
     await this.initPromise;
-    for await (const { header, force, resolve } of this.headerQueue) {
+    for await (const { header, force, rewind, resolve } of this.headerQueue) {
       try {
-        await this.processNewHeader(header.number, force);
+        if (rewind) {
+          await this.processRewind(header.number);
+        } else {
+          await this.processNewHeader(header.number, force);
+        }
       } catch (err) {
         logger.error('ChainIndexer::processHeaderLoop, catch error:', err);
       } finally {
@@ -167,4 +188,29 @@ export class ChainIndexer {
       }
     }
   }
+
+  /**
+   * Delete the sections which are no longer complete under the new head,
+   * they will be reindexed as the chain grows again
+   * @param number - Block number of new head header
+   */
+  async processRewind(number: BN) {
+    if (this.storedSections === undefined) {
+      return;
+    }
+    // the number of sections that are still complete
+    const completeSections = number.addn(1).divn(this.sectionSize);
+    if (completeSections.isZero()) {
+      await this.db.batch([DBDeleteBloomBitsSectionCount()]);
+      this.storedSections = undefined;
+      return;
+    }
+    const lastSection = completeSections.subn(1);
+    if (lastSection.gte(this.storedSections)) {
+      return;
+    }
+    const batch: DBOp[] = this.backend.prune(lastSection);
+    await this.db.batch([...batch, DBSaveBloomBitsSectionCount(lastSection)]);
+    this.storedSections = lastSection;
+  }
 }
@@ -1,15 +1,15 @@
 import path from 'path';
 import type { LevelUp } from 'levelup';
-import { bufferToHex, BN, BNLike } from 'ethereumjs-util';
+import { bufferToHex, BN, BNLike, Address } from 'ethereumjs-util';
 import { SecureTrie as Trie } from '@rei-network/trie';
-import { Database, createLevelDB, createEncodingLevelDB } from '@rei-network/database';
+import { Database, DBSaveHeadFinalizedBlock, createLevelDB, createEncodingLevelDB } from '@rei-network/database';
 import { NetworkManager, Peer, Protocol } from '@rei-network/network';
 import { Common } from '@rei-network/common';
 import { Blockchain } from '@rei-network/blockchain';
 import { VM } from '@rei-network/vm';
 import { EVMWorkMode } from '@rei-network/vm/dist/evm/evm';
-import { Transaction, Block, Receipt } from '@rei-network/structure';
-import { Channel, logger } from '@rei-network/utils';
+import { TypedTransaction, Block, BlockHeader, Receipt } from '@rei-network/structure';
+import { Channel, FunctionalBufferMap, logger } from '@rei-network/utils';
 import { AccountManager } from '@rei-network/wallet';
 import { BlsManager } from '@rei-network/bls';
 import { TxPool } from './txpool';
@@ -33,7 +33,8 @@ const defaultEVMWorkMode = EVMWorkMode.JS;
 const defaultSyncMode = SyncMode.Full;
 
 type PendingTxs = {
-  txs: Transaction[];
+  txs: TypedTransaction[];
+  local: boolean;
   resolve: (results: boolean[]) => void;
 };
 
@@ -43,6 +44,12 @@ type CommitBlock = {
   reject: (reason?: any) => void;
 };
 
+type SetHead = {
+  number: BN;
+  resolve: (block: Block) => void;
+  reject: (reason?: any) => void;
+};
+
 export interface CommitBlockOptions {
   broadcast: boolean;
   block: Block;
@@ -81,6 +88,7 @@ export class Node {
   readonly skipVerifySnap?: boolean;
 
   private initPromise?: Promise<void>;
+  private finalizedBlock?: Block;
   private pendingTxsLoopPromise?: Promise<void>;
   private commitBlockLoopPromise?: Promise<void>;
 
@@ -89,7 +97,7 @@ export class Node {
       resolve(new Array<boolean>(txs.length).fill(false));
     }
   });
-  private readonly commitBlockQueue = new Channel<CommitBlock>({
+  private readonly commitBlockQueue = new Channel<CommitBlock | SetHead>({
     drop: ({ reject }) => {
       reject(new Error('aborted'));
     }
@@ -164,8 +172,9 @@ export class Node {
       .on('synchronized', this.onSyncOver)
       .on('failed', this.onSyncOver);
     this.txPool = new TxPool({
-      node: this,
-      journal: this.datadir
+      ...options.txPool,
+      journal: options.txPool?.journal ?? this.datadir,
+      node: this
     });
     this.txSync = new TxFetcher(this);
     this.bcMonitor = new BlockchainMonitor(this.db);
@@ -221,6 +230,7 @@ export class Node {
 
       await this.blsMngr.init();
       await this.blockchain.init();
+      this.finalizedBlock = await this.loadFinalizedBlock();
 
       const latest = this.latestBlock.header;
       if (latest.number.eqn(0)) {
@@ -339,6 +349,48 @@ export class Node {
     return this.latestBlock;
   }
 
+  /**
+   * Get the highest block whose commit has been verified,
+   * Reimint blocks are final once they are committed with +2/3 precommits,
+   * so it is the same as the latest block unless the head is set by snap sync
+   * @returns Finalized block
+   */
+  getFinalizedBlock() {
+    return this.finalizedBlock ?? this.latestBlock;
+  }
+
+  /**
+   * Load the finalized block saved in the database,
+   * the head isn't trusted because it may be set by snap sync,
+   * the genesis block is used if the saved block isn't canonical
+   * @returns Finalized block
+   */
+  private async loadFinalizedBlock() {
+    const hash = await this.db.getHeadFinalizedBlock();
+    if (hash) {
+      try {
+        const block = await this.db.getBlock(hash);
+        if (block.header.number.lte(this.latestBlock.header.number) && (await this.db.numberToHash(block.header.number)).equals(hash)) {
+          return block;
+        }
+      } catch (err: any) {
+        if (err.type !== 'NotFoundError') {
+          throw err;
+        }
+      }
+    }
+    return await this.db.getBlock(0);
+  }
+
+  /**
+   * Update the finalized block and save its hash to the database
+   * @param block - Finalized block
+   */
+  private async saveFinalizedBlock(block: Block) {
+    this.finalizedBlock = block;
+    await this.db.batch([DBSaveHeadFinalizedBlock(block.hash())]);
+  }
+
   /**
    * Get latest block total difficulty
    * @returns Total difficulty
@@ -370,9 +422,10 @@ export class Node {
    * @param num - Block number or Common
    * @param snap - Need snapshot or not
    * @param mode - EVM work mode
+   * @param getMiner - Get miner address callback, default read the proposer from the header
    * @returns VM object
    */
-  async getVM(root: Buffer, num: BNLike | Common, snap: boolean = false, mode?: EVMWorkMode) {
+  async getVM(root: Buffer, num: BNLike | Common, snap: boolean = false, mode?: EVMWorkMode, getMiner?: (header: BlockHeader) => Address) {
     const stateManager = await this.getStateManager(root, num, snap);
     const common = stateManager._common;
     return new VM({
@@ -381,7 +434,7 @@ export class Node {
       blockchain: this.blockchain,
       mode: mode ?? this.evmWorkMode,
       exposed: this.chaindbDown.exposed,
-      getMiner: (header) => Reimint.getMiner(header)
+      getMiner: getMiner ?? ((header) => Reimint.getMiner(header))
     });
   }
 
@@ -497,7 +550,7 @@ export class Node {
     for (let i = 0; i < receipts.length; i++) {
       const receipt = receipts[i];
       const gasUsed = receipt.bnCumulativeGasUsed.sub(lastCumulativeGasUsed);
-      receipt.initExtension(block, block.transactions[i] as Transaction, gasUsed, i);
+      receipt.initExtension(block, block.transactions[i], gasUsed, i);
       lastCumulativeGasUsed = receipt.bnCumulativeGasUsed;
     }
 
@@ -509,18 +562,67 @@ export class Node {
     return { reorged };
   }
 
+  private async doSetHead(number: BN) {
+    const latest = this.latestBlock.header;
+    if (number.gte(latest.number)) {
+      throw new Error(`invalid target block number, latest: ${latest.number.toString()}`);
+    }
+
+    // ensure that the state of the target block exists
+    const header = await this.db.getCanonicalHeader(number);
+    if (!(await new Trie(this.chaindb).checkRoot(header.stateRoot))) {
+      throw new Error(`missing state, number: ${number.toString()}`);
+    }
+
+    const block = await this.blockchain.rewind(number);
+    const root = block.header.stateRoot;
+    if (this.finalizedBlock && this.finalizedBlock.header.number.gt(number)) {
+      await this.saveFinalizedBlock(block);
+    }
+
+    if (this.snapTree) {
+      // keep the layers from the new head to the disk layer,
+      // otherwise the snapshot needs to be regenerated
+      if (this.snapTree.snapShot(root)) {
+        this.snapTree.discard(root);
+      } else {
+        const { generating } = await this.snapTree.rebuild(root);
+        generating.catch((err) => logger.warn('Node::doSetHead, rebuild snap tree failed:', err));
+      }
+    }
+
+    await Promise.all([this.txPool.newBlock(block), this.bcMonitor.newBlock(block), this.bloomBitsIndexer.rewind(block.header)]);
+
+    logger.info('⏪ Set head, height:', number.toString(), 'hash:', bufferToHex(block.hash()));
+
+    return block;
+  }
+
   /**
    * A loop that executes blocks sequentially
    */
   private async commitBlockLoop() {
     await this.initPromise;
-    for await (const { options, resolve, reject } of this.commitBlockQueue) {
+    for await (const task of this.commitBlockQueue) {
+      if ('number' in task) {
+        await this.doSetHead(task.number).then(task.resolve, task.reject);
+        continue;
+      }
+
+      const { options, resolve, reject } = task;
       try {
         const { block, broadcast, force } = options;
         const { reorged } = await this.doCommitBlock(options);
 
         // if canonical chain changes, notify to other modules
         if (reorged) {
+          // the extra data of the block committed without force has been verified
+          // by the executor or collected by the state machine with +2/3 precommits,
+          // the block of snap sync is excluded
+          if (!force) {
+            await this.saveFinalizedBlock(block);
+          }
+
           if (broadcast) {
             this.wire.broadcastNewBlock(block, this.totalDifficulty);
           }
@@ -543,7 +645,7 @@ export class Node {
     await this.initPromise;
     for await (const task of this.pendingTxsQueue) {
       try {
-        const { results, readies } = await this.txPool.addTxs(task.txs);
+        const { results, readies } = await this.txPool.addTxs(task.txs, task.local);
         if (readies && readies.size > 0) {
           const hashes = Array.from(readies.values())
             .reduce((a, b) => a.concat(b), [])
@@ -577,18 +679,68 @@ export class Node {
     });
   }
 
+  /**
+   * Rewind the local chain to the specified block number,
+   * the blocks above it will be synchronized again,
+   * it is refused while mining, otherwise the node may sign the blocks above it again
+   * @param number - Target block number
+   * @returns New head block
+   */
+  async setHead(number: BN) {
+    await this.initPromise;
+    if (this.reimint.signer.ecdsaUnlocked()) {
+      throw new Error('can not set head while mining');
+    }
+    if (this.commitBlockLoopPromise === undefined) {
+      // the node hasn't started yet
+      return await this.doSetHead(number);
+    }
+
+    const block = await new Promise<Block>((resolve, reject) => {
+      this.commitBlockQueue.push({
+        number,
+        resolve,
+        reject
+      });
+    });
+    // continue minting on the new head
+    this.tryToMintNextBlock();
+    return block;
+  }
+
   /**
    * Add pending transactions to consensus engine
    * @param txs - Pending transactions
+   * @param local - Whether the transactions are submitted locally
    * @returns An array of results, one-to-one correspondence with transactions
    */
-  async addPendingTxs(txs: Transaction[]) {
+  async addPendingTxs(txs: TypedTransaction[], local: boolean = false) {
     await this.initPromise;
     return new Promise<boolean[]>((resolve) => {
-      this.pendingTxsQueue.push({ txs, resolve });
+      this.pendingTxsQueue.push({ txs, local, resolve });
     });
   }
 
+  /**
+   * Add a private transaction, it will only be included
+   * in the blocks proposed by the local node and never be announced to peers
+   * @param tx - Private transaction
+   * @param maxBlockNumber - The last block number that the transaction can be included in
+   */
+  async addPrivateTx(tx: TypedTransaction, maxBlockNumber: BN) {
+    await this.initPromise;
+    if (!this.reimint.canPropose(this.getCommon(this.latestBlock.header.number.addn(1)))) {
+      throw new Error('private transactions are unavailable, the node can not propose blocks');
+    }
+    if (!(await this.reimint.isActiveValidator(this.latestBlock))) {
+      throw new Error('private transactions are unavailable, the node is not an active validator');
+    }
+    await this.txPool.addPrivateTx(tx, maxBlockNumber);
+    const txs = new FunctionalBufferMap<TypedTransaction[]>();
+    txs.set(tx.getSenderAddress().buf, [tx]);
+    await this.reimint.addTxs(txs);
+  }
+
   /**
    * Ban peer
    * @param peerId - Target peer
@@ -81,6 +81,25 @@ export interface CreateNodeOptions {
    * Trusted block hash
    */
   trustedHash?: string;
+  /**
+   * Transaction pool options
+   */
+  txPool?: {
+    priceLimit?: string;
+    priceBump?: number;
+    accountSlots?: number;
+    globalSlots?: number;
+    accountQueue?: number;
+    globalQueue?: number;
+    lifetime?: number;
+    journal?: string;
+    locals?: string[];
+    noLocals?: boolean;
+  };
+  /**
+   * Whether to start the node after initialization, default `true`
+   */
+  start?: boolean;
 }
 
 async function loadPeerId(databasePath: string) {
@@ -123,7 +142,12 @@ export abstract class NodeFactory {
         return options.syncMode;
       })(),
       trustedHeight: options.trustedHeight ? new BN(options.trustedHeight) : undefined,
-      trustedHash: options.trustedHash ? hexStringToBuffer(options.trustedHash) : undefined
+      trustedHash: options.trustedHash ? hexStringToBuffer(options.trustedHash) : undefined,
+      txPool: options.txPool && {
+        ...options.txPool,
+        priceLimit: options.txPool.priceLimit !== undefined ? new BN(options.txPool.priceLimit) : undefined,
+        locals: options.txPool.locals?.map((address) => Address.fromString(address))
+      }
     });
 
     // unlock ECDSA private keys
@@ -149,7 +173,9 @@ export abstract class NodeFactory {
     await node.init();
 
     // start node
-    node.start();
+    if (options.start ?? true) {
+      node.start();
+    }
 
     return node;
   }
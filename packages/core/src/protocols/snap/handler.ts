@@ -1,6 +1,6 @@
 import { BaseTrie as Trie } from '@rei-network/trie';
 import { keccak256, KECCAK256_NULL } from 'ethereumjs-util';
-import { logger } from '@rei-network/utils';
+import { createLogger } from '@rei-network/utils';
 import { ProtocolHandler, Peer, ProtocolStream } from '@rei-network/network';
 import { EMPTY_HASH, MAX_HASH } from '../../utils';
 import { StakingAccount } from '../../stateManager';
@@ -9,6 +9,8 @@ import { AccountRequest, AccountResponse, StorageRequst, StorageResponse } from
 import { SnapProtocol } from './protocol';
 import * as m from './messages';
 
+const logger = createLogger('snap');
+
 const defaultSoftResponseLimit = 512 * 1024;
 const maxCodeLookups = 1024;
 const maxTrieNodeLookups = 1024;
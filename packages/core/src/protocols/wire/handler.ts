@@ -1,5 +1,5 @@
 import { bufferToInt, rlp, BN, intToBuffer, bufferToHex } from 'ethereumjs-util';
-import { Transaction, Block, BlockHeader } from '@rei-network/structure';
+import { mustParseTransction, TypedTransaction, TransactionsBuffer, Block, BlockHeader } from '@rei-network/structure';
 import { logger, Channel, FunctionalBufferSet } from '@rei-network/utils';
 import { ProtocolHandler, Peer, ProtocolStream } from '@rei-network/network';
 import { Node } from '../../node';
@@ -410,8 +410,12 @@ export abstract class WireProtocolHandler implements ProtocolHandler {
    * @param headers - Headers of blocks which wanted
    * @returns The block bodies
    */
-  getBlockBodies(headers: BlockHeader[]): Promise<Transaction[][]> {
-    return this.request('GetBlockBodies', headers);
+  async getBlockBodies(headers: BlockHeader[]): Promise<TypedTransaction[][]> {
+    const bodies: TransactionsBuffer[] = await this.request('GetBlockBodies', headers);
+    if (bodies.length !== headers.length) {
+      throw new Error('invalid bodies length');
+    }
+    return bodies.map((txs, i) => txs.map((tx) => mustParseTransction(tx, { common: headers[i]._common })));
   }
 
   /**
@@ -419,7 +423,7 @@ export abstract class WireProtocolHandler implements ProtocolHandler {
    * @param hashes - Transactions hashes
    * @returns Transactions
    */
-  getPooledTransactions(hashes: Buffer[]): Promise<Transaction[]> {
+  getPooledTransactions(hashes: Buffer[]): Promise<TypedTransaction[]> {
     return this.request('GetPooledTransactions', hashes);
   }
 
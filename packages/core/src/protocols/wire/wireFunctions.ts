@@ -1,5 +1,5 @@
 import { bufferToInt, BN, bnToUnpaddedBuffer } from 'ethereumjs-util';
-import { mustParseTransction, Transaction, Block, BlockHeader, BlockHeaderBuffer, TransactionsBuffer } from '@rei-network/structure';
+import { mustParseTransction, txToBlockBodyData, TypedTransaction, Block, BlockHeader, BlockHeaderBuffer, TransactionsBuffer } from '@rei-network/structure';
 import { NodeStatus } from '../../types';
 import { WireProtocolHandler } from './handler';
 import * as c from './config';
@@ -90,16 +90,16 @@ export const wireHandlerBaseFuncs: HandlerFunc[] = [
     decode(this: WireProtocolHandler, headerHashs: Buffer[]) {
       return headerHashs;
     },
-    async process(this: WireProtocolHandler, headerHashs: Buffer[]): Promise<[string, Transaction[][]] | void> {
+    async process(this: WireProtocolHandler, headerHashs: Buffer[]): Promise<[string, TypedTransaction[][]] | void> {
       if (headerHashs.length > c.maxGetBlockHeaders) {
         this.node.banPeer(this.peer.peerId, 'invalid');
         return;
       }
-      const bodies: Transaction[][] = [];
+      const bodies: TypedTransaction[][] = [];
       for (const hash of headerHashs) {
         try {
           const block = await this.node.db.getBlock(hash);
-          bodies.push(block.transactions as Transaction[]);
+          bodies.push(block.transactions);
         } catch (err: any) {
           if (err.type !== 'NotFoundError') {
             throw err;
@@ -113,22 +113,21 @@ export const wireHandlerBaseFuncs: HandlerFunc[] = [
   {
     name: 'BlockBodies',
     code: 4,
-    encode(this: WireProtocolHandler, bodies: Transaction[][]) {
+    encode(this: WireProtocolHandler, bodies: TypedTransaction[][]) {
       return bodies.map((txs) => {
-        return txs.map((tx) => tx.raw() as Buffer[]);
+        return txs.map((tx) => txToBlockBodyData(tx));
       });
     },
-    decode(this: WireProtocolHandler, bodies: TransactionsBuffer[]): Transaction[][] {
-      return bodies.map((txs) => {
-        return txs.map((tx) => mustParseTransction(tx, { common: this.node.getCommon(0) }));
-      });
+    decode(this: WireProtocolHandler, bodies: TransactionsBuffer[]): TransactionsBuffer[] {
+      // the transactions are parsed with the common of the corresponding header by the requester
+      return bodies;
     }
   },
   {
     name: 'NewBlock',
     code: 5,
     encode(this: WireProtocolHandler, { block, td }: { block: Block; td: BN }) {
-      return [[block.header.raw(), block.transactions.map((tx) => tx.raw() as Buffer[])], td.toBuffer()];
+      return [[block.header.raw(), block.transactions.map((tx) => txToBlockBodyData(tx))], td.toBuffer()];
     },
     decode(this: WireProtocolHandler, raw): { block: Block; td: BN } {
       return {
@@ -184,8 +183,8 @@ export const wireHandlerBaseFuncs: HandlerFunc[] = [
   {
     name: 'PooledTransactions',
     code: 8,
-    encode(this: WireProtocolHandler, txs: Transaction[]) {
-      return txs.map((tx) => tx.raw() as Buffer[]);
+    encode(this: WireProtocolHandler, txs: TypedTransaction[]) {
+      return txs.map((tx) => txToBlockBodyData(tx));
     },
     decode(this: WireProtocolHandler, raws: TransactionsBuffer) {
       return raws.map((raw) => mustParseTransction(raw, { common: this.node.getLatestCommon() }));
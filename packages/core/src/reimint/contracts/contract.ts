@@ -2,12 +2,14 @@ import { Address, BN } from 'ethereumjs-util';
 import EVM from '@rei-network/vm/dist/evm/evm';
 import Message from '@rei-network/vm/dist/evm/message';
 import { Common } from '@rei-network/common';
-import { hexStringToBuffer, logger } from '@rei-network/utils';
+import { hexStringToBuffer, createLogger } from '@rei-network/utils';
 import { isEnableBetterPOS } from '../../hardforks';
 import { EMPTY_ADDRESS } from '../../utils';
 import { ActiveValidatorSet, genesisValidatorPriority } from '../validatorSet';
 import { encode, validatorsEncode } from './utils';
 
+const logger = createLogger('reimint');
+
 const MAX_GAS_LIMIT = new BN('9223372036854775807');
 
 export abstract class Contract {
@@ -1,19 +1,18 @@
 import path from 'path';
-import { encode } from 'rlp';
 import { Address, BN, BNLike, ecsign, intToBuffer, bufferToHex } from 'ethereumjs-util';
-import { BaseTrie, SecureTrie as Trie } from '@rei-network/trie';
+import { SecureTrie as Trie } from '@rei-network/trie';
 import { VM } from '@rei-network/vm';
 import EVM from '@rei-network/vm/dist/evm/evm';
 import TxContext from '@rei-network/vm/dist/evm/txContext';
-import { Block, HeaderData, BlockHeader, Transaction, Receipt } from '@rei-network/structure';
+import { Block, HeaderData, BlockHeader, TypedTransaction, Receipt, calcReceiptTrie } from '@rei-network/structure';
 import { Common } from '@rei-network/common';
 import { genesisStateByName } from '@rei-network/common/dist/genesisStates';
-import { logger, ignoreError, Channel } from '@rei-network/utils';
+import { createLogger, ignoreError, Channel } from '@rei-network/utils';
 import { Node } from '../node';
 import { StateManager } from '../stateManager';
 import { ActiveValidatorSet, ValidatorSets } from './validatorSet';
 import { isEmptyAddress, getGasLimitByCommon, EMPTY_ADDRESS } from '../utils';
-import { isEnableFreeStaking, loadInitData, isEnableHardfork2, isEnableBetterPOS, isEnableDAO } from '../hardforks';
+import { isEnableFreeStaking, loadInitData, isEnableHardfork2, isEnableBetterPOS, isEnableDAO, isEnableTypedTx } from '../hardforks';
 import { SignatureType } from './enum';
 import { IProcessBlockResult } from './types';
 import { Worker } from './worker';
@@ -26,6 +25,8 @@ import { ReimintExecutor } from './executor';
 import { ExtraData } from './extraData';
 import { EvidenceCollector } from './evidenceCollector';
 
+const logger = createLogger('reimint');
+
 export class SimpleNodeSigner {
   constructor(private readonly node: Node) {}
 
@@ -251,7 +252,7 @@ export class ReimintEngine {
    * Add pending transactions to worker
    * @param txs - Pending transactions
    */
-  addTxs(txs: Map<Buffer, Transaction[]>) {
+  addTxs(txs: Map<Buffer, TypedTransaction[]>) {
     return this.worker.addTxs(txs);
   }
 
@@ -408,6 +409,36 @@ export class ReimintEngine {
     }
   }
 
+  /**
+   * Check whether the local node is able to sign proposals,
+   * the key of the signature type must be unlocked
+   * @param common - Common instance of the block
+   * @returns `true` if the node can propose
+   */
+  canPropose(common: Common) {
+    return isEnableDAO(common) ? !!this.signer.blsPublicKey() : this.signer.ecdsaUnlocked();
+  }
+
+  /**
+   * Check whether the local node is in the active validator set of the next block,
+   * only the active validators may propose the next block
+   * @param block - Latest block
+   * @returns `true` if it is active
+   */
+  async isActiveValidator(block: Block) {
+    const header = block.header;
+    const common = this.node.getCommon(header.number.addn(1));
+    const vm = await this.node.getVM(header.stateRoot, header._common);
+    const sm = this.getStakeManager(vm, block, header._common);
+    let valSet: ActiveValidatorSet;
+    if (isEnableDAO(common)) {
+      valSet = await this.validatorSets.getActiveValSet(header.stateRoot, sm, this.getValidatorBLS(vm, block, common));
+    } else {
+      valSet = await this.validatorSets.getActiveValSet(header.stateRoot, sm);
+    }
+    return valSet.isActive(this.signer.address());
+  }
+
   /**
    * Create a simple signed block by data,
    * the header data can be incompleted,
@@ -419,8 +450,8 @@ export class ReimintEngine {
    * @returns Block
    */
   generatePendingBlock(headerData: HeaderData, common: Common) {
-    const signatureType = isEnableDAO(common) ? SignatureType.BLS : SignatureType.ECDSA;
-    if ((signatureType === SignatureType.ECDSA && this.signer.ecdsaUnlocked()) || (signatureType === SignatureType.BLS && this.signer.blsPublicKey())) {
+    if (this.canPropose(common)) {
+      const signatureType = isEnableDAO(common) ? SignatureType.BLS : SignatureType.ECDSA;
       const { block } = Reimint.generateBlockAndProposal(headerData, [], { common }, { signer: this.signer, signatureType });
       return block;
     }
@@ -433,12 +464,9 @@ export class ReimintEngine {
    * Generate receipt trie
    * @param transactions - Transactions
    * @param receipts - Receipts
+   * @param common - Common instance of the block
    */
-  async generateReceiptTrie(transactions: Transaction[], receipts: Receipt[]): Promise<Buffer> {
-    const trie = new BaseTrie();
-    for (let i = 0; i < receipts.length; i++) {
-      await trie.put(encode(i), receipts[i].serialize());
-    }
-    return trie.root;
+  generateReceiptTrie(transactions: TypedTransaction[], receipts: Receipt[], common: Common): Promise<Buffer> {
+    return calcReceiptTrie(transactions, receipts, isEnableTypedTx(common));
   }
 }
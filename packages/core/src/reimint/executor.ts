@@ -1,9 +1,9 @@
-import { Address, BN, BNLike, bufferToHex } from 'ethereumjs-util';
+import { Address, BN, BNLike, bufferToHex, generateAddress } from 'ethereumjs-util';
 import { Database } from '@rei-network/database';
-import { logger, FunctionalAddressMap } from '@rei-network/utils';
+import { createLogger, FunctionalAddressMap } from '@rei-network/utils';
 import { Blockchain } from '@rei-network/blockchain';
 import { Common } from '@rei-network/common';
-import { Block, Log, Receipt, TypedTransaction } from '@rei-network/structure';
+import { Block, Log, Receipt, TypedTransaction, calcEffectiveGasPrice } from '@rei-network/structure';
 import { RunBlockOpts, rewardAccount } from '@rei-network/vm/dist/runBlock';
 import { StateManager as IStateManager } from '@rei-network/vm/dist/state';
 import { RunTxResult } from '@rei-network/vm/dist/runTx';
@@ -23,6 +23,8 @@ import { ExtraData } from './extraData';
 import { ReimintEngine } from './engine';
 import { makeRunTxCallback } from './makeRunTxCallback';
 
+const logger = createLogger('reimint');
+
 export interface FinalizeOpts {
   block: Block;
   stateRoot: Buffer;
@@ -57,6 +59,12 @@ export interface ProcessTxOpts {
 
   totalAmount?: BN;
   dailyFee?: BN;
+
+  // run the transaction on the given vm instead of creating a new one from the root
+  vm?: VM;
+  debug?: IDebug;
+  // the latest one first, they will be loaded from the database if omitted
+  recentHashes?: Buffer[];
 }
 
 export interface ProcessTxResult {
@@ -64,6 +72,7 @@ export interface ProcessTxResult {
   gasUsed: BN;
   bloom: Bloom;
   root: Buffer;
+  execResult: RunTxResult['execResult'];
 }
 
 export interface ExecutorBackend {
@@ -651,11 +660,11 @@ export class ReimintExecutor {
    * @returns ProcessTxResult
    */
   async processTx(options: ProcessTxOpts) {
-    const { root, block, tx, blockGasUsed, totalAmount, dailyFee } = options;
+    const { root, block, tx, blockGasUsed, totalAmount, dailyFee, debug, recentHashes } = options;
     const systemCaller = Address.fromString(block._common.param('vm', 'scaddr'));
-    const vm = await this.backend.getVM(root, block._common, true);
+    const vm = options.vm ?? (await this.backend.getVM(root, block._common, true));
 
-    let result: RunTxResult;
+    let runTxOpts: any;
     if (isEnableFreeStaking(block._common)) {
       const feeAddr = Address.fromString(block._common.param('vm', 'faddr'));
 
@@ -663,29 +672,53 @@ export class ReimintExecutor {
         throw new Error('missing total amount');
       }
 
-      result = await vm.runTx({
+      runTxOpts = {
         skipBalance: true,
-        tx,
-        block,
-        blockGasUsed,
         ...makeRunTxCallback(systemCaller, feeAddr, block.header.timestamp.toNumber(), totalAmount, dailyFee)
-      });
+      };
     } else {
-      result = await vm.runTx({
-        tx,
-        block,
-        blockGasUsed,
+      runTxOpts = {
         assignTxReward: async (state, value) => {
           await rewardAccount(state, systemCaller, value);
         }
-      });
+      };
+    }
+
+    // call tx exec start like `runBlock`, the tracer loads the state from the vm
+    const time = Date.now();
+    if (debug) {
+      const from = tx.getSenderAddress().buf;
+      const to = tx.to?.buf ?? generateAddress(from, tx.nonce.toArrayLike(Buffer));
+      await debug.captureStart(from, to, tx.toCreationAddress(), tx.data, tx.gasLimit, calcEffectiveGasPrice(tx, block.header.baseFeePerGas), tx.value, block.header.number, vm.stateManager);
+    }
+
+    let result: RunTxResult | undefined;
+    let catchedErr: any;
+    try {
+      result = await vm.runTx({ ...runTxOpts, tx, block, blockGasUsed, debug, recentHashes });
+    } catch (err) {
+      catchedErr = err;
+    }
+
+    // call tx exec over
+    if (debug) {
+      if (result) {
+        await debug.captureEnd(result.execResult.returnValue, result.gasUsed, Date.now() - time);
+      } else {
+        await debug.captureEnd(Buffer.alloc(0), new BN(0), Date.now() - time);
+      }
+    }
+
+    if (!result) {
+      throw catchedErr;
     }
 
     return {
       receipt: postByzantiumTxReceiptsToReceipts([result.receipt])[0],
       gasUsed: result.gasUsed,
       bloom: result.bloom,
-      root: await vm.stateManager.getStateRoot()
+      root: await vm.stateManager.getStateRoot(),
+      execResult: result.execResult
     };
   }
 }
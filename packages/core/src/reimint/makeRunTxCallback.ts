@@ -2,14 +2,16 @@ import { Address, BN, bufferToHex, toBuffer } from 'ethereumjs-util';
 import { RunTxResult, generateTxReceipt as EthereumGenerateTxReceipt } from '@rei-network/vm/dist/runTx';
 import { TxReceipt } from '@rei-network/vm/dist/types';
 import { Log as EthereumLog } from '@rei-network/vm/dist/evm/types';
-import { TypedTransaction, Transaction } from '@rei-network/structure';
-import { logger } from '@rei-network/utils';
+import { TypedTransaction } from '@rei-network/structure';
+import { createLogger } from '@rei-network/utils';
 import { VM } from '@rei-network/vm';
 import { StateManager as IStateManager } from '@rei-network/vm/dist/state';
 import { StateManager } from '../stateManager';
 import { validateTx } from '../validation';
 import { encode } from './contracts';
 
+const logger = createLogger('reimint');
+
 const usageTopic = toBuffer('0x873c82cd37aaacdcf736cbb6beefc8da36d474b65ad23aaa1b1c6fbd875f7076');
 
 export function makeRunTxCallback(systemCaller: Address, feeAddr: Address, timestamp: number, totalAmount: BN, dailyFee?: BN) {
@@ -20,7 +22,7 @@ export function makeRunTxCallback(systemCaller: Address, feeAddr: Address, times
   const beforeTx = async (state: IStateManager, tx: TypedTransaction, txCost: BN) => {
     const caller = tx.getSenderAddress();
     const fromAccount = await state.getAccount(caller);
-    const { fee } = await validateTx(tx as Transaction, timestamp, state as StateManager, totalAmount, dailyFee);
+    const { fee } = await validateTx(tx, timestamp, state as StateManager, totalAmount, dailyFee);
 
     feeLeft = fee!;
     balanceLeft = fromAccount.balance.sub(tx.value);
@@ -1,8 +1,8 @@
 import { BN, KECCAK256_RLP_ARRAY } from 'ethereumjs-util';
 import Semaphore from 'semaphore-async-await';
 import Bloom from '@rei-network/vm/dist/bloom';
-import { Transaction, calcTransactionTrie, HeaderData } from '@rei-network/structure';
-import { logger } from '@rei-network/utils';
+import { TypedTransaction, TransactionFactory, calcTransactionTrie, HeaderData } from '@rei-network/structure';
+import { createLogger } from '@rei-network/utils';
 import { Common } from '@rei-network/common';
 import { PendingTxMap } from '../txpool';
 import { EMPTY_ADDRESS, EMPTY_NONCE, EMPTY_MIX_HASH, EMPTY_EXTRA_DATA } from '../utils';
@@ -10,6 +10,8 @@ import { isEnableDAO, isEnableFreeStaking } from '../hardforks';
 import { FinalizeOpts, ProcessTxResult } from './executor';
 import { ReimintEngine } from './engine';
 
+const logger = createLogger('reimint');
+
 export interface PendingBlockFinalizeOpts extends Pick<FinalizeOpts, 'round' | 'evidence'> {}
 
 export class PendingBlock {
@@ -22,6 +24,7 @@ export class PendingBlock {
   private _number: BN;
   private _timestamp: BN;
   private _extraData: Buffer;
+  private _baseFeePerGas?: BN;
 
   private difficulty?: BN;
   private gasLimit?: BN;
@@ -32,7 +35,7 @@ export class PendingBlock {
   private mixHash = EMPTY_MIX_HASH;
 
   private gasUsed: BN = new BN(0);
-  private transactions: Transaction[] = [];
+  private transactions: TypedTransaction[] = [];
   private transactionResults: ProcessTxResult[] = [];
   private latestStateRoot?: Buffer;
 
@@ -46,7 +49,7 @@ export class PendingBlock {
   private totalAmount?: BN;
   private dailyFee?: BN;
 
-  constructor(engine: ReimintEngine, parentHash: Buffer, parentStateRoot: Buffer, number: BN, timestamp: BN, common: Common, extraData?: Buffer) {
+  constructor(engine: ReimintEngine, parentHash: Buffer, parentStateRoot: Buffer, number: BN, timestamp: BN, common: Common, extraData?: Buffer, baseFeePerGas?: BN) {
     if (extraData && extraData.length !== 32) {
       throw new Error('invalid extra data length');
     }
@@ -57,6 +60,7 @@ export class PendingBlock {
     this._number = number.clone();
     this._timestamp = timestamp.clone();
     this._extraData = extraData ?? EMPTY_EXTRA_DATA;
+    this._baseFeePerGas = baseFeePerGas?.clone();
   }
 
   get parentHash() {
@@ -107,7 +111,8 @@ export class PendingBlock {
       stateRoot: this.finalizedStateRoot,
       bloom: this.bloom,
       receiptTrie: this.receiptTrie,
-      transactionsTrie: this.transactionsTrie
+      transactionsTrie: this.transactionsTrie,
+      baseFeePerGas: this._baseFeePerGas
     };
   }
 
@@ -202,7 +207,7 @@ export class PendingBlock {
       while (tx) {
         try {
           let txRes: ProcessTxResult;
-          tx = Transaction.fromTxData({ ...tx }, { common: this._common });
+          tx = TransactionFactory.fromTxData({ ...tx, type: tx.type }, { common: this._common });
           try {
             txRes = await this.engine.executor.processTx({
               tx,
@@ -289,7 +294,7 @@ export class PendingBlock {
       this.finalizedStateRoot = finalizedStateRoot;
 
       // calculate receipts trie
-      this.receiptTrie = await this.engine.generateReceiptTrie(this.transactions, receipts);
+      this.receiptTrie = await this.engine.generateReceiptTrie(this.transactions, receipts, this._common);
 
       // calculate transactions trie
       this.transactionsTrie = await calcTransactionTrie(this.transactions);
@@ -1,7 +1,7 @@
 import crypto from 'crypto';
 import { BN, bufferToHex } from 'ethereumjs-util';
 import Semaphore from 'semaphore-async-await';
-import { Channel, logger } from '@rei-network/utils';
+import { Channel, createLogger } from '@rei-network/utils';
 import { Block, BlockHeader } from '@rei-network/structure';
 import { isEmptyHash, EMPTY_HASH } from '../utils';
 import { preValidateBlock, preValidateHeader } from '../validation';
@@ -19,6 +19,8 @@ import { TimeoutTicker } from './timeoutTicker';
 import { ExtraData } from './extraData';
 import { ActiveValidatorSet } from './validatorSet';
 
+const logger = createLogger('reimint');
+
 const SkipTimeoutCommit = true;
 const WaitForTxs = true;
 const CreateEmptyBlocksInterval = 0;
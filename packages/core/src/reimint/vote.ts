@@ -1,11 +1,13 @@
 import { Address, BN, ecsign, ecrecover, rlp, intToBuffer, bnToUnpaddedBuffer, rlphash, bufferToInt, toBuffer } from 'ethereumjs-util';
-import { FunctionalBufferMap, logger } from '@rei-network/utils';
+import { FunctionalBufferMap, createLogger } from '@rei-network/utils';
 import { importBls } from '@rei-network/bls';
 import * as v from './validate';
 import { ActiveValidatorSet } from './validatorSet';
 import { BitArray } from './bitArray';
 import { VoteType, SignatureType } from './enum';
 
+const logger = createLogger('reimint');
+
 export class ConflictingVotesError extends Error {
   voteA: Vote;
   voteB: Vote;
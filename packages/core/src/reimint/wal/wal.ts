@@ -1,9 +1,11 @@
 import { bufferToInt, intToBuffer, setLengthLeft, BN } from 'ethereumjs-util';
-import { logger } from '@rei-network/utils';
+import { createLogger } from '@rei-network/utils';
 import { StateMachineMsg, StateMachineEndHeight, StateMachineMsgFactory } from '../messages';
 import { FileGroup, GroupFileReader } from './fileGroup';
 import { crc32 } from './crc32';
 
+const logger = createLogger('reimint');
+
 const defaultFlushInterval = 2 * 1000;
 const maxMsgSize = 1048576;
 
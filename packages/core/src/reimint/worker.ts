@@ -1,12 +1,15 @@
 import { BN } from 'ethereumjs-util';
 import Semaphore from 'semaphore-async-await';
-import { BlockHeader, Transaction } from '@rei-network/structure';
-import { logger, nowTimestamp } from '@rei-network/utils';
+import { BlockHeader, TypedTransaction } from '@rei-network/structure';
+import { createLogger, nowTimestamp } from '@rei-network/utils';
 import { PendingTxMap } from '../txpool';
+import { calcNextBaseFee } from '../utils';
 import { Node } from '../node';
 import { ReimintEngine } from './engine';
 import { PendingBlock } from './pendingBlock';
 
+const logger = createLogger('reimint');
+
 export interface WorkerOptions {
   node: Node;
   engine: ReimintEngine;
@@ -43,6 +46,8 @@ export class Worker {
 
     // get pending transactions for txpool
     const txs = await this.node.txPool.getPendingTxMap(header.number, parentHash);
+    // get private transactions for txpool
+    const privateTxs = await this.node.txPool.getPendingPrivateTxMap(header.number, parentHash);
 
     // lock
     await this.lock.acquire();
@@ -53,11 +58,18 @@ export class Worker {
     const nexTimestamp2 = header.timestamp.toNumber() + period;
     const nexTimestamp = nexTimestamp1 > nexTimestamp2 ? nexTimestamp1 : nexTimestamp2;
 
-    this.pendingBlock = new PendingBlock(this.engine, parentHash, header.stateRoot, nextNumber, new BN(nexTimestamp), nextCommon);
+    this.pendingBlock = new PendingBlock(this.engine, parentHash, header.stateRoot, nextNumber, new BN(nexTimestamp), nextCommon, undefined, calcNextBaseFee(header, nextCommon));
 
     // unlock
     this.lock.release();
 
+    if (privateTxs) {
+      // private transactions are appended before the pending transactions
+      this.pendingBlock.appendTxs(privateTxs).catch((err) => {
+        logger.error('Worker::newBlockHeader, appendTxs, catch error:', err);
+      });
+    }
+
     if (txs) {
       // async append txs to pending block
       this.pendingBlock.appendTxs(txs).catch((err) => {
@@ -72,7 +84,7 @@ export class Worker {
    * Add transactions to pending block
    * @param _txs - Transactions
    */
-  async addTxs(_txs: Map<Buffer, Transaction[]>) {
+  async addTxs(_txs: Map<Buffer, TypedTransaction[]>) {
     // if the pendingHeader doesn't exist,
     // ignore new pending transaction
     if (!this.pendingBlock) {
@@ -3,7 +3,7 @@ import { BN, KECCAK256_NULL, KECCAK256_RLP } from 'ethereumjs-util';
 import { Database } from '@rei-network/database';
 import { DBDeleteSnapAccount, DBDeleteSnapStorage, DBSaveSerializedSnapAccount, DBSaveSnapStorage } from '@rei-network/database/dist/helpers';
 import { snapStorageKey, snapAccountKey, SNAP_ACCOUNT_PREFIX, SNAP_STORAGE_PREFIX } from '@rei-network/database/dist/constants';
-import { FunctionalBufferSet, logger } from '@rei-network/utils';
+import { FunctionalBufferSet, createLogger } from '@rei-network/utils';
 import { StakingAccount } from '../stateManager';
 import { EMPTY_HASH, MAX_HASH, DBatch } from '../utils';
 import { KVIterator } from './trieIterator';
@@ -13,6 +13,8 @@ import { journalProgress } from './journal';
 import { ISnapshot, AccountData, StorageData, GeneratorStats } from './types';
 import { increaseKey, mergeProof, wipeKeyRange, SimpleAborter } from './utils';
 
+const logger = createLogger('snap');
+
 const accountCheckRange = 128;
 const storageCheckRange = 1024;
 const idealBatchSize = 102400;
@@ -1,11 +1,13 @@
 import { rlp, bufferToInt, toBuffer, BN, bufferToHex } from 'ethereumjs-util';
 import { Database, DBSaveSnapGenerator } from '@rei-network/database';
-import { FunctionalBufferMap, FunctionalBufferSet, logger } from '@rei-network/utils';
+import { FunctionalBufferMap, FunctionalBufferSet, createLogger } from '@rei-network/utils';
 import { EMPTY_HASH, DBatch } from '../utils';
 import { DiskLayer } from './diskLayer';
 import { Snapshot, GeneratorStats } from './types';
 import { DiffLayer } from './diffLayer';
 
+const logger = createLogger('snap');
+
 const journalVersion = 0;
 
 /**
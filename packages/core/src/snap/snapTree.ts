@@ -1,6 +1,6 @@
 import { rlp, BN, intToBuffer, bufferToHex } from 'ethereumjs-util';
 import { Database } from '@rei-network/database';
-import { FunctionalBufferMap, FunctionalBufferSet, logger } from '@rei-network/utils';
+import { FunctionalBufferMap, FunctionalBufferSet, createLogger } from '@rei-network/utils';
 import { snapStorageKey, SNAP_STORAGE_PREFIX } from '@rei-network/database/dist/constants';
 import { DBDeleteSnapRoot, DBDeleteSnapAccount, DBDeleteSnapStorage, DBSaveSerializedSnapAccount, DBSaveSnapStorage, DBSaveSnapRoot, DBDeleteSnapJournal, DBDeleteSnapGenerator, DBSaveSnapDisabled, DBDeleteSnapRecoveryNumber, DBDeleteSnapDisabled, DBSaveSnapJournal } from '@rei-network/database/dist/helpers';
 import { DBatch } from '../utils';
@@ -15,6 +15,8 @@ import { EMPTY_HASH, MAX_HASH } from '../utils';
 import { TrieSync } from '../sync/snap/trieSync';
 import { FastSnapIterator } from './fastIterator';
 
+const logger = createLogger('snap');
+
 const aggregatorMemoryLimit = 4 * 1024 * 1024;
 const idealBatchSize = 102400;
 export const journalVersion = 0;
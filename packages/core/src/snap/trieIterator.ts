@@ -1,5 +1,5 @@
 import { BaseTrie as Trie } from '@rei-network/trie';
-import { nibblesToBuffer } from '@rei-network/trie/dist/util/nibbles';
+import { bufferToNibbles, nibblesCompare, nibblesToBuffer } from '@rei-network/trie/dist/util/nibbles';
 import { BranchNode, ExtensionNode, LeafNode, Nibbles, TrieNode } from '@rei-network/trie/dist/trieNode';
 
 export type NodeEntry = { key: Buffer; val: Buffer };
@@ -13,32 +13,59 @@ export class KVIterator {
     this.root = root ?? trie.root;
   }
 
-  private async *traverse(node: TrieNode | null, key: Nibbles): AsyncGenerator<NodeEntry, NodeEntry | void> {
+  /**
+   * Traverse the node in the order of the key
+   * @param node - Trie node
+   * @param key - Key of the node
+   * @param bound - Remaining nibbles of the seek key,
+   *                the keys less than it are skipped,
+   *                undefined if all keys of the node are greater than the seek key
+   */
+  private async *traverse(node: TrieNode | null, key: Nibbles, bound?: Nibbles): AsyncGenerator<NodeEntry, NodeEntry | void> {
+    if (bound && bound.length === 0) {
+      bound = undefined;
+    }
+
     if (node instanceof BranchNode) {
-      if (node._value && node._value.length > 0) {
+      // the value is skipped if its key is a prefix of the seek key
+      if (!bound && node._value && node._value.length > 0) {
         yield {
           key: nibblesToBuffer(key),
           val: node._value
         };
       }
 
-      for (let i = 0; i < 16; i++) {
+      for (let i = bound ? bound[0] : 0; i < 16; i++) {
         const next = node.getBranch(i);
-        yield* this.traverse(next && (await this.trie._lookupNode(next)), key.concat([i]));
+        yield* this.traverse(next && (await this.trie._lookupNode(next)), key.concat([i]), bound && i === bound[0] ? bound.slice(1) : undefined);
       }
     } else if (node instanceof ExtensionNode) {
-      yield* this.traverse(await this.trie._lookupNode(node._value), key.concat(node._nibbles));
+      const cmp = bound ? nibblesCompare(node._nibbles, bound.slice(0, node._nibbles.length)) : 1;
+      if (cmp >= 0) {
+        yield* this.traverse(await this.trie._lookupNode(node._value), key.concat(node._nibbles), cmp === 0 ? bound!.slice(node._nibbles.length) : undefined);
+      }
     } else if (node instanceof LeafNode) {
-      yield {
-        key: nibblesToBuffer(key.concat(node._nibbles)),
-        val: node._value
-      };
+      if (!bound || nibblesCompare(node._nibbles, bound) >= 0) {
+        yield {
+          key: nibblesToBuffer(key.concat(node._nibbles)),
+          val: node._value
+        };
+      }
     }
   }
 
   async *[Symbol.asyncIterator]() {
     yield* this.traverse(await this.trie._lookupNode(this.root), []);
   }
+
+  /**
+   * Iterate over the keys which are greater than or equal to the seek key,
+   * the nodes are descended along the seek key, so the smaller keys aren't loaded
+   * @param start - Seek key
+   */
+  async *seek(start: Buffer) {
+    yield* this.traverse(await this.trie._lookupNode(this.root), [], bufferToNibbles(start));
+  }
 }
 
 export class TrieNodeIterator {
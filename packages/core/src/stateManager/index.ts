@@ -2,3 +2,4 @@ export * from './cache';
 export * from './stateManager';
 export * from './account';
 export * from './stakeInfo';
+export * from './override';
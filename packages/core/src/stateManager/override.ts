@@ -0,0 +1,68 @@
+import { Address, KECCAK256_NULL, setLengthLeft } from 'ethereumjs-util';
+import { hexStringToBN, hexStringToBuffer } from '@rei-network/utils';
+import { StateManager } from './stateManager';
+
+/**
+ * Override fields of an account,
+ * `state` replaces the whole storage, `stateDiff` only replaces the given slots
+ */
+export type AccountOverride = {
+  balance?: string;
+  nonce?: string;
+  code?: string;
+  state?: { [key: string]: string };
+  stateDiff?: { [key: string]: string };
+};
+
+/**
+ * State override set, keyed by account address
+ */
+export type StateOverrides = { [address: string]: AccountOverride };
+
+/**
+ * Apply the state override set to the state manager,
+ * the caller should checkpoint and revert the state manager by itself
+ * @param stateManager - State manager instance
+ * @param overrides - State override set
+ */
+export async function applyStateOverrides(stateManager: StateManager, overrides: StateOverrides) {
+  for (const [_address, override] of Object.entries(overrides)) {
+    const address = Address.fromString(_address);
+    if (override.state && override.stateDiff) {
+      throw new Error(`account ${_address} has both 'state' and 'stateDiff'`);
+    }
+
+    if (override.balance !== undefined || override.nonce !== undefined) {
+      const account = await stateManager.getAccount(address);
+      if (override.balance !== undefined) {
+        account.balance = hexStringToBN(override.balance);
+      }
+      if (override.nonce !== undefined) {
+        account.nonce = hexStringToBN(override.nonce);
+      }
+      await stateManager.putAccount(address, account);
+    }
+
+    if (override.code !== undefined) {
+      const code = hexStringToBuffer(override.code);
+      if (code.length > 0) {
+        await stateManager.putContractCode(address, code);
+      } else {
+        // putContractCode ignores empty code, so reset the code hash directly
+        const account = await stateManager.getAccount(address);
+        account.codeHash = KECCAK256_NULL;
+        await stateManager.putAccount(address, account);
+      }
+    }
+
+    const storage = override.state ?? override.stateDiff;
+    if (storage) {
+      if (override.state) {
+        await stateManager.clearContractStorage(address);
+      }
+      for (const [key, value] of Object.entries(storage)) {
+        await stateManager.putContractStorage(address, setLengthLeft(hexStringToBuffer(key), 32), setLengthLeft(hexStringToBuffer(value), 32));
+      }
+    }
+  }
+}
@@ -1,7 +1,7 @@
 const Set = require('core-js-pure/es/set');
 import { debug as createDebugLogger } from 'debug';
 import { SecureTrie as Trie } from '@rei-network/trie';
-import { Address, BN, toBuffer, keccak256, KECCAK256_NULL, unpadBuffer } from 'ethereumjs-util';
+import { Address, BN, toBuffer, keccak256, KECCAK256_NULL, unpadBuffer, bufferToHex, bnToHex } from 'ethereumjs-util';
 import { encode, decode } from 'rlp';
 import { Common, Chain, Hardfork } from '@rei-network/common';
 import { getActivePrecompiles, ripemdPrecompileAddress } from '@rei-network/vm/dist/evm/precompiles';
@@ -12,6 +12,7 @@ import { FunctionalBufferMap, FunctionalBufferSet, logger } from '@rei-network/u
 import { StakingAccount as Account } from './account';
 import { ISnapshot } from '../snap/types';
 import { SnapTree } from '../snap/snapTree';
+import { KVIterator } from '../snap/trieIterator';
 
 const debug = createDebugLogger('vm:state');
 
@@ -30,6 +31,51 @@ export interface StorageDump {
   [key: string]: string;
 }
 
+/**
+ * Merkle proof of a storage slot
+ */
+export interface StorageProof {
+  key: string;
+  proof: string[];
+  value: string;
+}
+
+/**
+ * Dumped account, the storage keys are the hash of the slots
+ */
+export interface DumpAccount {
+  balance: string;
+  nonce: string;
+  root: string;
+  codeHash: string;
+  code?: string;
+  storage?: { [key: string]: string };
+  nextStorage?: string;
+  key: string;
+}
+
+/**
+ * A range of dumped accounts, keyed by the account hash
+ */
+export interface Dump {
+  root: string;
+  accounts: { [hash: string]: DumpAccount };
+  next?: string;
+}
+
+/**
+ * Merkle proof of an account and its storage slots, as defined in EIP-1186
+ */
+export interface Proof {
+  address: string;
+  balance: string;
+  codeHash: string;
+  nonce: string;
+  storageHash: string;
+  accountProof: string[];
+  storageProof: StorageProof[];
+}
+
 /**
  * Options for constructing a {@link StateManager}.
  */
@@ -671,6 +717,140 @@ export class StateManager {
     });
   }
 
+  /**
+   * Whether the snapshot can be used to iterate the state,
+   * the snapshot is only consistent with the committed state
+   * @returns `true` if the snapshot is available
+   */
+  private _snapIterable() {
+    return this._snap !== undefined && this._checkpointCount === 0 && !this._snapTree!.generating();
+  }
+
+  /**
+   * Iterate over the accounts in the order of the account hash,
+   * the snapshot will be used if it is available, otherwise the trie will be traversed
+   * @param start - Account hash to start with
+   */
+  async *iterateAccounts(start: Buffer): AsyncGenerator<{ hash: Buffer; account: Account }> {
+    if (this._snapIterable()) {
+      for await (const { hash, value } of this._snapTree!.accountIterator(this._trie.root, start)) {
+        yield { hash, account: value };
+      }
+    } else if (!this._trie.root.equals(this._trie.EMPTY_TRIE_ROOT)) {
+      for await (const { key, val } of new KVIterator(this._trie).seek(start)) {
+        yield { hash: key, account: Account.fromRlpSerializedAccount(val) };
+      }
+    }
+  }
+
+  /**
+   * Iterate over the storage slots in the order of the slot hash
+   * @param accountHash - Account hash
+   * @param trie - Storage trie of the account
+   * @param start - Slot hash to start with
+   */
+  private async *_iterateStorage(accountHash: Buffer, trie: Trie, start: Buffer): AsyncGenerator<{ hash: Buffer; value: Buffer }> {
+    if (this._snapIterable()) {
+      for await (const { hash, value } of this._snapTree!.storageIterator(this._trie.root, accountHash, start)) {
+        yield { hash, value: decode(value) as any as Buffer };
+      }
+    } else if (!trie.root.equals(trie.EMPTY_TRIE_ROOT)) {
+      for await (const { key, val } of new KVIterator(trie).seek(start)) {
+        yield { hash: key, value: decode(val) as any as Buffer };
+      }
+    }
+  }
+
+  /**
+   * Iterate over the storage slots of an account in the order of the slot hash,
+   * the snapshot will be used if it is available, otherwise the trie will be traversed
+   * @param address - Account address
+   * @param start - Slot hash to start with
+   */
+  async *iterateStorage(address: Address, start: Buffer) {
+    yield* this._iterateStorage(keccak256(address.buf), await this._getStorageTrie(address), start);
+  }
+
+  /**
+   * Dump a range of accounts in the order of the account hash
+   * @param start - Account hash to start with
+   * @param maxResults - Max number of accounts
+   * @param nocode - Skip the contract code
+   * @param nostorage - Skip the contract storage
+   * @param maxStorage - Max number of storage slots of each account,
+   *                     the hash of the next slot will be returned if the storage is truncated
+   * @returns Accounts and the hash of the next account
+   */
+  async dumpRange(start: Buffer, maxResults: number, nocode: boolean, nostorage: boolean, maxStorage: number): Promise<Dump> {
+    const dump: Dump = { root: bufferToHex(this._trie.root), accounts: {} };
+    let count = 0;
+    for await (const { hash, account } of this.iterateAccounts(start)) {
+      if (count >= maxResults) {
+        dump.next = bufferToHex(hash);
+        break;
+      }
+      const key = bufferToHex(hash);
+      const dumpAccount: DumpAccount = {
+        balance: bnToHex(account.balance),
+        nonce: bnToHex(account.nonce),
+        root: bufferToHex(account.stateRoot),
+        codeHash: bufferToHex(account.codeHash),
+        key
+      };
+      if (!nocode && account.isContract()) {
+        dumpAccount.code = bufferToHex((await this._trie.db.get(account.codeHash)) ?? Buffer.alloc(0));
+      }
+      if (!nostorage) {
+        const trie = this._trie.copy(false);
+        trie.root = account.stateRoot;
+        const storage: { [key: string]: string } = {};
+        let slots = 0;
+        for await (const { hash: slot, value } of this._iterateStorage(hash, trie, Buffer.alloc(32))) {
+          if (slots >= maxStorage) {
+            dumpAccount.nextStorage = bufferToHex(slot);
+            break;
+          }
+          storage[bufferToHex(slot)] = bufferToHex(value);
+          slots++;
+        }
+        if (Object.keys(storage).length > 0) {
+          dumpAccount.storage = storage;
+        }
+      }
+      dump.accounts[key] = dumpAccount;
+      count++;
+    }
+    return dump;
+  }
+
+  /**
+   * Get an EIP-1186 proof of the account and its storage slots.
+   * @param address - Address of the account
+   * @param storageSlots - Storage keys of the account, each key must be 32 bytes long
+   * @returns {Promise<Proof>} - Account proof and storage proofs
+   */
+  async getProof(address: Address, storageSlots: Buffer[] = []): Promise<Proof> {
+    const account = await this.getAccount(address);
+    const accountProof = (await Trie.createProof(this._trie, address.buf)).map((p) => bufferToHex(p));
+    const storageTrie = await this._getStorageTrie(address);
+    const storageProof: StorageProof[] = [];
+    for (const key of storageSlots) {
+      const proof = (await Trie.createProof(storageTrie, key)).map((p) => bufferToHex(p));
+      const value = bnToHex(new BN(await this.getContractStorage(address, key)));
+      storageProof.push({ key: bufferToHex(key), proof, value });
+    }
+
+    return {
+      address: address.toString(),
+      balance: bnToHex(account.balance),
+      codeHash: bufferToHex(account.codeHash),
+      nonce: bnToHex(account.nonce),
+      storageHash: bufferToHex(account.stateRoot),
+      accountProof,
+      storageProof
+    };
+  }
+
   /**
    * Checks whether the current instance has the canonical genesis state
    * for the configured chain parameters.
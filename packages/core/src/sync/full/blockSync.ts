@@ -1,10 +1,12 @@
 import { BN } from 'ethereumjs-util';
 import { Common } from '@rei-network/common';
-import { BlockHeader, Block, Transaction } from '@rei-network/structure';
-import { PChannel, logger } from '@rei-network/utils';
+import { BlockHeader, Block, TypedTransaction } from '@rei-network/structure';
+import { PChannel, createLogger } from '@rei-network/utils';
 import { WireProtocol, WireProtocolHandler } from '../../protocols';
 import { LimitedConcurrency } from './limited';
 
+const logger = createLogger('sync');
+
 const defaultDownloadBodiesLimit = 3;
 
 export interface BlockSyncOptions {
@@ -37,7 +39,7 @@ export interface BlockSyncBackend {
 
 export interface BlockSyncValidateBackend {
   validateHeaders(parent: BlockHeader | undefined, headers: BlockHeader[]): BlockHeader;
-  validateBodies(headers: BlockHeader[], bodies: Transaction[][]): void;
+  validateBodies(headers: BlockHeader[], bodies: TypedTransaction[][]): void;
   validateBlocks(blocks): Promise<void>;
 }
 
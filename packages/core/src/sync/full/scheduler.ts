@@ -1,13 +1,15 @@
 import EventEmitter from 'events';
 import { BN, KECCAK256_RLP } from 'ethereumjs-util';
-import { logger } from '@rei-network/utils';
-import { BlockHeader, Transaction, Block } from '@rei-network/structure';
+import { createLogger } from '@rei-network/utils';
+import { BlockHeader, TypedTransaction, Block } from '@rei-network/structure';
 import { Node } from '../../node';
 import { preValidateBlock, preValidateHeader } from '../../validation';
 import { WireProtocolHandler, maxGetBlockHeaders } from '../../protocols';
 import { SyncInfo } from '../types';
 import { BlockSync, BlockSyncBackend as IBlockSyncBackend, BlockSyncValidateBackend as IBlockSyncValidateBackend } from './blockSync';
 
+const logger = createLogger('sync');
+
 const bnMaxGetBlockHeaders = new BN(maxGetBlockHeaders);
 
 class BlockSyncBackend implements IBlockSyncBackend, IBlockSyncValidateBackend {
@@ -87,7 +89,7 @@ class BlockSyncBackend implements IBlockSyncBackend, IBlockSyncValidateBackend {
    * @param headers - A list of headers
    * @param bodies - A list of bodies, one-to-one correspondence with headers
    */
-  validateBodies(headers: BlockHeader[], bodies: Transaction[][]) {
+  validateBodies(headers: BlockHeader[], bodies: TypedTransaction[][]) {
     if (headers.length !== bodies.length) {
       throw new Error('invalid bodies length');
     }
@@ -2,9 +2,11 @@ import EventEmitter from 'events';
 import { BN } from 'ethereumjs-util';
 import { BlockHeader } from '@rei-network/structure';
 import { Database } from '@rei-network/database';
-import { logger, AbortableTimer } from '@rei-network/utils';
+import { createLogger, AbortableTimer } from '@rei-network/utils';
 import { HeaderSyncNetworkManager, HeaderSyncPeer, IHeaderSyncBackend } from './types';
 
+const logger = createLogger('sync');
+
 const count: BN = new BN(256);
 const maxGetBlockHeaders: BN = new BN(128);
 const defaultRetryInterval = 1000;
@@ -1,5 +1,5 @@
 import EventEmitter from 'events';
-import { logger } from '@rei-network/utils';
+import { createLogger } from '@rei-network/utils';
 import { BlockHeader } from '@rei-network/structure';
 import { DBSetBlockOrHeader, DBOp, DBSaveLookups } from '@rei-network/database';
 import { Node } from '../../node';
@@ -11,6 +11,8 @@ import { preValidateHeader } from '../../validation';
 import { WireProtocolHandler } from '../../protocols';
 import { IHeaderSyncBackend, HeaderSyncPeer } from './types';
 
+const logger = createLogger('sync');
+
 export declare interface SnapSyncScheduler {
   on(event: 'start', listener: (info: SyncInfo) => void): this;
   on(event: 'finished', listener: (info: SyncInfo) => void): this;
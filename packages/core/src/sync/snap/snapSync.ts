@@ -1,6 +1,6 @@
 import { bufferToHex, toBuffer, BN, setLengthLeft, KECCAK256_NULL, KECCAK256_RLP } from 'ethereumjs-util';
 import { BaseTrie, CheckpointTrie } from '@rei-network/trie';
-import { logger, Channel, FunctionalBufferMap, FunctionalBufferSet } from '@rei-network/utils';
+import { createLogger, Channel, FunctionalBufferMap, FunctionalBufferSet } from '@rei-network/utils';
 import { Database, DBSaveSerializedSnapAccount, DBSaveSnapStorage, DBSaveSnapSyncProgress } from '@rei-network/database';
 import { StakingAccount } from '../../stateManager';
 import { EMPTY_HASH, MAX_HASH, BinaryRawDBatch, DBatch, CountLock } from '../../utils';
@@ -8,6 +8,8 @@ import { increaseKey } from '../../snap/utils';
 import { TrieSync } from './trieSync';
 import { AccountRequest, AccountResponse, StorageRequst, StorageResponse, SnapSyncNetworkManager } from './types';
 
+const logger = createLogger('sync');
+
 const maxHashBN = new BN(MAX_HASH);
 
 const accountConcurrency = 16;
@@ -1,6 +1,6 @@
 import { EventEmitter } from 'events';
 import { BN } from 'ethereumjs-util';
-import { Channel, getRandomIntInclusive, logger, AbortableTimer } from '@rei-network/utils';
+import { Channel, getRandomIntInclusive, createLogger, AbortableTimer } from '@rei-network/utils';
 import { Block } from '@rei-network/structure';
 import { Node } from '../node';
 import { preValidateBlock, validateReceipts } from '../validation';
@@ -9,6 +9,8 @@ import { SnapSyncScheduler } from './snap';
 import { FullSyncScheduler } from './full';
 import { SyncInfo, BlockData } from './types';
 
+const logger = createLogger('sync');
+
 const snapSyncStaleBlockNumber = 128;
 const snapSyncTrustedStaleBlockNumber = 896;
 const snapSyncMinConfirmed = 2;
@@ -0,0 +1,328 @@
+import { Address, BN, bufferToHex, setLengthLeft } from 'ethereumjs-util';
+import { StateManager } from '@rei-network/vm/dist/state';
+import { getPrecompile } from '@rei-network/vm/dist/evm/precompiles';
+import { InterpreterStep } from '@rei-network/vm/dist/evm/interpreter';
+import { VmError } from '@rei-network/vm/dist/exceptions';
+import { Common } from '@rei-network/common';
+import { IDebugImpl } from '../tracer';
+
+export type CallFrame = {
+  type: string;
+  from: string;
+  to?: string;
+  value?: string;
+  gas?: string;
+  gasUsed?: string;
+  input?: string;
+  output?: string;
+  error?: string;
+  time?: number;
+  calls?: CallFrame[];
+};
+
+type PendingCall = {
+  type?: string;
+  from?: string;
+  to?: string;
+  value?: string;
+  gas?: number | string;
+  gasUsed?: string;
+  input?: string;
+  output?: string;
+  error?: string;
+  gasIn?: number;
+  gasCost?: number;
+  outOff?: number;
+  outLen?: number;
+  calls?: PendingCall[];
+};
+
+/**
+ * Read the stack item from the top
+ * @param step - Step state
+ * @param index - Index from the top
+ * @returns Stack item
+ */
+function peek(step: InterpreterStep, index: number) {
+  return step.stack[step.stack.length - index - 1] ?? new BN(0);
+}
+
+/**
+ * Convert the stack item to number,
+ * the huge value will lose precision like the js tracer does
+ * @param value - Stack item
+ * @returns Number
+ */
+function toNumber(value: BN) {
+  return value.bitLength() > 53 ? Number(value.toString()) : value.toNumber();
+}
+
+/**
+ * Convert the stack item to address
+ * @param value - Stack item
+ * @returns Address buffer
+ */
+function toAddress(value: BN) {
+  return setLengthLeft(value.toArrayLike(Buffer), 20);
+}
+
+/**
+ * Recreate the call object using the final desired field order
+ * @param call - Call object
+ * @returns Call frame
+ */
+function finalize(call: PendingCall | CallFrame): CallFrame {
+  const sorted: any = {
+    type: call.type,
+    from: call.from,
+    to: call.to,
+    value: call.value,
+    gas: call.gas,
+    gasUsed: call.gasUsed,
+    input: call.input,
+    output: call.output,
+    error: call.error,
+    time: (call as CallFrame).time,
+    calls: call.calls && call.calls.map(finalize)
+  };
+  for (const key in sorted) {
+    if (sorted[key] === undefined) {
+      delete sorted[key];
+    }
+  }
+  return sorted;
+}
+
+/**
+ * CallTracerDebug is the native implementation of `callTracer`,
+ * the output is exactly the same as the js version
+ */
+export class CallTracerDebug implements IDebugImpl {
+  hash?: Buffer;
+
+  private common: Common;
+  private callstack: PendingCall[] = [{}];
+  private descended = false;
+  private stateManager!: StateManager;
+  private ctx!: {
+    type: string;
+    from: Buffer;
+    to: Buffer;
+    input: Buffer;
+    gas: BN;
+    value: BN;
+    output?: Buffer;
+    gasUsed?: BN;
+    time?: number;
+  };
+
+  constructor(common: Common, hash?: Buffer) {
+    this.common = common;
+    this.hash = hash;
+  }
+
+  private get top() {
+    return this.callstack[this.callstack.length - 1];
+  }
+
+  /**
+   * Inject the call into the previous one
+   * @param call - Call object
+   */
+  private pushCall(call: PendingCall) {
+    const parent = this.top;
+    if (parent.calls === undefined) {
+      parent.calls = [];
+    }
+    parent.calls.push(call);
+  }
+
+  /**
+   * CaptureStart implements the Tracer interface to initialize the tracing operation.
+   * @param from From address
+   * @param to To address
+   * @param create Create or call
+   * @param input Input data
+   * @param gas GasLimit
+   * @param gasPrice gasPrice
+   * @param value Sent to it from it's caller
+   * @param number Blocknumber
+   * @param stateManager state trie manager
+   */
+  async captureStart(from: undefined | Buffer, to: undefined | Buffer, create: boolean, input: Buffer, gas: BN, gasPrice: BN, value: BN, number: BN, stateManager: StateManager) {
+    this.ctx = { type: create ? 'CREATE' : 'CALL', from: from!, to: to!, input, gas: gas.clone(), value: value.clone() };
+    this.stateManager = stateManager;
+  }
+
+  /**
+   * CaptureState implements the Tracer interface to trace a single step of VM execution
+   * @param step Step state
+   */
+  async captureState(step: InterpreterStep) {
+    // we only care about system opcodes
+    const op = step.opcode.name;
+    const syscall = (step.opcode.code & 0xf0) === 0xf0;
+    const gasLeft = step.gasLeft.toNumber();
+    if (syscall && (op === 'CREATE' || op === 'CREATE2')) {
+      const inOff = toNumber(peek(step, 1));
+      const inEnd = inOff + toNumber(peek(step, 2));
+      this.callstack.push({
+        type: op,
+        from: bufferToHex(step.address.buf),
+        input: bufferToHex(step.memory.slice(inOff, inEnd)),
+        gasIn: gasLeft,
+        gasCost: step.opcode.fee,
+        value: '0x' + peek(step, 0).toString(16)
+      });
+      this.descended = true;
+      return;
+    }
+    if (syscall && op === 'SELFDESTRUCT') {
+      this.pushCall({
+        type: op,
+        from: bufferToHex(step.address.buf),
+        to: bufferToHex(toAddress(peek(step, 0))),
+        gasIn: gasLeft,
+        gasCost: step.opcode.fee,
+        value: '0x' + (await this.stateManager.getAccount(step.address)).balance.toString(16)
+      });
+      return;
+    }
+    if (syscall && (op === 'CALL' || op === 'CALLCODE' || op === 'DELEGATECALL' || op === 'STATICCALL')) {
+      // skip any pre-compile invocations, those are just fancy opcodes
+      const to = toAddress(peek(step, 1));
+      if (getPrecompile(new Address(to), this.common) !== undefined) {
+        return;
+      }
+      const off = op === 'DELEGATECALL' || op === 'STATICCALL' ? 0 : 1;
+      const inOff = toNumber(peek(step, 2 + off));
+      const inEnd = inOff + toNumber(peek(step, 3 + off));
+      const call: PendingCall = {
+        type: op,
+        from: bufferToHex(step.address.buf),
+        to: bufferToHex(to),
+        input: bufferToHex(step.memory.slice(inOff, inEnd)),
+        gasIn: gasLeft,
+        gasCost: step.opcode.fee,
+        outOff: toNumber(peek(step, 4 + off)),
+        outLen: toNumber(peek(step, 5 + off))
+      };
+      if (off === 1) {
+        call.value = '0x' + peek(step, 2).toString(16);
+      }
+      this.callstack.push(call);
+      this.descended = true;
+      return;
+    }
+    // if we've just descended into an inner call, retrieve it's true allowance,
+    // the call to a plain account will be skipped
+    if (this.descended) {
+      if (step.depth + 1 >= this.callstack.length) {
+        this.top.gas = gasLeft;
+      }
+      this.descended = false;
+    }
+    if (syscall && op === 'REVERT') {
+      this.top.error = 'execution reverted';
+      return;
+    }
+    if (step.depth + 1 === this.callstack.length - 1) {
+      // pop off the last call and get the execution results
+      const call = this.callstack.pop()!;
+      const ret = peek(step, 0);
+      if (call.type === 'CREATE' || call.type === 'CREATE2') {
+        call.gasUsed = '0x' + (call.gasIn! - call.gasCost! - gasLeft).toString(16);
+        if (!ret.isZero()) {
+          const address = toAddress(ret);
+          call.to = bufferToHex(address);
+          call.output = bufferToHex(await this.stateManager.getContractCode(new Address(address)));
+        } else if (call.error === undefined) {
+          call.error = 'internal failure';
+        }
+      } else {
+        if (call.gas !== undefined) {
+          call.gasUsed = '0x' + (call.gasIn! - call.gasCost! + (call.gas as number) - gasLeft).toString(16);
+        }
+        if (!ret.isZero()) {
+          call.output = bufferToHex(step.memory.slice(call.outOff!, call.outOff! + call.outLen!));
+        } else if (call.error === undefined) {
+          call.error = 'internal failure';
+        }
+      }
+      if (call.gas !== undefined) {
+        call.gas = '0x' + call.gas.toString(16);
+      }
+      this.pushCall(call);
+    }
+  }
+
+  /**
+   * CaptureFault implements the Tracer interface to trace an execution fault
+   * @param step Step state
+   * @param err Error message
+   */
+  async captureFault(step: InterpreterStep, err: any) {
+    // if the topmost call already reverted, don't handle the additional fault again
+    if (this.top.error !== undefined) {
+      return;
+    }
+    const call = this.callstack.pop()!;
+    if (err instanceof VmError) {
+      call.error = err.error;
+    } else if (err instanceof Error) {
+      call.error = err.message;
+    } else if (typeof err === 'string') {
+      call.error = err;
+    } else {
+      call.error = 'unknown error';
+    }
+    // consume all available gas
+    if (call.gas !== undefined) {
+      call.gas = '0x' + call.gas.toString(16);
+      call.gasUsed = call.gas;
+    }
+    if (this.callstack.length > 0) {
+      // flatten the failed call into its parent
+      this.pushCall(call);
+    } else {
+      // last call failed too, leave it in the stack
+      this.callstack.push(call);
+    }
+  }
+
+  /**
+   * CaptureEnd implements the Tracer interface, called after the VM has finished executing
+   * @param output Output result
+   * @param gasUsed Gas used
+   * @param time Running time
+   */
+  async captureEnd(output: Buffer, gasUsed: BN, time: number) {
+    this.ctx.output = output;
+    this.ctx.gasUsed = gasUsed.clone();
+    this.ctx.time = time;
+  }
+
+  /**
+   * Assemble the call frames
+   * @returns Root call frame
+   */
+  result() {
+    const result: CallFrame = {
+      type: this.ctx.type,
+      from: bufferToHex(this.ctx.from),
+      to: bufferToHex(this.ctx.to),
+      value: '0x' + this.ctx.value.toString(16),
+      gas: '0x' + this.ctx.gas.toString(16),
+      gasUsed: '0x' + this.ctx.gasUsed!.toString(16),
+      input: bufferToHex(this.ctx.input),
+      output: bufferToHex(this.ctx.output!),
+      time: this.ctx.time,
+      calls: this.callstack[0].calls as CallFrame[],
+      error: this.callstack[0].error
+    };
+    if (result.error !== undefined && (result.error !== 'execution reverted' || result.output === '0x')) {
+      delete result.output;
+    }
+    return finalize(result);
+  }
+}
@@ -1,2 +1,6 @@
 export * from './structLogDebug';
 export * from './jsDebug';
+export * from './parityDebug';
+export * from './callTracerDebug';
+export * from './prestateTracerDebug';
+export * from './muxDebug';
@@ -0,0 +1,82 @@
+import { BN } from 'ethereumjs-util';
+import { StateManager } from '@rei-network/vm/dist/state';
+import { InterpreterStep } from '@rei-network/vm/dist/evm/interpreter';
+import { IDebugImpl } from '../tracer';
+
+/**
+ * MuxDebug runs several tracers in one pass,
+ * the result is a map of tracer name to the tracer result
+ */
+export class MuxDebug implements IDebugImpl {
+  hash?: Buffer;
+
+  private debugs: Map<string, IDebugImpl>;
+
+  constructor(debugs: Map<string, IDebugImpl>, hash?: Buffer) {
+    this.debugs = debugs;
+    this.hash = hash;
+  }
+
+  /**
+   * CaptureStart implements the Tracer interface to initialize the tracing operation.
+   * @param from From address
+   * @param to To address
+   * @param create Create or call
+   * @param input Input data
+   * @param gas GasLimit
+   * @param gasPrice gasPrice
+   * @param value Sent to it from it's caller
+   * @param number Blocknumber
+   * @param stateManager state trie manager
+   */
+  async captureStart(from: undefined | Buffer, to: undefined | Buffer, create: boolean, input: Buffer, gas: BN, gasPrice: BN, value: BN, number: BN, stateManager: StateManager) {
+    for (const debug of this.debugs.values()) {
+      await debug.captureStart(from, to, create, input, gas, gasPrice, value, number, stateManager);
+    }
+  }
+
+  /**
+   * CaptureState implements the Tracer interface to trace a single step of VM execution
+   * @param step Step state
+   */
+  async captureState(step: InterpreterStep) {
+    for (const debug of this.debugs.values()) {
+      await debug.captureState(step);
+    }
+  }
+
+  /**
+   * CaptureFault implements the Tracer interface to trace an execution fault
+   * @param step Step state
+   * @param err Error message
+   */
+  async captureFault(step: InterpreterStep, err: any) {
+    for (const debug of this.debugs.values()) {
+      await debug.captureFault(step, err);
+    }
+  }
+
+  /**
+   * CaptureEnd implements the Tracer interface, called after the VM has finished executing
+   * @param output Output result
+   * @param gasUsed Gas used
+   * @param time Running time
+   */
+  async captureEnd(output: Buffer, gasUsed: BN, time: number) {
+    for (const debug of this.debugs.values()) {
+      await debug.captureEnd(output, gasUsed, time);
+    }
+  }
+
+  /**
+   * Collect the results of all tracers
+   * @returns Results
+   */
+  async result() {
+    const results: { [name: string]: any } = {};
+    for (const [name, debug] of this.debugs) {
+      results[name] = await debug.result();
+    }
+    return results;
+  }
+}
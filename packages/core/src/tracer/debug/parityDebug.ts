@@ -0,0 +1,659 @@
+import { Address, BN, bnToHex, bufferToHex, setLengthLeft, generateAddress, generateAddress2, keccak256 } from 'ethereumjs-util';
+import { StateManager } from '@rei-network/vm/dist/state';
+import { getPrecompile } from '@rei-network/vm/dist/evm/precompiles';
+import { InterpreterStep } from '@rei-network/vm/dist/evm/interpreter';
+import { ERROR, VmError } from '@rei-network/vm/dist/exceptions';
+import { FunctionalBufferMap } from '@rei-network/utils';
+import { calcIntrinsicGas } from '@rei-network/structure';
+import { Common } from '@rei-network/common';
+import { IDebugImpl } from '../tracer';
+
+export type ParityTraceType = 'trace' | 'stateDiff' | 'vmTrace';
+
+export type ParityTrace = {
+  action: { [key: string]: string | undefined };
+  error?: string;
+  result: { [key: string]: string } | null;
+  subtraces: number;
+  traceAddress: number[];
+  type: 'call' | 'create' | 'suicide';
+};
+
+export type VMOperation = {
+  pc: number;
+  cost: number;
+  ex: {
+    mem: { off: number; data: string } | null;
+    push: string[];
+    store: { key: string; val: string } | null;
+    used: number;
+  } | null;
+  sub: VMTrace | null;
+};
+
+export type VMTrace = {
+  code: string;
+  ops: VMOperation[];
+};
+
+type Diff = '=' | { '+': string } | { '-': string } | { '*': { from: string; to: string } };
+
+export type AccountDiff = {
+  balance: Diff;
+  nonce: Diff;
+  code: Diff;
+  storage: { [slot: string]: Diff };
+};
+
+export type ParityTxTrace = {
+  output: string;
+  trace: ParityTrace[];
+  stateDiff: { [address: string]: AccountDiff } | null;
+  vmTrace: VMTrace | null;
+};
+
+type Suicide = {
+  type: 'suicide';
+  address: Buffer;
+  refundAddress: Buffer;
+  balance: BN;
+};
+
+type Frame = {
+  type: 'call' | 'create';
+  callType?: string;
+  from: Buffer;
+  to?: Buffer;
+  value: BN;
+  input: Buffer;
+  gas?: BN;
+  gasUsed?: BN;
+  output?: Buffer;
+  code?: Buffer;
+  error?: string;
+  calls: (Frame | Suicide)[];
+  // the output memory range of the call
+  outOffset?: number;
+  outLength?: number;
+  // the gas left after the last step
+  gasLeft?: BN;
+  vmTrace?: VMTrace;
+  pendingOp?: PendingOp;
+};
+
+type PendingOp = {
+  op: VMOperation;
+  name: string;
+  mem?: { off: number; len: number };
+};
+
+type AccountState = {
+  exists: boolean;
+  balance: BN;
+  nonce: BN;
+  code: Buffer;
+  storage: Map<string, Buffer>;
+};
+
+// opcodes that don't push any item to the stack
+const noPushOpcodes = new Set<string>(['STOP', 'CALLDATACOPY', 'CODECOPY', 'EXTCODECOPY', 'RETURNDATACOPY', 'POP', 'MSTORE', 'MSTORE8', 'SSTORE', 'JUMP', 'JUMPI', 'JUMPDEST', 'LOG0', 'LOG1', 'LOG2', 'LOG3', 'LOG4', 'RETURN', 'REVERT', 'INVALID', 'SELFDESTRUCT', 'BEGINSUB', 'RETURNSUB', 'JUMPSUB']);
+
+const errors = new Map<string, string>([
+  [ERROR.OUT_OF_GAS, 'Out of gas'],
+  [ERROR.CODESTORE_OUT_OF_GAS, 'Out of gas'],
+  [ERROR.STACK_UNDERFLOW, 'Stack underflow'],
+  [ERROR.STACK_OVERFLOW, 'Out of stack'],
+  [ERROR.INVALID_JUMP, 'Bad jump destination'],
+  [ERROR.INVALID_OPCODE, 'Bad instruction'],
+  [ERROR.REVERT, 'Reverted'],
+  [ERROR.STATIC_STATE_CHANGE, 'Mutable call in static context']
+]);
+
+/**
+ * Convert the vm error to parity style error message
+ * @param err - Error
+ * @returns Error message
+ */
+function toErrorMessage(err: any) {
+  const message = err instanceof VmError ? err.error : err instanceof Error ? err.message : typeof err === 'string' ? err : 'unknown error';
+  return errors.get(message) ?? message;
+}
+
+/**
+ * Get the number of items pushed by the opcode
+ * @param name - Opcode name
+ * @returns Number of items
+ */
+function pushCount(name: string) {
+  if (name.startsWith('DUP') || name.startsWith('SWAP')) {
+    return Number(name.substr(name.startsWith('DUP') ? 3 : 4)) + 1;
+  }
+  return noPushOpcodes.has(name) ? 0 : 1;
+}
+
+/**
+ * Read the stack item from the top
+ * @param step - Step state
+ * @param index - Index from the top
+ * @returns Stack item
+ */
+function peek(step: InterpreterStep, index: number) {
+  return step.stack[step.stack.length - index - 1] ?? new BN(0);
+}
+
+/**
+ * Convert the stack item to a memory offset or length,
+ * the huge value will be treated as 0, because the execution must fail
+ * @param value - Stack item
+ * @returns Number
+ */
+function toNumber(value: BN) {
+  return value.bitLength() > 32 ? 0 : value.toNumber();
+}
+
+/**
+ * Slice the memory, the length is limited by the memory size
+ * @param memory - Memory
+ * @param offset - Offset
+ * @param length - Length
+ * @returns Memory slice
+ */
+function sliceMemory(memory: Buffer, offset: number, length: number) {
+  return length === 0 ? Buffer.alloc(0) : memory.slice(offset, offset + length);
+}
+
+/**
+ * Generate diff of a field
+ * @param pre - Value before execution, undefined if the account doesn't exist
+ * @param post - Value after execution, undefined if the account doesn't exist
+ * @returns Diff
+ */
+function makeDiff(pre?: string, post?: string): Diff {
+  if (pre === undefined) {
+    return { '+': post! };
+  } else if (post === undefined) {
+    return { '-': pre };
+  } else if (pre === post) {
+    return '=';
+  } else {
+    return { '*': { from: pre, to: post } };
+  }
+}
+
+/**
+ * ParityDebug generates OpenEthereum style traces,
+ * it supports `trace`, `stateDiff` and `vmTrace` modes
+ */
+export class ParityDebug implements IDebugImpl {
+  hash?: Buffer;
+  private readonly common: Common;
+  private readonly types: Set<ParityTraceType>;
+  private readonly results: ParityTxTrace[] = [];
+
+  // context of the current transaction
+  private stateManager!: StateManager;
+  private frames: Frame[] = [];
+  private root!: Frame;
+  private intrinsicGas!: BN;
+  private accounts = new FunctionalBufferMap<AccountState>();
+
+  constructor(common: Common, types: ParityTraceType[], hash?: Buffer) {
+    this.common = common;
+    this.types = new Set<ParityTraceType>(types);
+    this.hash = hash;
+  }
+
+  private get currentFrame() {
+    return this.frames[this.frames.length - 1];
+  }
+
+  /**
+   * Record the state of the account before execution
+   * @param address - Account address
+   */
+  private async touchAccount(address: Buffer) {
+    if (!this.types.has('stateDiff') || this.accounts.has(address)) {
+      return;
+    }
+    const addr = new Address(address);
+    const exists = await this.stateManager.accountExists(addr);
+    const account = await this.stateManager.getAccount(addr);
+    this.accounts.set(address, {
+      exists,
+      balance: account.balance.clone(),
+      nonce: account.nonce.clone(),
+      code: exists ? await this.stateManager.getContractCode(addr) : Buffer.alloc(0),
+      storage: new Map<string, Buffer>()
+    });
+  }
+
+  /**
+   * Record the storage value before execution
+   * @param address - Account address
+   * @param slot - Storage slot
+   */
+  private async touchStorage(address: Buffer, slot: Buffer) {
+    if (!this.types.has('stateDiff')) {
+      return;
+    }
+    await this.touchAccount(address);
+    const storage = this.accounts.get(address)!.storage;
+    const key = bufferToHex(slot);
+    if (!storage.has(key)) {
+      storage.set(key, setLengthLeft(await this.stateManager.getContractStorage(new Address(address), slot), 32));
+    }
+  }
+
+  /**
+   * CaptureStart initializes the context of a new transaction
+   * @param from - From address
+   * @param to - To address
+   * @param create - Create or call
+   * @param input - Input data
+   * @param gas - Gas limit
+   * @param gasPrice - Gas price
+   * @param value - Transaction value
+   * @param number - Block number
+   * @param stateManager - State manager
+   */
+  async captureStart(from: undefined | Buffer, to: undefined | Buffer, create: boolean, input: Buffer, gas: BN, gasPrice: BN, value: BN, number: BN, stateManager: StateManager) {
+    this.stateManager = stateManager;
+    this.accounts = new FunctionalBufferMap<AccountState>();
+    this.intrinsicGas = calcIntrinsicGas(create, input);
+    this.root = {
+      type: create ? 'create' : 'call',
+      callType: create ? undefined : 'call',
+      from: from!,
+      to,
+      value: value.clone(),
+      input,
+      gas: BN.max(gas.sub(this.intrinsicGas), new BN(0)),
+      calls: []
+    };
+    this.frames = [this.root];
+
+    await this.touchAccount(from!);
+    to && (await this.touchAccount(to));
+    if (this.types.has('vmTrace')) {
+      this.root.vmTrace = { code: bufferToHex(create ? input : await stateManager.getContractCode(new Address(to!))), ops: [] };
+    }
+  }
+
+  /**
+   * Fill the execution result of the pending operation of the frame
+   * @param frame - Frame
+   * @param step - The next step of the frame, undefined if the frame is finished
+   */
+  private finishPendingOp(frame: Frame, step?: InterpreterStep) {
+    const pending = frame.pendingOp;
+    if (!pending) {
+      return;
+    }
+    frame.pendingOp = undefined;
+    if (pending.op.ex === null) {
+      return;
+    }
+
+    if (step) {
+      const count = pushCount(pending.name);
+      pending.op.ex.push = step.stack.slice(step.stack.length - count).map((item) => bnToHex(item));
+      pending.op.ex.used = step.gasLeft.toNumber();
+      if (pending.mem) {
+        pending.op.ex.mem = { off: pending.mem.off, data: bufferToHex(sliceMemory(step.memory, pending.mem.off, pending.mem.len)) };
+      }
+    } else {
+      pending.op.ex.used = frame.gasLeft ? frame.gasLeft.toNumber() : 0;
+    }
+  }
+
+  /**
+   * Finish the top frame and push it to the parent frame
+   * @param step - The next step of the parent frame, undefined if the transaction is finished
+   */
+  private async popFrame(step?: InterpreterStep) {
+    const frame = this.frames.pop()!;
+    this.finishPendingOp(frame);
+    const parent = this.currentFrame;
+    parent.calls.push(frame);
+
+    // the result is unknown if there is no next step of the parent frame
+    if (step) {
+      if (peek(step, 0).isZero()) {
+        if (frame.error === undefined) {
+          frame.error = 'internal failure';
+        }
+      } else if (frame.type === 'create') {
+        frame.to = setLengthLeft(peek(step, 0).toArrayLike(Buffer), 20);
+        frame.code = await this.stateManager.getContractCode(new Address(frame.to));
+      } else {
+        frame.output = sliceMemory(step.memory, frame.outOffset!, frame.outLength!);
+      }
+    }
+    this.calcGasUsed(frame);
+  }
+
+  /**
+   * Calculate the gas used by the frame
+   * @param frame - Frame
+   */
+  private calcGasUsed(frame: Frame) {
+    if (frame.gas === undefined) {
+      frame.gas = new BN(0);
+    }
+    if (frame.error !== undefined && frame.error !== 'Reverted') {
+      frame.gasUsed = frame.gas.clone();
+    } else if (frame.gasLeft !== undefined) {
+      frame.gasUsed = BN.max(frame.gas.sub(frame.gasLeft), new BN(0));
+    } else {
+      frame.gasUsed = new BN(0);
+    }
+  }
+
+  /**
+   * Push a new frame for CALL, CALLCODE, DELEGATECALL, STATICCALL, CREATE and CREATE2
+   * @param step - Step state
+   * @param name - Opcode name
+   */
+  private async pushFrame(step: InterpreterStep, name: string) {
+    const parent = this.currentFrame;
+    const from = step.address.buf;
+    let frame: Frame;
+    if (name === 'CREATE' || name === 'CREATE2') {
+      const input = sliceMemory(step.memory, toNumber(peek(step, 1)), toNumber(peek(step, 2)));
+      frame = {
+        type: 'create',
+        from,
+        value: peek(step, 0).clone(),
+        input,
+        calls: []
+      };
+      if (this.types.has('stateDiff')) {
+        let address: Buffer;
+        if (name === 'CREATE') {
+          const nonce = (await this.stateManager.getAccount(step.address)).nonce;
+          address = generateAddress(from, nonce.toArrayLike(Buffer));
+        } else {
+          address = generateAddress2(from, setLengthLeft(peek(step, 3).toArrayLike(Buffer), 32), keccak256(input));
+        }
+        await this.touchAccount(address);
+      }
+    } else {
+      const to = setLengthLeft(peek(step, 1).toArrayLike(Buffer), 20);
+      const offset = name === 'DELEGATECALL' || name === 'STATICCALL' ? 0 : 1;
+      // the gas will be replaced by the gas left of the first step,
+      // if the callee has no code, it is calculated by the rule of EIP-150
+      const available = BN.max(step.gasLeft.subn(step.opcode.fee), new BN(0));
+      const gas = BN.min(peek(step, 0), available.sub(available.divn(64)));
+      if (offset === 1 && !peek(step, 2).isZero()) {
+        gas.iaddn(this.common.param('gasPrices', 'callStipend'));
+      }
+      frame = {
+        type: 'call',
+        callType: name.toLowerCase(),
+        from,
+        to,
+        value: name === 'DELEGATECALL' ? parent.value.clone() : name === 'STATICCALL' ? new BN(0) : peek(step, 2).clone(),
+        input: sliceMemory(step.memory, toNumber(peek(step, 2 + offset)), toNumber(peek(step, 3 + offset))),
+        gas,
+        outOffset: toNumber(peek(step, 4 + offset)),
+        outLength: toNumber(peek(step, 5 + offset)),
+        calls: []
+      };
+      await this.touchAccount(to);
+    }
+    this.frames.push(frame);
+  }
+
+  /**
+   * Create a vm operation for the step
+   * @param frame - Frame
+   * @param step - Step state
+   */
+  private addOperation(frame: Frame, step: InterpreterStep) {
+    const name = step.opcode.name;
+    const op: VMOperation = {
+      pc: step.pc,
+      cost: step.opcode.fee,
+      ex: { mem: null, push: [], store: null, used: 0 },
+      sub: null
+    };
+    const pending: PendingOp = { op, name };
+    if (name === 'MSTORE' || name === 'MSTORE8') {
+      pending.mem = { off: toNumber(peek(step, 0)), len: name === 'MSTORE' ? 32 : 1 };
+    } else if (name === 'CALLDATACOPY' || name === 'CODECOPY' || name === 'RETURNDATACOPY') {
+      pending.mem = { off: toNumber(peek(step, 0)), len: toNumber(peek(step, 2)) };
+    } else if (name === 'EXTCODECOPY') {
+      pending.mem = { off: toNumber(peek(step, 1)), len: toNumber(peek(step, 3)) };
+    } else if (name === 'CALL' || name === 'CALLCODE') {
+      pending.mem = { off: toNumber(peek(step, 5)), len: toNumber(peek(step, 6)) };
+    } else if (name === 'DELEGATECALL' || name === 'STATICCALL') {
+      pending.mem = { off: toNumber(peek(step, 4)), len: toNumber(peek(step, 5)) };
+    } else if (name === 'SSTORE') {
+      op.ex!.store = { key: bnToHex(peek(step, 0)), val: bnToHex(peek(step, 1)) };
+    }
+    frame.vmTrace!.ops.push(op);
+    frame.pendingOp = pending;
+  }
+
+  /**
+   * CaptureState handles every step of the execution
+   * @param step - Step state
+   */
+  async captureState(step: InterpreterStep) {
+    while (this.frames.length - 1 > step.depth) {
+      await this.popFrame(step);
+    }
+
+    const frame = this.currentFrame;
+    if (this.frames.length - 1 < step.depth) {
+      // the frame isn't recorded, ignore it
+      return;
+    }
+
+    if (frame.vmTrace === undefined && this.types.has('vmTrace')) {
+      // the first step of a sub call
+      frame.vmTrace = { code: bufferToHex(frame.type === 'create' ? frame.input : await this.stateManager.getContractCode(step.codeAddress)), ops: [] };
+      const parent = this.frames[this.frames.length - 2];
+      if (parent?.vmTrace && parent.vmTrace.ops.length > 0) {
+        parent.vmTrace.ops[parent.vmTrace.ops.length - 1].sub = frame.vmTrace;
+      }
+    }
+    if (frame.gasLeft === undefined && frame !== this.root) {
+      // the first step of a sub call
+      frame.gas = step.gasLeft.clone();
+    }
+    frame.gasLeft = step.gasLeft.subn(step.opcode.fee);
+
+    if (this.types.has('vmTrace')) {
+      this.finishPendingOp(frame, step);
+      this.addOperation(frame, step);
+    }
+
+    const name = step.opcode.name;
+    if (name === 'SLOAD' || name === 'SSTORE') {
+      await this.touchStorage(step.address.buf, setLengthLeft(peek(step, 0).toArrayLike(Buffer), 32));
+    } else if (name === 'CREATE' || name === 'CREATE2') {
+      await this.pushFrame(step, name);
+    } else if (name === 'CALL' || name === 'CALLCODE' || name === 'DELEGATECALL' || name === 'STATICCALL') {
+      const to = setLengthLeft(peek(step, 1).toArrayLike(Buffer), 20);
+      // skip precompiles, they are just fancy opcodes
+      if (getPrecompile(new Address(to), this.common) === undefined) {
+        await this.pushFrame(step, name);
+      }
+    } else if (name === 'SELFDESTRUCT') {
+      const refundAddress = setLengthLeft(peek(step, 0).toArrayLike(Buffer), 20);
+      await this.touchAccount(refundAddress);
+      frame.calls.push({
+        type: 'suicide',
+        address: step.address.buf,
+        refundAddress,
+        balance: (await this.stateManager.getAccount(step.address)).balance.clone()
+      });
+    }
+  }
+
+  /**
+   * CaptureFault records the error of the frame
+   * @param step - Step state
+   * @param err - Error
+   */
+  async captureFault(step: InterpreterStep, err: any) {
+    // the frame may be pushed by the failed step, pop it
+    while (this.frames.length - 1 > step.depth) {
+      const frame = this.frames.pop()!;
+      frame.pendingOp = undefined;
+    }
+    const frame = this.currentFrame;
+    if (frame.error === undefined) {
+      frame.error = toErrorMessage(err);
+    }
+    if (frame.pendingOp) {
+      if (frame.error !== 'Reverted') {
+        frame.pendingOp.op.ex = null;
+      }
+      this.finishPendingOp(frame);
+    }
+  }
+
+  /**
+   * CaptureEnd finishes the transaction and generates the result
+   * @param output - Output
+   * @param gasUsed - Gas used
+   * @param time - Running time
+   */
+  async captureEnd(output: Buffer, gasUsed: BN, time: number) {
+    while (this.frames.length > 1) {
+      await this.popFrame();
+    }
+    const root = this.root;
+    this.finishPendingOp(root);
+    root.output = output;
+    if (root.type === 'create' && root.error === undefined) {
+      root.code = await this.stateManager.getContractCode(new Address(root.to!));
+    }
+    if (root.error !== undefined && root.error !== 'Reverted') {
+      root.gasUsed = root.gas!.clone();
+    } else {
+      root.gasUsed = BN.max(gasUsed.sub(this.intrinsicGas), new BN(0));
+    }
+
+    this.results.push({
+      output: bufferToHex(output),
+      trace: this.types.has('trace') ? this.flatten(root, []) : [],
+      stateDiff: this.types.has('stateDiff') ? await this.makeStateDiff() : null,
+      vmTrace: root.vmTrace ?? null
+    });
+  }
+
+  /**
+   * Convert the call tree to a flat list
+   * @param frame - Call frame
+   * @param traceAddress - Trace address of the frame
+   * @returns Traces
+   */
+  private flatten(frame: Frame | Suicide, traceAddress: number[]): ParityTrace[] {
+    if (frame.type === 'suicide') {
+      return [
+        {
+          action: {
+            address: bufferToHex(frame.address),
+            balance: bnToHex(frame.balance),
+            refundAddress: bufferToHex(frame.refundAddress)
+          },
+          result: null,
+          subtraces: 0,
+          traceAddress,
+          type: 'suicide'
+        }
+      ];
+    }
+
+    const trace: ParityTrace = {
+      action:
+        frame.type === 'create'
+          ? {
+              from: bufferToHex(frame.from),
+              gas: bnToHex(frame.gas!),
+              init: bufferToHex(frame.input),
+              value: bnToHex(frame.value)
+            }
+          : {
+              callType: frame.callType,
+              from: bufferToHex(frame.from),
+              gas: bnToHex(frame.gas!),
+              input: bufferToHex(frame.input),
+              to: bufferToHex(frame.to!),
+              value: bnToHex(frame.value)
+            },
+      result: null,
+      subtraces: frame.calls.length,
+      traceAddress,
+      type: frame.type
+    };
+    if (frame.error !== undefined) {
+      trace.error = frame.error;
+    } else if (frame.type === 'create') {
+      trace.result = {
+        address: bufferToHex(frame.to ?? Buffer.alloc(0)),
+        code: bufferToHex(frame.code ?? Buffer.alloc(0)),
+        gasUsed: bnToHex(frame.gasUsed!)
+      };
+    } else {
+      trace.result = {
+        gasUsed: bnToHex(frame.gasUsed!),
+        output: bufferToHex(frame.output ?? Buffer.alloc(0))
+      };
+    }
+
+    let traces = [trace];
+    frame.calls.forEach((call, i) => {
+      traces = traces.concat(this.flatten(call, traceAddress.concat([i])));
+    });
+    return traces;
+  }
+
+  /**
+   * Compare the state of the touched accounts before and after execution
+   * @returns State diff
+   */
+  private async makeStateDiff() {
+    const stateDiff: { [address: string]: AccountDiff } = {};
+    for (const [address, pre] of this.accounts) {
+      const addr = new Address(address);
+      const exists = await this.stateManager.accountExists(addr);
+      if (!pre.exists && !exists) {
+        continue;
+      }
+
+      const account = await this.stateManager.getAccount(addr);
+      const code = exists ? await this.stateManager.getContractCode(addr) : Buffer.alloc(0);
+      const diff: AccountDiff = {
+        balance: makeDiff(pre.exists ? bnToHex(pre.balance) : undefined, exists ? bnToHex(account.balance) : undefined),
+        nonce: makeDiff(pre.exists ? bnToHex(pre.nonce) : undefined, exists ? bnToHex(account.nonce) : undefined),
+        code: makeDiff(pre.exists ? bufferToHex(pre.code) : undefined, exists ? bufferToHex(code) : undefined),
+        storage: {}
+      };
+      for (const [slot, value] of pre.storage) {
+        const postValue = exists ? setLengthLeft(await this.stateManager.getContractStorage(addr, setLengthLeft(Buffer.from(slot.substr(2), 'hex'), 32)), 32) : undefined;
+        const preValue = pre.exists ? value : undefined;
+        if (preValue && postValue && preValue.equals(postValue)) {
+          continue;
+        }
+        diff.storage[slot] = makeDiff(preValue && bufferToHex(preValue), postValue && bufferToHex(postValue));
+      }
+
+      if (diff.balance !== '=' || diff.nonce !== '=' || diff.code !== '=' || Object.keys(diff.storage).length > 0) {
+        stateDiff[addr.toString()] = diff;
+      }
+    }
+    return stateDiff;
+  }
+
+  /**
+   * Return the traces of all traced transactions
+   * @returns Traces
+   */
+  result() {
+    return this.results;
+  }
+}
@@ -0,0 +1,288 @@
+import { Address, BN, bufferToHex, toBuffer, setLengthLeft, generateAddress, generateAddress2, keccak256 } from 'ethereumjs-util';
+import { StateManager } from '@rei-network/vm/dist/state';
+import { InterpreterStep } from '@rei-network/vm/dist/evm/interpreter';
+import { calcIntrinsicGas } from '@rei-network/structure';
+import { IDebugImpl } from '../tracer';
+
+export type PrestateAccount = {
+  balance: string;
+  nonce: number;
+  code: string;
+  storage: { [slot: string]: string };
+};
+
+export type Prestate = { [address: string]: PrestateAccount };
+
+export type PrestateDiff = {
+  pre: Prestate;
+  post: { [address: string]: Partial<PrestateAccount> };
+};
+
+export type PrestateTracerConfig = {
+  // Return the pre and post state of the modified accounts, default `false`.
+  diffMode?: boolean;
+};
+
+/**
+ * Read the stack item from the top
+ * @param step - Step state
+ * @param index - Index from the top
+ * @returns Stack item
+ */
+function peek(step: InterpreterStep, index: number) {
+  return step.stack[step.stack.length - index - 1] ?? new BN(0);
+}
+
+/**
+ * Convert the stack item to number,
+ * the huge value will lose precision like the js tracer does
+ * @param value - Stack item
+ * @returns Number
+ */
+function toNumber(value: BN) {
+  return value.bitLength() > 53 ? Number(value.toString()) : value.toNumber();
+}
+
+/**
+ * PrestateTracerDebug is the native implementation of `prestateTracer`,
+ * the output is exactly the same as the js version.
+ * In diff mode, it returns the pre and post state of the modified accounts
+ */
+export class PrestateTracerDebug implements IDebugImpl {
+  hash?: Buffer;
+
+  private diffMode: boolean;
+  private prestate: Prestate | null = null;
+  private created = new Set<string>();
+  private diff: PrestateDiff = { pre: {}, post: {} };
+  private stateManager!: StateManager;
+  private ctx!: {
+    create: boolean;
+    from: Buffer;
+    to: Buffer;
+    gasPrice: BN;
+    value: BN;
+    intrinsicGas: BN;
+    gasUsed?: BN;
+  };
+
+  constructor(config?: PrestateTracerConfig, hash?: Buffer) {
+    this.diffMode = !!config?.diffMode;
+    this.hash = hash;
+  }
+
+  /**
+   * Inject the specified account into the prestate object
+   * @param address - Account address
+   */
+  private async lookupAccount(address: Buffer) {
+    const key = bufferToHex(address);
+    if (this.prestate![key] === undefined) {
+      if (this.diffMode && !(await this.stateManager.accountExists(new Address(address)))) {
+        this.created.add(key);
+      }
+      const account = await this.stateManager.getAccount(new Address(address));
+      this.prestate![key] = {
+        balance: '0x' + account.balance.toString(16),
+        nonce: account.nonce.toNumber(),
+        code: bufferToHex(await this.stateManager.getContractCode(new Address(address))),
+        storage: {}
+      };
+    }
+  }
+
+  /**
+   * Inject the specified storage entry of the given account into the prestate object
+   * @param address - Account address
+   * @param slot - Storage slot
+   */
+  private async lookupStorage(address: Buffer, slot: Buffer) {
+    await this.lookupAccount(address);
+    const storage = this.prestate![bufferToHex(address)].storage;
+    const key = bufferToHex(slot);
+    if (storage[key] === undefined) {
+      storage[key] = bufferToHex(await this.stateManager.getContractStorage(new Address(address), slot));
+    }
+  }
+
+  /**
+   * CaptureStart implements the Tracer interface to initialize the tracing operation.
+   * @param from From address
+   * @param to To address
+   * @param create Create or call
+   * @param input Input data
+   * @param gas GasLimit
+   * @param gasPrice gasPrice
+   * @param value Sent to it from it's caller
+   * @param number Blocknumber
+   * @param stateManager state trie manager
+   */
+  async captureStart(from: undefined | Buffer, to: undefined | Buffer, create: boolean, input: Buffer, gas: BN, gasPrice: BN, value: BN, number: BN, stateManager: StateManager) {
+    this.ctx = { create, from: from!, to: to!, gasPrice: gasPrice.clone(), value: value.clone(), intrinsicGas: calcIntrinsicGas(create, input) };
+    this.stateManager = stateManager;
+    if (this.diffMode) {
+      // the state hasn't been modified yet, so the balance and nonce are accurate
+      if (this.prestate === null) {
+        this.prestate = {};
+      }
+      await this.lookupAccount(from!);
+      await this.lookupAccount(to!);
+    }
+  }
+
+  /**
+   * CaptureState implements the Tracer interface to trace a single step of VM execution
+   * @param step Step state
+   */
+  async captureState(step: InterpreterStep) {
+    // add the current account if we just started tracing,
+    // balance will potentially be wrong here, since this will include the value sent along with the message
+    if (this.prestate === null) {
+      this.prestate = {};
+      await this.lookupAccount(step.address.buf);
+    }
+    // whenever new state is accessed, add it to the prestate
+    switch (step.opcode.name) {
+      case 'EXTCODECOPY':
+      case 'EXTCODESIZE':
+      case 'BALANCE':
+        await this.lookupAccount(setLengthLeft(peek(step, 0).toArrayLike(Buffer), 20));
+        break;
+      case 'CREATE': {
+        const nonce = (await this.stateManager.getAccount(step.address)).nonce;
+        await this.lookupAccount(generateAddress(step.address.buf, nonce.toArrayLike(Buffer)));
+        break;
+      }
+      case 'CREATE2': {
+        const offset = toNumber(peek(step, 1));
+        const code = step.memory.slice(offset, offset + toNumber(peek(step, 2)));
+        await this.lookupAccount(generateAddress2(step.address.buf, setLengthLeft(peek(step, 3).toArrayLike(Buffer), 32), keccak256(code)));
+        break;
+      }
+      case 'CALL':
+      case 'CALLCODE':
+      case 'DELEGATECALL':
+      case 'STATICCALL':
+        await this.lookupAccount(setLengthLeft(peek(step, 1).toArrayLike(Buffer), 20));
+        break;
+      case 'SSTORE':
+      case 'SLOAD':
+        await this.lookupStorage(step.address.buf, setLengthLeft(peek(step, 0).toArrayLike(Buffer), 32));
+        break;
+    }
+  }
+
+  /**
+   * CaptureFault implements the Tracer interface to trace an execution fault
+   * @param step Step state
+   * @param err Error message
+   */
+  async captureFault(step: InterpreterStep, err: any) {}
+
+  /**
+   * CaptureEnd implements the Tracer interface, called after the VM has finished executing
+   * @param output Output result
+   * @param gasUsed Gas used
+   * @param time Running time
+   */
+  async captureEnd(output: Buffer, gasUsed: BN, time: number) {
+    this.ctx.gasUsed = gasUsed.clone();
+    if (this.diffMode) {
+      this.diff = await this.diffState();
+    }
+  }
+
+  /**
+   * Compare the prestate with the current state,
+   * the unmodified accounts and storage slots will be ignored
+   * @returns Prestate diff
+   */
+  private async diffState() {
+    const diff: PrestateDiff = { pre: {}, post: {} };
+    for (const [key, account] of Object.entries(this.prestate ?? {})) {
+      const address = Address.fromString(key);
+      const existed = !this.created.has(key);
+      if (!(await this.stateManager.accountExists(address))) {
+        // the account has been destructed
+        if (existed) {
+          diff.pre[key] = account;
+        }
+        continue;
+      }
+
+      const current = await this.stateManager.getAccount(address);
+      const balance = '0x' + current.balance.toString(16);
+      const nonce = current.nonce.toNumber();
+      const code = bufferToHex(await this.stateManager.getContractCode(address));
+      const post: Partial<PrestateAccount> = {};
+      let modified = false;
+      if (balance !== account.balance) {
+        post.balance = balance;
+        modified = true;
+      }
+      if (nonce !== account.nonce) {
+        post.nonce = nonce;
+        modified = true;
+      }
+      if (code !== account.code) {
+        post.code = code;
+        modified = true;
+      }
+
+      const preStorage: PrestateAccount['storage'] = {};
+      const postStorage: PrestateAccount['storage'] = {};
+      for (const [slot, value] of Object.entries(account.storage)) {
+        const newValue = bufferToHex(await this.stateManager.getContractStorage(address, toBuffer(slot)));
+        if (newValue !== value) {
+          preStorage[slot] = value;
+          if (newValue !== '0x') {
+            postStorage[slot] = newValue;
+          }
+          modified = true;
+        }
+      }
+      if (Object.keys(postStorage).length > 0) {
+        post.storage = postStorage;
+      }
+
+      if (modified) {
+        if (existed) {
+          diff.pre[key] = { ...account, storage: preStorage };
+        }
+        diff.post[key] = post;
+      }
+    }
+    return diff;
+  }
+
+  /**
+   * Deduct the value from the outer transaction and move it back to the origin,
+   * or return the diff in diff mode
+   * @returns Prestate or prestate diff
+   */
+  async result() {
+    if (this.diffMode) {
+      return this.diff;
+    }
+    if (this.prestate === null) {
+      this.prestate = {};
+    }
+    const { create, from, to, gasPrice, value, intrinsicGas, gasUsed } = this.ctx;
+    await this.lookupAccount(from);
+    await this.lookupAccount(to);
+
+    const fromAccount = this.prestate[bufferToHex(from)];
+    const toAccount = this.prestate[bufferToHex(to)];
+    const fromBalance = new BN(fromAccount.balance.substr(2), 'hex');
+    const toBalance = new BN(toAccount.balance.substr(2), 'hex');
+    toAccount.balance = '0x' + toBalance.sub(value).toString(16);
+    fromAccount.balance = '0x' + fromBalance.add(value).add(gasUsed!.add(intrinsicGas).mul(gasPrice)).toString(16);
+
+    // decrement the caller's nonce, and remove empty create targets
+    fromAccount.nonce--;
+    if (create) {
+      delete this.prestate[bufferToHex(to)];
+    }
+    return this.prestate;
+  }
+}
@@ -4,9 +4,11 @@ import { Block } from '@rei-network/structure';
 import { Common } from '@rei-network/common';
 import { IDebug } from '@rei-network/vm/dist/types';
 import { hexStringToBN, hexStringToBuffer } from '@rei-network/utils';
+import { EVMWorkMode } from '@rei-network/vm/dist/evm/evm';
 import { Node } from '../node';
+import { StateManager, StateOverrides, applyStateOverrides } from '../stateManager';
 import { EMPTY_ADDRESS } from '../utils';
-import { StructLogDebug, JSDebug } from './debug';
+import { StructLogDebug, JSDebug, ParityDebug, ParityTraceType, ParityTxTrace, CallTracerDebug, PrestateTracerDebug, MuxDebug } from './debug';
 import { toAsync } from './toAsync';
 import { tracers } from './tracers';
 
@@ -19,6 +21,10 @@ export interface TraceConfig {
   disableMemory?: boolean;
   disableStack?: boolean;
   tracer?: string;
+  // Config of the named tracer, the `muxTracer` requires a map of tracer name to config.
+  tracerConfig?: any;
+  // Use the native tracer if it exists, default `true`.
+  native?: boolean;
   timeout?: string;
   // Use ast to convert synchronous functions to asynchronous, default `true`.
   toAsync?: boolean;
@@ -26,6 +32,12 @@ export interface TraceConfig {
   vmScriptsBatchSize?: number;
 }
 
+// native implementations of the named js tracers
+const nativeTracers = new Map<string, (common: Common, config: TraceConfig, hash?: Buffer) => IDebugImpl>([
+  ['callTracer', (common, config, hash) => new CallTracerDebug(common, hash)],
+  ['prestateTracer', (common, config, hash) => new PrestateTracerDebug(config.tracerConfig, hash)]
+]);
+
 /**
  * Tracer provides an implementation of Tracer that evaluates a Javascript
  * function for each VM execution step.
@@ -45,7 +57,20 @@ export class Tracer {
    * @returns Debug instance
    */
   private createDebugImpl(common: Common, reject: (reason?: any) => void, config?: TraceConfig, hash?: Buffer): IDebugImpl {
-    if (config?.tracer) {
+    if (config?.tracer === 'muxTracer') {
+      const debugs = new Map<string, IDebugImpl>();
+      for (const [name, tracerConfig] of Object.entries<any>(config.tracerConfig ?? {})) {
+        if (!nativeTracers.has(name) && !tracers.has(name)) {
+          throw new Error(`unknown tracer: ${name}`);
+        }
+        debugs.set(name, this.createDebugImpl(common, reject, { tracer: name, tracerConfig, native: config.native, timeout: config.timeout, vmScriptsBatchSize: config.vmScriptsBatchSize }));
+      }
+      return new MuxDebug(debugs, hash);
+    } else if (config?.tracer) {
+      const nativeTracer = nativeTracers.get(config.tracer);
+      if (nativeTracer && config.native !== false) {
+        return nativeTracer(common, config, hash);
+      }
       if (tracers.has(config.tracer)) {
         config.tracer = tracers.get(config.tracer)!;
         config.toAsync = true;
@@ -107,11 +132,66 @@ export class Tracer {
     return await this.traceBlock(await this.node.db.getBlockByHashAndNumber(tx.extension!.blockHash, tx.extension!.blockNumber), config, hash);
   }
 
+  /**
+   * Replay the block and generate OpenEthereum style traces for transactions
+   * @param block Block object
+   * @param types Trace types
+   * @param hash Transaction hash, all transactions will be traced if it is undefined
+   * @returns Traces of transactions
+   */
+  async replayBlock(block: Block, types: ParityTraceType[], hash?: Buffer): Promise<ParityTxTrace[]> {
+    if (block.header.number.eqn(0)) {
+      throw new Error('invalid block number, 0');
+    }
+
+    const debug = new ParityDebug(block._common, types, hash);
+    await this.node.reimint.executor.processBlock({ debug, block, force: true, skipConsensusValidation: true, skipConsensusVerify: true });
+    return debug.result();
+  }
+
+  /**
+   * Replay the block and call the callback with the state before the transaction is executed
+   * @param block Block object
+   * @param txIndex Transaction index
+   * @param cb Callback
+   * @returns Return value of the callback
+   */
+  async stateAtTransaction<T>(block: Block, txIndex: number, cb: (stateManager: StateManager) => Promise<T>): Promise<T> {
+    if (block.header.number.eqn(0)) {
+      throw new Error('invalid block number, 0');
+    }
+    if (txIndex < 0 || txIndex >= block.transactions.length) {
+      throw new Error(`transaction index ${txIndex} out of range`);
+    }
+
+    const parent = await this.node.db.getBlockByHashAndNumber(block.header.parentHash, block.header.number.subn(1));
+    if (txIndex === 0) {
+      return await cb(await this.node.getStateManager(parent.header.stateRoot, block._common, true));
+    }
+
+    let result: T | undefined;
+    const debug: IDebugImpl = {
+      hash: block.transactions[txIndex].hash(),
+      async captureStart(from, to, create, input, gas, gasPrice, value, number, stateManager) {
+        result = await cb(stateManager as StateManager);
+      },
+      async captureState() {},
+      async captureFault() {},
+      async captureEnd() {},
+      result() {
+        return result;
+      }
+    };
+    await this.node.reimint.executor.processBlock({ debug, block, force: true, skipConsensusValidation: true, skipConsensusVerify: true });
+    return result!;
+  }
+
   /**
    * traceCall trace given transaction by call vm.runCall fucntion
    * @param data Given data
    * @param block Block object
    * @param config Trace config
+   * @param overrides State override set
    * @returns Result of execution
    */
   async traceCall(
@@ -124,7 +204,8 @@ export class Tracer {
       data?: string;
     },
     block: Block,
-    config?: TraceConfig
+    config?: TraceConfig,
+    overrides?: StateOverrides
   ) {
     if (block.header.number.eqn(0)) {
       throw new Error('invalid block number, 0');
@@ -133,7 +214,11 @@ export class Tracer {
     return new Promise<any>(async (resolve, reject) => {
       try {
         const parent = await this.node.db.getBlockByHashAndNumber(block.header.parentHash, block.header.number.subn(1));
-        const vm = await this.node.getVM(parent.header.stateRoot, block.header.number.subn(1));
+        // overrides only take effect in js mode
+        const vm = await this.node.getVM(parent.header.stateRoot, block.header.number.subn(1), false, overrides ? EVMWorkMode.JS : undefined);
+        if (overrides) {
+          await applyStateOverrides(vm.stateManager as StateManager, overrides);
+        }
         const debug = this.createDebugImpl(block._common, reject, config);
         await vm.runCall({
           block,
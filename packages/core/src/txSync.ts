@@ -1,16 +1,18 @@
 import { bufferToHex } from 'ethereumjs-util';
-import { FunctionalBufferMap, FunctionalBufferSet, Channel, logger } from '@rei-network/utils';
-import { Transaction } from '@rei-network/structure';
+import { FunctionalBufferMap, FunctionalBufferSet, Channel, createLogger } from '@rei-network/utils';
+import { TypedTransaction } from '@rei-network/structure';
 import { maxTxRetrievals } from './protocols';
 import { Node } from './node';
 
+const logger = createLogger('txpool');
+
 type NewPooledTransactionMessage = {
   hashes: Buffer[];
   origin: string;
 };
 
 type EnqueuePooledTransactionMessage = {
-  txs: Transaction[];
+  txs: TypedTransaction[];
   origin: string;
 };
 
@@ -164,7 +166,7 @@ export class TxFetcher {
     try {
       for await (const message of this.enqueueTransactionQueue) {
         // TODO: check underpriced and duplicate and etc.
-        const added = (await this.node.addPendingTxs(message.txs)).map((result, i) => (result ? message.txs[i] : null)).filter((ele) => ele !== null) as Transaction[];
+        const added = (await this.node.addPendingTxs(message.txs)).map((result, i) => (result ? message.txs[i] : null)).filter((ele) => ele !== null) as TypedTransaction[];
         for (const tx of added) {
           const hash = tx.hash();
           const set = this.waitingList.get(hash);
@@ -450,7 +452,7 @@ export class TxFetcher {
    * @param origin - Remote peer
    * @param txs - Transactions
    */
-  enqueueTransaction(origin: string, txs: Transaction[]) {
+  enqueueTransaction(origin: string, txs: TypedTransaction[]) {
     this.enqueueTransactionQueue.push({ txs, origin });
   }
 }
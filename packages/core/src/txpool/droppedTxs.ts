@@ -0,0 +1,90 @@
+import { bufferToHex, intToHex } from 'ethereumjs-util';
+import { FunctionalBufferMap } from '@rei-network/utils';
+
+export type DropReason = 'underpriced' | 'nonce too low' | 'pool full' | 'lifetime expired' | 'replaced' | 'insufficient crude' | 'insufficient balance' | 'invalid';
+
+/**
+ * DroppedTransaction records why a transaction left the pool without being included
+ */
+export class DroppedTransaction {
+  readonly hash: Buffer;
+  readonly reason: DropReason;
+  readonly message?: string;
+  readonly replacedBy?: Buffer;
+  readonly timestamp: number;
+
+  constructor(hash: Buffer, reason: DropReason, message?: string, replacedBy?: Buffer, timestamp: number = Date.now()) {
+    this.hash = hash;
+    this.reason = reason;
+    this.message = message;
+    this.replacedBy = replacedBy;
+    this.timestamp = timestamp;
+  }
+
+  /**
+   * Convert to rpc json format
+   * @returns JSON object
+   */
+  toRPCJSON() {
+    return {
+      hash: bufferToHex(this.hash),
+      reason: this.reason,
+      message: this.message ?? null,
+      replacedBy: this.replacedBy ? bufferToHex(this.replacedBy) : null,
+      timestamp: intToHex(Math.floor(this.timestamp / 1000))
+    };
+  }
+}
+
+/**
+ * DroppedTxs is a bounded ring of the recently dropped transactions,
+ * the oldest record will be overwritten when the ring is full
+ */
+export class DroppedTxs {
+  private readonly capacity: number;
+  private readonly ring: DroppedTransaction[] = [];
+  private readonly hashToDropped = new FunctionalBufferMap<DroppedTransaction>();
+  private next = 0;
+
+  constructor(capacity: number) {
+    if (capacity <= 0) {
+      throw new Error('invalid capacity');
+    }
+    this.capacity = capacity;
+  }
+
+  /**
+   * Get the number of records
+   */
+  get size() {
+    return this.ring.length;
+  }
+
+  /**
+   * Add a record to the ring
+   * @param dropped - Dropped transaction
+   */
+  add(dropped: DroppedTransaction) {
+    if (this.ring.length < this.capacity) {
+      this.ring.push(dropped);
+    } else {
+      const overwritten = this.ring[this.next];
+      // the map may point to a newer record of the same transaction
+      if (this.hashToDropped.get(overwritten.hash) === overwritten) {
+        this.hashToDropped.delete(overwritten.hash);
+      }
+      this.ring[this.next] = dropped;
+      this.next = (this.next + 1) % this.capacity;
+    }
+    this.hashToDropped.set(dropped.hash, dropped);
+  }
+
+  /**
+   * Get the latest record of the transaction
+   * @param hash - Transaction hash
+   * @returns Dropped transaction
+   */
+  get(hash: Buffer) {
+    return this.hashToDropped.get(hash);
+  }
+}
@@ -1,2 +1,4 @@
 export * from './txpool';
 export * from './pendingMap';
+export * from './droppedTxs';
+export * from './privateTxs';
@@ -1,10 +1,12 @@
 import fs from 'fs';
 import path from 'path';
 import Semaphore from 'semaphore-async-await';
-import { TransactionFactory, Transaction } from '@rei-network/structure';
-import { logger } from '@rei-network/utils';
+import { TransactionFactory, TypedTransaction } from '@rei-network/structure';
+import { createLogger } from '@rei-network/utils';
 import { Node } from '../node';
 
+const logger = createLogger('txpool');
+
 const bufferSplit = Buffer.from('\r\n');
 
 /**
@@ -52,7 +54,7 @@ export class Journal {
    * Load and parse all transactions from disk
    * @param add - Callback for each transaction
    */
-  load(add: (transactions: Transaction[]) => Promise<void>) {
+  load(add: (transactions: TypedTransaction[]) => Promise<void>) {
     if (!fs.existsSync(this.path)) {
       fs.mkdirSync(this.dir, { recursive: true });
       return;
@@ -60,7 +62,7 @@ export class Journal {
 
     return new Promise<boolean>(async (resolve) => {
       const inputer = fs.createReadStream(this.path, { autoClose: true });
-      let batch: Transaction[] = [];
+      let batch: TypedTransaction[] = [];
       let bufferInput: Buffer | undefined;
       inputer.on('data', (chunk: Buffer) => {
         try {
@@ -74,8 +76,14 @@ export class Journal {
             if (i === -1) {
               break;
             }
-            const tx = TransactionFactory.fromSerializedData(bufferInput.slice(0, i), { common: this.node.getLatestCommon() });
-            if (tx instanceof Transaction) {
+            let tx: TypedTransaction | undefined;
+            try {
+              tx = TransactionFactory.fromSerializedData(bufferInput.slice(0, i), { common: this.node.getLatestCommon() });
+            } catch (err) {
+              // ignore the transaction whose type isn't supported
+              logger.debug('Jonunal::load, parse transaction failed:', err);
+            }
+            if (tx) {
               batch.push(tx);
               if (batch.length > 1024) {
                 add(batch);
@@ -108,7 +116,7 @@ export class Journal {
    * Write transaction rlp to the disk
    * @param tx - Transaction
    */
-  async insert(tx: Transaction) {
+  async insert(tx: TypedTransaction) {
     await this.lock.acquire();
     this.createWritterIfNotExists();
     await new Promise<void>((resolve) => {
@@ -126,7 +134,7 @@ export class Journal {
    * Rotate all transactions in memory
    * @param all - The map contains all transactions
    */
-  async rotate(all: Map<Buffer, Transaction[]>) {
+  async rotate(all: Map<Buffer, TypedTransaction[]>) {
     await this.lock.acquire();
     try {
       await this.closeWritter();
@@ -1,20 +1,28 @@
 import Heap from 'qheap';
-import { Transaction } from '@rei-network/structure';
+import { BN } from 'ethereumjs-util';
+import { TypedTransaction, calcEffectiveGasTip } from '@rei-network/structure';
 import { FunctionalBufferMap } from '@rei-network/utils';
 
 /**
  * PendingTxMap record pending transactions
  */
 export class PendingTxMap {
-  private heap = new Heap({ comparBefore: (a: Transaction, b: Transaction) => a.gasPrice.gt(b.gasPrice) });
-  private txs = new FunctionalBufferMap<Transaction[]>();
+  private heap: Heap;
+  private txs = new FunctionalBufferMap<TypedTransaction[]>();
+
+  /**
+   * @param baseFee - Base fee of the pending block, transactions are sorted by the effective tip under it
+   */
+  constructor(baseFee?: BN) {
+    this.heap = new Heap({ comparBefore: (a: TypedTransaction, b: TypedTransaction) => calcEffectiveGasTip(a, baseFee).gt(calcEffectiveGasTip(b, baseFee)) });
+  }
 
   /**
    * Push record to the map
    * @param sender - Transaction sender
    * @param sortedTxs - Transactions sorted by nonce
    */
-  push(sender: Buffer, sortedTxs: Transaction[]) {
+  push(sender: Buffer, sortedTxs: TypedTransaction[]) {
     if (sortedTxs.length > 0) {
       this.heap.push(sortedTxs.slice(0, 1)[0]);
       if (sortedTxs.length > 1) {
@@ -27,7 +35,7 @@ export class PendingTxMap {
    * Return the value at the top of the heap
    * @returns Transaction
    */
-  peek(): Transaction | undefined {
+  peek(): TypedTransaction | undefined {
     return this.heap.peek();
   }
 
@@ -37,7 +45,7 @@ export class PendingTxMap {
    * push first to the heap, else delete the sender from map
    */
   shift() {
-    const tx: Transaction | undefined = this.heap.remove();
+    const tx: TypedTransaction | undefined = this.heap.remove();
     if (tx) {
       const sender = tx.getSenderAddress().buf;
       const nextTx = this.txs.get(sender);
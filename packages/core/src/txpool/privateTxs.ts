@@ -0,0 +1,155 @@
+import { BN } from 'ethereumjs-util';
+import { TypedTransaction } from '@rei-network/structure';
+import { FunctionalBufferMap } from '@rei-network/utils';
+import { PendingTxMap } from './pendingMap';
+import { cmpPrice } from './txPricedList';
+
+/**
+ * PrivateTransaction is a transaction that is only included
+ * by the local node and never announced to peers
+ */
+export class PrivateTransaction {
+  readonly tx: TypedTransaction;
+  readonly maxBlockNumber: BN;
+
+  constructor(tx: TypedTransaction, maxBlockNumber: BN) {
+    this.tx = tx;
+    this.maxBlockNumber = maxBlockNumber.clone();
+  }
+}
+
+/**
+ * PrivateTxs records private transactions until they are included or expired
+ */
+export class PrivateTxs {
+  private readonly capacity: number;
+  private readonly accountCapacity: number;
+  private readonly txs = new FunctionalBufferMap<PrivateTransaction>();
+  // number of private transactions of each sender
+  private readonly counts = new FunctionalBufferMap<number>();
+
+  constructor(capacity: number, accountCapacity: number) {
+    if (capacity <= 0 || accountCapacity <= 0) {
+      throw new Error('invalid capacity');
+    }
+    this.capacity = capacity;
+    this.accountCapacity = accountCapacity;
+  }
+
+  /**
+   * Get the number of private transactions
+   */
+  get size() {
+    return this.txs.size;
+  }
+
+  /**
+   * Delete the private transaction
+   * @param hash - Transaction hash
+   * @param ptx - Private transaction
+   */
+  private delete(hash: Buffer, ptx: PrivateTransaction) {
+    this.txs.delete(hash);
+    const sender = ptx.tx.getSenderAddress().buf;
+    const count = this.counts.get(sender)! - 1;
+    if (count > 0) {
+      this.counts.set(sender, count);
+    } else {
+      this.counts.delete(sender);
+    }
+  }
+
+  /**
+   * Add a private transaction,
+   * if the transactions are full, the cheapest one will be evicted like the public pool
+   * @param tx - Transaction
+   * @param maxBlockNumber - The last block number that the transaction can be included in
+   * @param baseFee - Base fee of the pending block
+   * @returns The evicted transaction
+   */
+  add(tx: TypedTransaction, maxBlockNumber: BN, baseFee?: BN) {
+    const hash = tx.hash();
+    if (this.txs.has(hash)) {
+      throw new Error('already known');
+    }
+    const sender = tx.getSenderAddress().buf;
+    const count = this.counts.get(sender) ?? 0;
+    if (count >= this.accountCapacity) {
+      throw new Error(`too many private transactions from the account, limit: ${this.accountCapacity}`);
+    }
+
+    let evicted: PrivateTransaction | undefined;
+    if (this.txs.size >= this.capacity) {
+      for (const ptx of this.txs.values()) {
+        if (!evicted || cmpPrice(ptx.tx, evicted.tx, baseFee) < 0) {
+          evicted = ptx;
+        }
+      }
+      if (!evicted || cmpPrice(tx, evicted.tx, baseFee) <= 0) {
+        throw new Error('private transactions full');
+      }
+      this.delete(evicted.tx.hash(), evicted);
+    }
+
+    this.txs.set(hash, new PrivateTransaction(tx, maxBlockNumber));
+    this.counts.set(sender, (this.counts.get(sender) ?? 0) + 1);
+    return evicted;
+  }
+
+  /**
+   * Check whether the private transaction exists
+   * @param hash - Transaction hash
+   */
+  has(hash: Buffer) {
+    return this.txs.has(hash);
+  }
+
+  /**
+   * Remove the private transactions that can't be included in the block,
+   * including expired transactions and transactions with stale nonce
+   * @param number - Block number
+   * @param isStale - Check whether the nonce of the transaction is stale
+   * @returns Removed transactions
+   */
+  async prune(number: BN, isStale: (tx: TypedTransaction) => Promise<boolean>) {
+    const removed: PrivateTransaction[] = [];
+    for (const [hash, ptx] of this.txs) {
+      if (ptx.maxBlockNumber.lt(number) || (await isStale(ptx.tx))) {
+        this.delete(hash, ptx);
+        removed.push(ptx);
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Get the private transactions that can be included in the block
+   * @param number - Block number
+   * @param baseFee - Base fee of the block
+   * @returns A PendingTxMap object
+   */
+  getPendingTxMap(number: BN, baseFee?: BN) {
+    const senderToTxs = new FunctionalBufferMap<TypedTransaction[]>();
+    for (const { tx, maxBlockNumber } of this.txs.values()) {
+      if (maxBlockNumber.lt(number)) {
+        continue;
+      }
+      const sender = tx.getSenderAddress().buf;
+      const txs = senderToTxs.get(sender);
+      if (txs) {
+        txs.push(tx);
+      } else {
+        senderToTxs.set(sender, [tx]);
+      }
+    }
+
+    const pendingMap = new PendingTxMap(baseFee);
+    for (const [sender, txs] of senderToTxs) {
+      pendingMap.push(
+        sender,
+        txs.sort((a, b) => a.nonce.cmp(b.nonce))
+      );
+    }
+    return pendingMap;
+  }
+}
@@ -1,16 +1,60 @@
 import { BN } from 'ethereumjs-util';
 import Heap from 'qheap';
-import { Transaction } from '@rei-network/structure';
-import { txSlots } from './utils';
+import { TypedTransaction, calcEffectiveGasTip } from '@rei-network/structure';
+import { txSlots, txGasFeeCap } from './utils';
+
+/**
+ * Compare the price of transactions by the effective tip,
+ * the fee cap is used to break the tie
+ * @param a - Transaction a
+ * @param b - Transaction b
+ * @param baseFee - Base fee, `undefined` if EIP-1559 isn't enabled
+ * @returns Positive if a is more expensive than b, negative if cheaper, `0` if equal
+ */
+export function cmpPrice(a: TypedTransaction, b: TypedTransaction, baseFee?: BN) {
+  const c = calcEffectiveGasTip(a, baseFee).cmp(calcEffectiveGasTip(b, baseFee));
+  if (c !== 0) {
+    return c;
+  }
+  return txGasFeeCap(a).cmp(txGasFeeCap(b));
+}
 
 export class TxPricedList {
   remotes: Heap;
   stales: number;
-  all: Map<Buffer, Transaction>;
-  constructor(all: Map<Buffer, Transaction>) {
+  all: Map<Buffer, TypedTransaction>;
+  baseFee?: BN;
+  // local transactions are exempt from eviction, so they aren't tracked
+  isLocal: (tx: TypedTransaction) => boolean;
+  constructor(all: Map<Buffer, TypedTransaction>, isLocal: (tx: TypedTransaction) => boolean = () => false) {
     this.all = all;
+    this.isLocal = isLocal;
     this.stales = 0;
-    this.remotes = new Heap({ comparBefore: (a: Transaction, b: Transaction) => b.gasPrice.gt(a.gasPrice) });
+    this.remotes = this.newHeap();
+  }
+
+  /**
+   * Whether the transaction in the heap should be ignored,
+   * it was removed from the pool or it is a local transaction
+   * @param tx - Transaction
+   * @returns `true` if it should be ignored
+   */
+  private isStale(tx: TypedTransaction) {
+    return !this.all.has(tx.hash()) || this.isLocal(tx);
+  }
+
+  private newHeap() {
+    return new Heap({ comparBefore: (a: TypedTransaction, b: TypedTransaction) => cmpPrice(a, b, this.baseFee) < 0 });
+  }
+
+  /**
+   * Update the base fee and reheap,
+   * the order of EIP-1559 transactions depends on the base fee
+   * @param baseFee - Base fee of the pending block, `undefined` if EIP-1559 isn't enabled
+   */
+  setBaseFee(baseFee?: BN) {
+    this.baseFee = baseFee;
+    this.reheap();
   }
 
   /**
@@ -18,7 +62,7 @@ export class TxPricedList {
    * @param tx - The new transaction
    * @param local - Determine whether the transaction is local
    */
-  put(tx: Transaction, local: boolean) {
+  put(tx: TypedTransaction, local: boolean) {
     if (local) {
       return;
     }
@@ -45,16 +89,16 @@ export class TxPricedList {
    * @param threshold The gasfee threshold of transaction
    * @returns The transactions to be abandoned
    */
-  cap(threshold: BN): Transaction[] {
-    const drop: Transaction[] = [];
+  cap(threshold: BN): TypedTransaction[] {
+    const drop: TypedTransaction[] = [];
     while (this.remotes.length > 0) {
-      const cheapest: Transaction = this.remotes.peek();
-      if (!this.all.has(cheapest.hash())) {
+      const cheapest: TypedTransaction = this.remotes.peek();
+      if (this.isStale(cheapest)) {
         this.remotes.remove();
         this.stales--;
         continue;
       }
-      if (cheapest.gasPrice.gte(threshold)) {
+      if (calcEffectiveGasTip(cheapest, this.baseFee).gte(threshold)) {
         break;
       }
       this.remotes.remove();
@@ -69,10 +113,10 @@ export class TxPricedList {
    * @param tx The transaction to be checked
    * @returns Wheather the transaction is cheaper or not
    */
-  underpriced(tx: Transaction): boolean {
+  underpriced(tx: TypedTransaction): boolean {
     while (this.remotes.length > 0) {
-      const head: Transaction = this.remotes.peek();
-      if (!this.all.has(head.hash())) {
+      const head: TypedTransaction = this.remotes.peek();
+      if (this.isStale(head)) {
         this.stales--;
         this.remotes.remove();
         continue;
@@ -82,8 +126,8 @@ export class TxPricedList {
     if (this.remotes.length == 0) {
       return false;
     }
-    const cheapest: Transaction = this.remotes.peek();
-    return cheapest.gasPrice.gt(tx.gasPrice);
+    const cheapest: TypedTransaction = this.remotes.peek();
+    return cmpPrice(cheapest, tx, this.baseFee) > 0;
   }
 
   /**
@@ -93,11 +137,11 @@ export class TxPricedList {
    * @param force Mandatory or not
    * @returns A number of most underpriced transactions
    */
-  discard(slots: number, force: boolean): [Transaction[] | undefined, boolean] {
-    const drop: Transaction[] = [];
+  discard(slots: number, force: boolean): [TypedTransaction[] | undefined, boolean] {
+    const drop: TypedTransaction[] = [];
     while (this.remotes.length > 0 && slots > 0) {
-      const tx: Transaction = this.remotes.remove();
-      if (!this.all.has(tx.hash())) {
+      const tx: TypedTransaction = this.remotes.remove();
+      if (this.isStale(tx)) {
         this.stales--;
         continue;
       }
@@ -114,13 +158,15 @@ export class TxPricedList {
   }
 
   /**
-   * Reset heap
+   * Reset heap, only the remote transactions are pushed
    */
   reheap() {
-    const reheap = new Heap({ comparBefore: (a: Transaction, b: Transaction) => b.gasPrice.gt(a.gasPrice) });
+    const reheap = this.newHeap();
     this.stales = 0;
     this.all.forEach((val, key, map) => {
-      reheap.push(val);
+      if (!this.isLocal(val)) {
+        reheap.push(val);
+      }
     });
     this.remotes = reheap;
   }
@@ -1,18 +1,20 @@
 import { BN } from 'ethereumjs-util';
 import Heap from 'qheap';
-import { Transaction } from '@rei-network/structure';
-import { logger, FunctionalBNMap } from '@rei-network/utils';
-import { txSlots, txCost } from './utils';
+import { TypedTransaction } from '@rei-network/structure';
+import { createLogger, FunctionalBNMap } from '@rei-network/utils';
+import { txSlots, txCost, txGasFeeCap, txGasTipCap } from './utils';
+
+const logger = createLogger('txpool');
 
 /**
  * TxSortedMap is a nonce->transaction hash map with a heap based index to allow
  * iterating over the contents in a nonce-incrementing way.
  */
 export class TxSortedMap {
-  readonly nonceToTx = new FunctionalBNMap<Transaction>();
+  readonly nonceToTx = new FunctionalBNMap<TypedTransaction>();
   private readonly strict: boolean;
   private nonceHeap: Heap;
-  private sortedTxCache?: Transaction[];
+  private sortedTxCache?: TypedTransaction[];
   private _slots: number = 0;
 
   constructor(strict: boolean) {
@@ -24,7 +26,7 @@ export class TxSortedMap {
    * Increase slots by given transactions
    * @param txs - Transactions
    */
-  private increaseSlots(txs: Transaction | Transaction[]) {
+  private increaseSlots(txs: TypedTransaction | TypedTransaction[]) {
     txs = Array.isArray(txs) ? txs : [txs];
     for (const tx of txs) {
       this._slots += txSlots(tx);
@@ -35,7 +37,7 @@ export class TxSortedMap {
    * Decrease slots by given transactions
    * @param txs - Transactions
    */
-  private decreaseSlots(txs: Transaction | Transaction[]) {
+  private decreaseSlots(txs: TypedTransaction | TypedTransaction[]) {
     txs = Array.isArray(txs) ? txs : [txs];
     for (const tx of txs) {
       this._slots -= txSlots(tx);
@@ -64,7 +66,7 @@ export class TxSortedMap {
    * @param nonce - Threshold
    * @param invalids - Invalid transactions array
    */
-  private strictCheck(nonce: BN, invalids: Transaction[]) {
+  private strictCheck(nonce: BN, invalids: TypedTransaction[]) {
     if (this.strict) {
       for (const [key, value] of this.nonceToTx) {
         if (value.nonce.gt(nonce)) {
@@ -94,7 +96,7 @@ export class TxSortedMap {
    * @returns Removed transactions
    */
   back(nonce: BN) {
-    const removed: Transaction[] = [];
+    const removed: TypedTransaction[] = [];
     let nonceInHeap: BN = this.nonceHeap.peek();
     while (nonceInHeap && nonceInHeap.gte(nonce)) {
       const tx = this.nonceToTx.get(nonceInHeap)!;
@@ -117,7 +119,7 @@ export class TxSortedMap {
    * @returns Removed transactions
    */
   forward(nonce: BN) {
-    const removed: Transaction[] = [];
+    const removed: TypedTransaction[] = [];
     let nonceInHeap: BN = this.nonceHeap.peek();
     while (nonceInHeap && nonceInHeap.lt(nonce)) {
       const tx = this.nonceToTx.get(nonceInHeap)!;
@@ -139,7 +141,7 @@ export class TxSortedMap {
    * @returns Removed transactions
    */
   resize(size: number) {
-    const removed: Transaction[] = [];
+    const removed: TypedTransaction[] = [];
     if (this.size <= size) {
       return removed;
     }
@@ -162,14 +164,22 @@ export class TxSortedMap {
    * Push a new transaction to the map
    * @param tx - New transaction
    * @param priceBump - Price bump threshold, if the same nonce exsists in the map,
-   * the gasPrice of the new transaction should be greater or equal to `old.gasPrice * (1 + priceBump / 100)`
+   * both the fee cap and the tip cap of the new transaction should be greater or equal to `old * (1 + priceBump / 100)`
    * @returns Whether the insertion is successful and old transaction(if exsists)
    */
-  push(tx: Transaction, priceBump: number): { inserted: boolean; old?: Transaction } {
+  push(tx: TypedTransaction, priceBump: number): { inserted: boolean; old?: TypedTransaction } {
     const nonce = tx.nonce;
     const old = this.nonceToTx.get(nonce);
     if (old) {
-      if (tx.gasPrice.muln(100).lt(new BN(priceBump + 100).mul(old.gasPrice))) {
+      const bump = new BN(priceBump + 100);
+      if (
+        txGasFeeCap(tx)
+          .muln(100)
+          .lt(bump.mul(txGasFeeCap(old))) ||
+        txGasTipCap(tx)
+          .muln(100)
+          .lt(bump.mul(txGasTipCap(old)))
+      ) {
         return {
           inserted: false
         };
@@ -192,11 +202,11 @@ export class TxSortedMap {
    * @param nonce - Transaction nonce
    * @returns Whether to delete successful and invalid transactions
    */
-  delete(nonce: BN): { deleted: boolean; invalids?: Transaction[] } {
+  delete(nonce: BN): { deleted: boolean; invalids?: TypedTransaction[] } {
     const removedTx = this.nonceToTx.get(nonce);
     if (removedTx) {
       this.nonceToTx.delete(nonce);
-      const invalids: Transaction[] = [];
+      const invalids: TypedTransaction[] = [];
       this.strictCheck(nonce, invalids);
       this.resetNonceHeap(this.nonceToTx.keys());
       this.decreaseSlots(invalids.concat(removedTx));
@@ -218,9 +228,9 @@ export class TxSortedMap {
    * @param gasLimit - Gas limit threshold
    * @returns Removed transactions and invalid transactions
    */
-  filter(balance: BN, gasLimit: BN): { removed: Transaction[]; invalids: Transaction[] } {
+  filter(balance: BN, gasLimit: BN): { removed: TypedTransaction[]; invalids: TypedTransaction[] } {
     let lowestNonce: BN | undefined;
-    const removed: Transaction[] = [];
+    const removed: TypedTransaction[] = [];
     for (const [key, value] of this.nonceToTx) {
       if (txCost(value).gt(balance) || value.gasLimit.gt(gasLimit)) {
         lowestNonce = lowestNonce ? (lowestNonce.gt(key) ? key : lowestNonce) : key;
@@ -228,7 +238,7 @@ export class TxSortedMap {
         this.nonceToTx.delete(key);
       }
     }
-    const invalids: Transaction[] = [];
+    const invalids: TypedTransaction[] = [];
     if (lowestNonce) {
       this.strictCheck(lowestNonce, invalids);
     }
@@ -246,9 +256,9 @@ export class TxSortedMap {
    * @param start - Start nonce
    * @returns Ready transactions
    */
-  ready(start: BN): Transaction[] {
+  ready(start: BN): TypedTransaction[] {
     const nonce = start.clone();
-    const readies: Transaction[] = [];
+    const readies: TypedTransaction[] = [];
     let nonceInHeap: BN = this.nonceHeap.peek();
     while (nonceInHeap && nonceInHeap.eq(nonce)) {
       readies.push(this.nonceToTx.get(nonceInHeap)!);
@@ -268,7 +278,7 @@ export class TxSortedMap {
    * Clear all transactions
    * @returns Removed transactions
    */
-  clear(): Transaction[] {
+  clear(): TypedTransaction[] {
     const removed = Array.from(this.nonceToTx.values());
     this.nonceToTx.clear();
     this.resetNonceHeap();
@@ -281,7 +291,7 @@ export class TxSortedMap {
    * Return a list of transactions, order by nonce
    * @returns Transactions
    */
-  toList(): Transaction[] {
+  toList(): TypedTransaction[] {
     if (this.sortedTxCache) {
       return this.sortedTxCache;
     }
@@ -1,21 +1,25 @@
 import EventEmitter from 'events';
-import { BN, Address, bufferToHex } from 'ethereumjs-util';
+import { BN, Address, bufferToHex, toChecksumAddress } from 'ethereumjs-util';
 import Semaphore from 'semaphore-async-await';
 import Heap from 'qheap';
-import { FunctionalBufferMap, FunctionalBufferSet, AbortableTimer, logger } from '@rei-network/utils';
-import { Transaction, BlockHeader, Block } from '@rei-network/structure';
+import { FunctionalBufferMap, FunctionalBufferSet, AbortableTimer, createLogger } from '@rei-network/utils';
+import { TypedTransaction, BlockHeader, Block } from '@rei-network/structure';
 import { Node } from '../node';
-import { getGasLimitByCommon } from '../utils';
+import { getGasLimitByCommon, calcNextBaseFee } from '../utils';
 import { StateManager } from '../stateManager';
 import { TxSortedMap } from './txmap';
 import { PendingTxMap } from './pendingMap';
 import { TxPricedList } from './txPricedList';
 import { Journal } from './journal';
-import { txSlots, checkTxIntrinsicGas } from './utils';
-import { isEnableDAO, isEnableFreeStaking } from '../hardforks';
+import { DroppedTxs, DroppedTransaction, DropReason } from './droppedTxs';
+import { PrivateTxs } from './privateTxs';
+import { txSlots, checkTxIntrinsicGas, txGasFeeCap, txGasTipCap } from './utils';
+import { isEnableDAO, isEnableFreeStaking, isEnableTxType } from '../hardforks';
 import { validateTx } from '../validation';
 import { Fee } from '../reimint/contracts';
 
+const logger = createLogger('txpool');
+
 const defaultTxMaxSize = 32768 * 4;
 const defaultPriceLimit = new BN(1);
 const defaultPriceBump = 10;
@@ -26,6 +30,75 @@ const defaultGlobalQueue = 1024;
 const defaultLifeTime = 1000 * 60 * 60 * 3; // 3 hours
 const defaultTimeoutInterval = 1000 * 60; // 1 minutes
 const defaultRejournalInterval = 1000 * 60 * 60; // 1 hours
+const defaultDroppedLimit = 4096;
+const defaultPrivateLimit = 1024;
+const defaultPrivateAccountLimit = 16;
+
+type PoolContent<T> = { pending: { [address: string]: { [nonce: string]: T } }; queued: { [address: string]: { [nonce: string]: T } } };
+
+/**
+ * Get the summary string of the transaction, the format is the same as geth
+ * @param tx - Transaction
+ * @returns Summary string
+ */
+function summarizeTx(tx: TypedTransaction) {
+  const to = tx.to ? toChecksumAddress(tx.to.toString()) : 'contract creation';
+  return `${to}: ${tx.value.toString()} wei + ${tx.gasLimit.toString()} gas × ${txGasFeeCap(tx).toString()} wei`;
+}
+
+/**
+ * Get the drop reason by the error message of transaction validation
+ * @param message - Error message
+ * @returns Drop reason
+ */
+function toDropReason(message: string): DropReason {
+  if (message.startsWith('nonce too low')) {
+    return 'nonce too low';
+  } else if (message.startsWith('gasPrice too low')) {
+    return 'underpriced';
+  } else if (message.includes('upfront cost')) {
+    // the upfront cost is paid by balance and crude after free staking is enabled
+    return 'insufficient crude';
+  } else if (message.startsWith('balance is not enough') || message.startsWith("sender doesn't have enough funds")) {
+    return 'insufficient balance';
+  }
+  return 'invalid';
+}
+
+/**
+ * Collect the pending and queued transactions of the accounts,
+ * group by the address and the nonce
+ * @param accounts - Accounts
+ * @param format - Format function of the transaction
+ * @returns Pool content
+ */
+function collectPoolContent<T>(accounts: Iterable<[Buffer, TxPoolAccount]>, format: (tx: TypedTransaction) => T) {
+  const result: PoolContent<T> = { pending: {}, queued: {} };
+  function forceGet<T>(obj: { [name: string]: T }, name: string) {
+    let val = obj[name];
+    if (val === undefined) {
+      val = {} as any;
+      Object.defineProperty(obj, name, { value: val, enumerable: true });
+    }
+    return val;
+  }
+  for (const [sender, account] of accounts) {
+    const address = bufferToHex(sender);
+    if (account.hasPending()) {
+      const pendingObj = forceGet(result.pending, address);
+      for (const [nonce, tx] of account.pending.nonceToTx) {
+        Object.defineProperty(pendingObj, nonce.toString(), { value: format(tx), enumerable: true });
+      }
+    }
+    if (account.hasQueue()) {
+      const queuedObj = forceGet(result.queued, address);
+      for (const [nonce, tx] of account.queue.nonceToTx) {
+        Object.defineProperty(queuedObj, nonce.toString(), { value: format(tx), enumerable: true });
+      }
+    }
+  }
+  return result;
+}
 
 /**
  * TxPoolAccount contains pending, queued transaction and pending nonce of each account
@@ -106,12 +179,21 @@ export interface TxPoolOptions {
   lifetime?: number;
   timeoutInterval?: number;
   rejournalInterval?: number;
+
+  droppedLimit?: number;
+  privateLimit?: number;
+  privateAccountLimit?: number;
+
+  locals?: Address[];
+  noLocals?: boolean;
 }
 
 export declare interface TxPool {
-  on(event: 'readies', listener: (readies: Transaction[]) => void): this;
+  on(event: 'readies', listener: (readies: TypedTransaction[]) => void): this;
+  on(event: 'dropped', listener: (dropped: DroppedTransaction[]) => void): this;
 
-  off(event: 'readies', listener: (readies: Transaction[]) => void): this;
+  off(event: 'readies', listener: (readies: TypedTransaction[]) => void): this;
+  off(event: 'dropped', listener: (dropped: DroppedTransaction[]) => void): this;
 }
 
 /**
@@ -121,10 +203,12 @@ export class TxPool extends EventEmitter {
   private readonly node: Node;
   private readonly accounts = new FunctionalBufferMap<TxPoolAccount>();
   private readonly locals = new FunctionalBufferSet();
-  private readonly txs = new FunctionalBufferMap<Transaction>();
+  private readonly txs = new FunctionalBufferMap<TypedTransaction>();
   private readonly lock = new Semaphore(1);
   private readonly timeoutTimer = new AbortableTimer();
   private readonly rejournalTimer = new AbortableTimer();
+  private readonly dropped: DroppedTxs;
+  private readonly privates: PrivateTxs;
 
   private aborted: boolean = false;
 
@@ -133,6 +217,7 @@ export class TxPool extends EventEmitter {
 
   private currentHeader!: BlockHeader;
   private currentStateManager!: StateManager;
+  private baseFee?: BN;
 
   private txMaxSize: number;
 
@@ -151,6 +236,8 @@ export class TxPool extends EventEmitter {
   private timeoutInterval: number;
   private rejournalInterval: number;
 
+  private noLocals: boolean;
+
   private totalAmount?: BN;
   private dailyFee?: BN;
 
@@ -167,11 +254,14 @@ export class TxPool extends EventEmitter {
     this.lifetime = options.lifetime ?? defaultLifeTime;
     this.timeoutInterval = options.timeoutInterval ?? defaultTimeoutInterval;
     this.rejournalInterval = options.rejournalInterval ?? defaultRejournalInterval;
+    this.dropped = new DroppedTxs(options.droppedLimit ?? defaultDroppedLimit);
+    this.privates = new PrivateTxs(options.privateLimit ?? defaultPrivateLimit, options.privateAccountLimit ?? defaultPrivateAccountLimit);
+    this.noLocals = options.noLocals ?? false;
 
     this.node = options.node;
-    this.priced = new TxPricedList(this.txs);
-    for (const buf of this.node.accMngr.totalUnlockedAccounts()) {
-      this.locals.add(buf);
+    this.priced = new TxPricedList(this.txs, (tx) => this.locals.has(tx.getSenderAddress().buf));
+    for (const address of options.locals ?? []) {
+      this.locals.add(address.buf);
     }
     if (options.journal) {
       this.journal = new Journal(options.journal, this.node);
@@ -189,17 +279,14 @@ export class TxPool extends EventEmitter {
     }
   }
 
-  private local(): Map<Buffer, Transaction[]> {
-    const txs = new FunctionalBufferMap<Transaction[]>();
+  private local(): Map<Buffer, TypedTransaction[]> {
+    const txs = new FunctionalBufferMap<TypedTransaction[]>();
     for (const addrBuf of this.locals) {
       const account = this.accounts.get(addrBuf);
       if (account?.hasPending()) {
         const transactions = txs.get(addrBuf);
         if (transactions) {
-          const listtxs = account.pending.toList();
-          for (const tx of listtxs) {
-            transactions.push(tx as Transaction);
-          }
+          transactions.push(...account.pending.toList());
         } else {
           txs.set(addrBuf, account.pending.toList());
         }
@@ -207,10 +294,7 @@ export class TxPool extends EventEmitter {
       if (account?.hasQueue()) {
         const transactions = txs.get(addrBuf);
         if (transactions) {
-          const listtxs = account.queue.toList();
-          for (const tx of listtxs) {
-            transactions.push(tx as Transaction);
-          }
+          transactions.push(...account.queue.toList());
         } else {
           txs.set(addrBuf, account.queue.toList());
         }
@@ -228,6 +312,7 @@ export class TxPool extends EventEmitter {
         if (account.hasQueue() && Date.now() - account.timestamp > this.lifetime) {
           const queue = account.queue.clear();
           this.removeTxFromGlobal(queue);
+          this.recordDropped(queue, 'lifetime expired');
         }
       }
 
@@ -245,9 +330,28 @@ export class TxPool extends EventEmitter {
     }
   }
 
-  private emitReadies(readies?: Map<Buffer, Transaction[]>) {
+  /**
+   * Record the dropped transactions and notify listeners
+   * @param txs - Dropped transactions
+   * @param reason - Drop reason
+   * @param message - Detailed message
+   * @param replacedBy - Hash of the new transaction, if the transaction was replaced
+   */
+  private recordDropped(txs: TypedTransaction | TypedTransaction[], reason: DropReason, message?: string, replacedBy?: Buffer) {
+    txs = Array.isArray(txs) ? txs : [txs];
+    if (txs.length === 0) {
+      return;
+    }
+    const dropped = txs.map((tx) => new DroppedTransaction(tx.hash(), reason, message, replacedBy));
+    for (const d of dropped) {
+      this.dropped.add(d);
+    }
+    this.emit('dropped', dropped);
+  }
+
+  private emitReadies(readies?: Map<Buffer, TypedTransaction[]>) {
     if (readies) {
-      let txs: Transaction[] = [];
+      let txs: TypedTransaction[] = [];
       for (const list of readies.values()) {
         txs = txs.concat(list);
       }
@@ -264,8 +368,17 @@ export class TxPool extends EventEmitter {
     }
 
     return (this.initPromise = (async () => {
+      // accounts are unlocked after the pool is created,
+      // so treat them as locals here
+      if (!this.noLocals) {
+        for (const buf of this.node.accMngr.totalUnlockedAccounts()) {
+          this.locals.add(buf);
+        }
+      }
+
       this.currentHeader = block.header;
       this.currentStateManager = await this.node.getStateManager(this.currentHeader.stateRoot, this.currentHeader._common);
+      this.updateBaseFee();
 
       if (isEnableFreeStaking(this.currentHeader._common)) {
         this.totalAmount = await Fee.getTotalAmount(this.currentStateManager);
@@ -283,8 +396,8 @@ export class TxPool extends EventEmitter {
       }
 
       if (this.journal) {
-        await this.journal.load(async (txs: Transaction[]) => {
-          let news: Transaction[] = [];
+        await this.journal.load(async (txs: TypedTransaction[]) => {
+          let news: TypedTransaction[] = [];
           for (const tx of txs) {
             if (this.txs.has(tx.hash())) {
               continue;
@@ -297,7 +410,7 @@ export class TxPool extends EventEmitter {
           if (news.length == 0) {
             return;
           }
-          await this.node.addPendingTxs(news);
+          await this.node.addPendingTxs(news, true);
         });
       }
     })());
@@ -345,14 +458,14 @@ export class TxPool extends EventEmitter {
     await this.initPromise;
     return await this.runWithLock(async () => {
       try {
-        let discarded: Transaction[] = [];
+        let discarded: TypedTransaction[] = [];
         const included = new FunctionalBufferSet();
         const originalNewBlock = newBlock;
 
         if (!force) {
           let oldBlock = await this.node.db.getBlockByHashAndNumber(this.currentHeader.hash(), this.currentHeader.number);
           while (oldBlock.header.number.gt(newBlock.header.number)) {
-            discarded = discarded.concat(oldBlock.transactions as Transaction[]);
+            discarded = discarded.concat(oldBlock.transactions);
             oldBlock = await this.node.db.getBlockByHashAndNumber(oldBlock.header.parentHash, oldBlock.header.number.subn(1));
           }
           while (newBlock.header.number.gt(oldBlock.header.number)) {
@@ -362,7 +475,7 @@ export class TxPool extends EventEmitter {
             newBlock = await this.node.db.getBlockByHashAndNumber(newBlock.header.parentHash, newBlock.header.number.subn(1));
           }
           while (!oldBlock.hash().equals(newBlock.hash()) && oldBlock.header.number.gtn(0) && newBlock.header.number.gtn(0)) {
-            discarded = discarded.concat(oldBlock.transactions as Transaction[]);
+            discarded = discarded.concat(oldBlock.transactions);
             oldBlock = await this.node.db.getBlockByHashAndNumber(oldBlock.header.parentHash, oldBlock.header.number.subn(1));
             for (const tx of newBlock.transactions) {
               included.add(tx.hash());
@@ -372,9 +485,13 @@ export class TxPool extends EventEmitter {
           if (!oldBlock.hash().equals(newBlock.hash())) {
             throw new Error('reorg failed');
           }
+        } else {
+          for (const tx of newBlock.transactions) {
+            included.add(tx.hash());
+          }
         }
 
-        let reinject: Transaction[] = [];
+        let reinject: TypedTransaction[] = [];
         for (const tx of discarded) {
           if (!included.has(tx.hash())) {
             reinject.push(tx);
@@ -382,6 +499,7 @@ export class TxPool extends EventEmitter {
         }
         this.currentHeader = originalNewBlock.header;
         this.currentStateManager = await this.node.getStateManager(this.currentHeader.stateRoot, this.currentHeader._common);
+        this.updateBaseFee();
 
         if (isEnableFreeStaking(this.currentHeader._common)) {
           this.totalAmount = await Fee.getTotalAmount(this.currentStateManager);
@@ -409,10 +527,11 @@ export class TxPool extends EventEmitter {
             reinject = reinject.concat(requeue);
           }
         }
-        this.emitReadies((await this._addTxs(reinject, true)).readies);
-        await this.demoteUnexecutables();
+        this.emitReadies((await this._addTxs(reinject, true, false, included)).readies);
+        await this.demoteUnexecutables(included);
         this.truncatePending();
         this.truncateQueue();
+        await this.prunePrivateTxs();
       } catch (err) {
         logger.error('TxPool::newBlock, catch error:', err);
       }
@@ -422,14 +541,15 @@ export class TxPool extends EventEmitter {
   /**
    * Add the transactions to the transaction pool
    * @param txs - Transactions
+   * @param local - Whether the transactions are submitted locally, only the rejected local transactions are recorded
    * @returns A boolean array represents the insertion result of each transaction
    */
-  async addTxs(txs: Transaction | Transaction[]) {
+  async addTxs(txs: TypedTransaction | TypedTransaction[], local: boolean = false) {
     await this.initPromise;
     return await this.runWithLock(async () => {
       txs = Array.isArray(txs) ? txs : [txs];
       try {
-        const result = await this._addTxs(txs, false);
+        const result = await this._addTxs(txs, false, local);
         this.emitReadies(result.readies);
         this.truncatePending();
         this.truncateQueue();
@@ -452,7 +572,7 @@ export class TxPool extends EventEmitter {
         // TODO: fix this condition
         return undefined;
       }
-      const pendingMap = new PendingTxMap();
+      const pendingMap = new PendingTxMap(this.baseFee);
       for (const [sender, account] of this.accounts) {
         if (!account.hasPending()) {
           continue;
@@ -463,6 +583,45 @@ export class TxPool extends EventEmitter {
     });
   }
 
+  /**
+   * Add a private transaction to the pool,
+   * it won't be announced to peers and will be dropped after the max block number
+   * @param tx - Transaction
+   * @param maxBlockNumber - The last block number that the transaction can be included in
+   */
+  async addPrivateTx(tx: TypedTransaction, maxBlockNumber: BN) {
+    await this.initPromise;
+    return await this.runWithLock(async () => {
+      if (this.txs.has(tx.hash())) {
+        throw new Error('already known');
+      }
+      if (maxBlockNumber.lte(this.currentHeader.number)) {
+        throw new Error(`max block number too low: ${maxBlockNumber.toString()} current: ${this.currentHeader.number.toString()}`);
+      }
+      await this.checkTx(tx);
+      const evicted = this.privates.add(tx, maxBlockNumber, this.baseFee);
+      if (evicted) {
+        logger.debug('TxPool::addPrivateTx, evicted:', bufferToHex(evicted.tx.hash()));
+      }
+    });
+  }
+
+  /**
+   * Get all private transactions that can be included in the next block
+   * @param number - Current block number
+   * @param hash - Current block hash
+   * @returns A PendingTxMap object
+   */
+  async getPendingPrivateTxMap(number: BN, hash: Buffer) {
+    await this.initPromise;
+    return await this.runWithLock(async () => {
+      if (!number.eq(this.currentHeader.number) || !hash.equals(this.currentHeader.hash()) || this.privates.size === 0) {
+        return undefined;
+      }
+      return this.privates.getPendingTxMap(number.addn(1), this.baseFee);
+    });
+  }
+
   /**
    * Get all pending transaction hashes
    * @returns The array of hashes
@@ -488,70 +647,122 @@ export class TxPool extends EventEmitter {
   }
 
   /**
-   * Get total pool content(for txpool api)
-   * @returns An object containing all transactions in the pool
+   * Get the status of the transaction in the pool
+   * @param hash - Transaction hash
+   * @returns `pending`, `queued`, `private` or `undefined` if the transaction doesn't exist
    */
-  getPoolContent() {
-    const result: { pending: { [address: string]: { [nonce: string]: any } }; queued: { [address: string]: { [nonce: string]: any } } } = { pending: {}, queued: {} };
-    function forceGet<T>(obj: { [name: string]: T }, name: string) {
-      let val = obj[name];
-      if (val === undefined) {
-        val = {} as any;
-        Object.defineProperty(obj, name, { value: val, enumerable: true });
-      }
-      return val;
+  getTransactionStatus(hash: Buffer): 'pending' | 'queued' | 'private' | undefined {
+    const tx = this.txs.get(hash);
+    if (!tx) {
+      return this.privates.has(hash) ? 'private' : undefined;
     }
-    for (const [sender, account] of this.accounts) {
-      const address = bufferToHex(sender);
+    const account = this.accounts.get(tx.getSenderAddress().buf);
+    return account?.hasPending() && account.pending.nonceToTx.get(tx.nonce)?.hash().equals(hash) ? 'pending' : 'queued';
+  }
+
+  /**
+   * Get the latest drop record of the transaction
+   * @param hash - Transaction hash
+   * @returns Dropped transaction or `undefined` if the record doesn't exist
+   */
+  getDroppedTransaction(hash: Buffer) {
+    return this.dropped.get(hash);
+  }
+
+  /**
+   * Get the number of pending and queued transactions(for txpool api)
+   * @returns Pending and queued transaction counts
+   */
+  getPoolStatus() {
+    let pending = 0;
+    let queued = 0;
+    for (const account of this.accounts.values()) {
       if (account.hasPending()) {
-        const pendingObj = forceGet(result.pending, address);
-        for (const [nonce, tx] of account.pending.nonceToTx) {
-          const txObj = forceGet(pendingObj, nonce.toString());
-          const txInfo = tx.toRPCJSON();
-          for (const property in txInfo) {
-            Object.defineProperty(txObj, property, { value: txInfo[property], enumerable: true });
-          }
-        }
+        pending += account.pending.size;
       }
       if (account.hasQueue()) {
-        const queuedObj = forceGet(result.queued, address);
-        for (const [nonce, tx] of account.queue.nonceToTx) {
-          const txObj = forceGet(queuedObj, nonce.toString());
-          const txInfo = tx.toRPCJSON();
-          for (const property in txInfo) {
-            Object.defineProperty(txObj, property, { value: txInfo[property], enumerable: true });
-          }
-        }
+        queued += account.queue.size;
       }
     }
+    return { pending, queued };
+  }
+
+  /**
+   * Get total pool content(for txpool api)
+   * @returns An object containing all transactions in the pool
+   */
+  getPoolContent() {
+    return collectPoolContent(this.accounts, (tx) => tx.toRPCJSON());
+  }
+
+  /**
+   * Get the summary of all transactions in the pool(for txpool api)
+   * @returns An object containing the summary string of all transactions
+   */
+  getPoolInspect() {
+    return collectPoolContent(this.accounts, summarizeTx);
+  }
+
+  /**
+   * Get the pool content of the given account(for txpool api)
+   * @param addr - Account address
+   * @returns An object containing all transactions of the account
+   */
+  getPoolContentFrom(addr: Address) {
+    const account = this.accounts.get(addr.buf);
+    const result: { pending: { [nonce: string]: any }; queued: { [nonce: string]: any } } = { pending: {}, queued: {} };
+    if (account) {
+      const content = collectPoolContent([[addr.buf, account]], (tx) => tx.toRPCJSON());
+      const address = addr.toString();
+      result.pending = content.pending[address] ?? {};
+      result.queued = content.queued[address] ?? {};
+    }
     return result;
   }
 
-  private async _addTxs(txs: Transaction[], force: boolean): Promise<{ results: boolean[]; readies?: Map<Buffer, Transaction[]> }> {
+  /**
+   * Add the transactions to the transaction pool
+   * @param txs - Transactions
+   * @param force - Whether the transactions are reinjected by the new block
+   * @param local - Whether the transactions are submitted locally
+   * @param included - Hashes of the transactions included by the new block
+   * @returns Insertion results and ready transactions
+   */
+  private async _addTxs(txs: TypedTransaction[], force: boolean, local: boolean, included?: Set<Buffer>): Promise<{ results: boolean[]; readies?: Map<Buffer, TypedTransaction[]> }> {
     const dirtyAddrs: Address[] = [];
     const results: boolean[] = [];
+    // the reinjected transactions were in the pool or in the discarded blocks,
+    // the rejected transactions from peers aren't recorded
+    const record = force || local;
     for (const tx of txs) {
       if (this.txs.has(tx.hash())) {
         results.push(false);
         continue;
       }
       const addr = tx.getSenderAddress();
-      if (!(await this.validateTx(tx))) {
+      if (!(await this.validateTx(tx, record))) {
         results.push(false);
         continue;
       }
-      // drop tx if pool is full
+      // drop tx if pool is full, the local transactions are never underpriced
       if (txSlots(tx) + this.txs.size > this.globalSlots + this.globalQueue) {
-        if (this.priced.underpriced(tx)) {
+        if (!this.locals.has(addr.buf) && this.priced.underpriced(tx)) {
+          if (record) {
+            this.recordDropped(tx, 'underpriced', 'transaction underpriced');
+          }
           results.push(false);
           continue;
         }
         const [drop, success] = this.priced.discard(this.globalAllSlots - (this.globalSlots + this.globalQueue), true);
         if (!success) {
+          if (record) {
+            this.recordDropped(tx, 'pool full');
+          }
           results.push(false);
           continue;
         }
         if (drop) {
+          this.recordDropped(drop, 'pool full');
           for (const tx of drop) {
             this.removeTxFromGlobal(tx);
             const account = this.accounts.get(addr.buf);
@@ -566,9 +777,9 @@ export class TxPool extends EventEmitter {
       }
       const account = this.getAccount(addr);
       if (account.hasPending() && account.pending.has(tx.nonce)) {
-        this.promoteTx(tx);
+        this.promoteTx(tx, record);
       } else {
-        if (this.enqueueTx(tx)) {
+        if (this.enqueueTx(tx, record)) {
           dirtyAddrs.push(addr);
         }
       }
@@ -583,13 +794,13 @@ export class TxPool extends EventEmitter {
     if (flag && !force && dirtyAddrs.length > 0) {
       return { results, readies: await this.promoteExecutables(dirtyAddrs) };
     } else if (force) {
-      return { results, readies: await this.promoteExecutables() };
+      return { results, readies: await this.promoteExecutables(undefined, included) };
     } else {
       return { results };
     }
   }
 
-  private removeTxFromGlobal(key: Transaction | Transaction[]) {
+  private removeTxFromGlobal(key: TypedTransaction | TypedTransaction[]) {
     if (Array.isArray(key)) {
       for (const tx of key) {
         this.txs.delete(tx.hash());
@@ -599,72 +810,123 @@ export class TxPool extends EventEmitter {
     }
   }
 
-  private async validateTx(tx: Transaction): Promise<boolean> {
-    try {
-      const txSize = tx.size;
-      if (txSize > this.txMaxSize) {
-        throw new Error(`size too large: ${txSize} max: ${this.txMaxSize}`);
-      }
-      if (!tx.isSigned()) {
-        throw new Error('not signed');
-      }
-      const limit = getGasLimitByCommon(this.node.getLatestCommon());
-      if (limit.lt(tx.gasLimit)) {
-        throw new Error(`each block gasLimit: ${tx.gasLimit.toString()} limit: ${limit.toString()}`);
-      }
-      const senderAddr = tx.getSenderAddress();
-      const sender = senderAddr.buf;
-      if (!this.locals.has(sender) && tx.gasPrice.lt(this.priceLimit)) {
-        throw new Error(`gasPrice too low: ${tx.gasPrice.toString()} limit: ${this.priceLimit.toString()}`);
-      }
-
-      // estimate next block's timestamp
-      const period: number = this.currentHeader._common.consensusConfig().period;
-      const currentTimestamp = this.currentHeader.timestamp.toNumber();
+  /**
+   * Update the base fee of the pending block,
+   * the price of EIP-1559 transactions in the pool depends on it
+   */
+  private updateBaseFee() {
+    this.baseFee = calcNextBaseFee(this.currentHeader, this.node.getCommon(this.currentHeader.number.addn(1)));
+    this.priced.setBaseFee(this.baseFee);
+  }
 
-      // validate transaction
-      await validateTx(tx as Transaction, currentTimestamp + period, this.currentStateManager, this.totalAmount, this.dailyFee);
+  /**
+   * Remove the private transactions which are expired or included
+   */
+  private async prunePrivateTxs() {
+    const removed = await this.privates.prune(this.currentHeader.number.addn(1), async (tx) => {
+      const account = await this.currentStateManager.getAccount(tx.getSenderAddress());
+      return tx.nonce.lt(account.nonce);
+    });
+    if (removed.length > 0) {
+      logger.debug('TxPool::prunePrivateTxs, removed:', removed.length);
+    }
+  }
 
-      if (!checkTxIntrinsicGas(tx)) {
-        throw new Error('checkTxIntrinsicGas failed');
-      }
+  /**
+   * Validate the transaction
+   * @param tx - Transaction
+   * @param record - Whether to record the transaction as dropped if it is invalid
+   * @returns Whether the transaction is valid
+   */
+  private async validateTx(tx: TypedTransaction, record: boolean): Promise<boolean> {
+    try {
+      await this.checkTx(tx);
       return true;
-    } catch (err) {
+    } catch (err: any) {
       logger.warn('Txpool drop tx', bufferToHex(tx.hash()), 'validateTx failed:', err);
+      if (record) {
+        const message: string = err?.message ?? String(err);
+        this.recordDropped(tx, toDropReason(message), message);
+      }
       return false;
     }
   }
 
-  private enqueueTx(tx: Transaction): boolean {
+  private async checkTx(tx: TypedTransaction) {
+    const txSize = tx.size;
+    if (txSize > this.txMaxSize) {
+      throw new Error(`size too large: ${txSize} max: ${this.txMaxSize}`);
+    }
+    if (!tx.isSigned()) {
+      throw new Error('not signed');
+    }
+    if (!isEnableTxType(this.node.getCommon(this.currentHeader.number.addn(1)), tx.type)) {
+      throw new Error(`transaction type not supported: ${tx.type}`);
+    }
+    const limit = getGasLimitByCommon(this.node.getLatestCommon());
+    if (limit.lt(tx.gasLimit)) {
+      throw new Error(`each block gasLimit: ${tx.gasLimit.toString()} limit: ${limit.toString()}`);
+    }
+    const senderAddr = tx.getSenderAddress();
+    const sender = senderAddr.buf;
+    if (!this.locals.has(sender) && txGasTipCap(tx).lt(this.priceLimit)) {
+      throw new Error(`gasPrice too low: ${txGasTipCap(tx).toString()} limit: ${this.priceLimit.toString()}`);
+    }
+
+    // estimate next block's timestamp
+    const period: number = this.currentHeader._common.consensusConfig().period;
+    const currentTimestamp = this.currentHeader.timestamp.toNumber();
+
+    // validate transaction
+    await validateTx(tx, currentTimestamp + period, this.currentStateManager, this.totalAmount, this.dailyFee);
+
+    if (!checkTxIntrinsicGas(tx)) {
+      throw new Error('checkTxIntrinsicGas failed');
+    }
+  }
+
+  private enqueueTx(tx: TypedTransaction, record: boolean = true): boolean {
     const account = this.getAccount(tx.getSenderAddress());
     const { inserted, old } = account.queue.push(tx, this.priceBump);
     if (inserted) {
       this.txs.set(tx.hash(), tx);
+    } else if (record) {
+      this.recordDropped(tx, 'underpriced', 'replacement transaction underpriced');
     }
     if (old) {
       this.removeTxFromGlobal(old);
+      this.recordDropped(old, 'replaced', undefined, tx.hash());
     }
     account.timestamp = Date.now();
     return inserted;
   }
 
-  private promoteTx(tx: Transaction): boolean {
+  private promoteTx(tx: TypedTransaction, record: boolean = true): boolean {
     const account = this.getAccount(tx.getSenderAddress());
     const { inserted, old } = account.pending.push(tx, this.priceBump);
     if (inserted) {
       this.txs.set(tx.hash(), tx);
+    } else if (record) {
+      this.recordDropped(tx, 'underpriced', 'replacement transaction underpriced');
     }
     if (old) {
       this.removeTxFromGlobal(old);
+      this.recordDropped(old, 'replaced', undefined, tx.hash());
     }
     account.updatePendingNonce(tx.nonce.addn(1));
     account.timestamp = Date.now();
     return inserted;
   }
 
-  private async promoteExecutables(dirtyAddrs?: Address[]): Promise<Map<Buffer, Transaction[]>> {
-    const promoteAccount = async (sender: Buffer, account: TxPoolAccount): Promise<Transaction[]> => {
-      let readies: Transaction[] = [];
+  /**
+   * Promote the executable queued transactions to pending
+   * @param dirtyAddrs - Accounts to be checked, all accounts if it is undefined
+   * @param included - Hashes of the transactions included by the new block, they aren't recorded as dropped
+   * @returns Promoted transactions
+   */
+  private async promoteExecutables(dirtyAddrs?: Address[], included?: Set<Buffer>): Promise<Map<Buffer, TypedTransaction[]>> {
+    const promoteAccount = async (sender: Buffer, account: TxPoolAccount): Promise<TypedTransaction[]> => {
+      let readies: TypedTransaction[] = [];
       if (!account.hasQueue()) {
         return readies;
       }
@@ -672,10 +934,12 @@ export class TxPool extends EventEmitter {
       const accountInDB = await this.currentStateManager.getAccount(new Address(sender));
       const forwards = queue.forward(accountInDB.nonce);
       this.removeTxFromGlobal(forwards);
+      this.recordDropped(included ? forwards.filter((tx) => !included.has(tx.hash())) : forwards, 'nonce too low');
       let dropsLength = 0;
       if (!isEnableFreeStaking(this.currentHeader._common)) {
         const { removed: drops } = queue.filter(accountInDB.balance, this.currentHeader.gasLimit);
         this.removeTxFromGlobal(drops);
+        this.recordDropped(drops, 'insufficient balance');
         dropsLength = drops.length;
       }
       const totalReadies = queue.ready(await account.getPendingNonce());
@@ -689,6 +953,7 @@ export class TxPool extends EventEmitter {
         const resizes = queue.resize(this.accountQueue);
         resizesNumber = resizes.length;
         this.removeTxFromGlobal(resizes);
+        this.recordDropped(resizes, 'pool full');
       }
       // resize priced
       this.priced.removed(forwards.length + dropsLength + resizesNumber);
@@ -698,7 +963,7 @@ export class TxPool extends EventEmitter {
       return readies;
     };
 
-    const txs = new FunctionalBufferMap<Transaction[]>();
+    const txs = new FunctionalBufferMap<TypedTransaction[]>();
     if (dirtyAddrs) {
       for (const addr of dirtyAddrs) {
         const account = this.getAccount(addr);
@@ -718,7 +983,7 @@ export class TxPool extends EventEmitter {
     return txs;
   }
 
-  private async demoteUnexecutables() {
+  private async demoteUnexecutables(included: Set<Buffer>) {
     for (const [sender, account] of this.accounts) {
       if (!account.hasPending()) {
         continue;
@@ -727,10 +992,16 @@ export class TxPool extends EventEmitter {
       const accountInDB = await this.currentStateManager.getAccount(new Address(sender));
       const forwards = pending.forward(accountInDB.nonce);
       this.removeTxFromGlobal(forwards);
+      // the included transactions aren't dropped
+      this.recordDropped(
+        forwards.filter((tx) => !included.has(tx.hash())),
+        'nonce too low'
+      );
       let dropsLength = 0;
       if (!isEnableFreeStaking(this.currentHeader._common)) {
         const { removed: drops, invalids } = pending.filter(accountInDB.balance, this.currentHeader.gasLimit);
         this.removeTxFromGlobal(drops);
+        this.recordDropped(drops, 'insufficient balance');
         dropsLength = drops.length;
         for (const tx of invalids) {
           this.enqueueTx(tx);
@@ -761,9 +1032,10 @@ export class TxPool extends EventEmitter {
       return;
     }
 
+    // the local accounts are exempt from eviction
     const heap = new Heap({ comparBefore: (a: TxPoolAccount, b: TxPoolAccount) => a.pending.slots > b.pending.slots });
     for (const [sender, account] of this.accounts) {
-      if (account.hasPending() && account.pending.slots > this.accountSlots) {
+      if (!this.locals.has(sender) && account.hasPending() && account.pending.slots > this.accountSlots) {
         heap.push(account);
       }
     }
@@ -772,6 +1044,7 @@ export class TxPool extends EventEmitter {
       const pending = account.pending;
       const [tx] = pending.resize(pending.size - 1);
       this.removeTxFromGlobal(tx);
+      this.recordDropped(tx, 'pool full');
       account.updatePendingNonce(tx.nonce, true);
       // resize priced
       this.priced.removed([tx].length);
@@ -827,11 +1100,13 @@ export class TxPool extends EventEmitter {
         // resize priced
         const resizes = queue.clear();
         this.removeTxFromGlobal(resizes);
+        this.recordDropped(resizes, 'pool full');
         this.priced.removed(resizes.length);
       } else {
         while (queueSlots > this.globalQueue) {
           const [tx] = queue.resize(queue.size - 1);
           this.removeTxFromGlobal(tx);
+          this.recordDropped(tx, 'pool full');
           // resize priced
           this.priced.removed(1);
           queueSlots -= txSlots(tx);
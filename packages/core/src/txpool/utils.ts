@@ -1,4 +1,5 @@
-import { Transaction } from '@rei-network/structure';
+import { BN } from 'ethereumjs-util';
+import { TypedTransaction, FeeMarketEIP1559Transaction } from '@rei-network/structure';
 import { MAX_UINT64 } from '../utils';
 
 /**
@@ -6,17 +7,37 @@ import { MAX_UINT64 } from '../utils';
  * @param tx - Transaction
  * @returns Transaction slots
  */
-export function txSlots(tx: Transaction) {
+export function txSlots(tx: TypedTransaction) {
   return Math.ceil(tx.size / 32768);
 }
 
+/**
+ * Get the max gas price the transaction is willing to pay,
+ * it is `maxFeePerGas` for EIP-1559 transaction and `gasPrice` for others
+ * @param tx - Transaction
+ * @returns Gas fee cap
+ */
+export function txGasFeeCap(tx: TypedTransaction) {
+  return tx instanceof FeeMarketEIP1559Transaction ? tx.maxFeePerGas : tx.gasPrice;
+}
+
+/**
+ * Get the max tip the transaction is willing to pay to the miner,
+ * it is `maxPriorityFeePerGas` for EIP-1559 transaction and `gasPrice` for others
+ * @param tx - Transaction
+ * @returns Gas tip cap
+ */
+export function txGasTipCap(tx: TypedTransaction) {
+  return tx instanceof FeeMarketEIP1559Transaction ? tx.maxPriorityFeePerGas : tx.gasPrice;
+}
+
 /**
  * Calulate the transaction cost
  * @param tx - Transaction
  * @returns Transaction cost
  */
-export function txCost(tx: Transaction) {
-  return tx.value.add(tx.gasPrice.mul(tx.gasLimit));
+export function txCost(tx: TypedTransaction) {
+  return tx.value.add(txGasFeeCap(tx).mul(tx.gasLimit));
 }
 
 /**
@@ -24,7 +45,7 @@ export function txCost(tx: Transaction) {
  * @param tx - Transaction
  * @returns `true` if valid, `false` if not
  */
-export function checkTxIntrinsicGas(tx: Transaction) {
+export function checkTxIntrinsicGas(tx: TypedTransaction) {
   const gas = tx.getBaseFee();
   return gas.lte(MAX_UINT64) && gas.lte(tx.gasLimit);
 }
@@ -2,6 +2,7 @@ import type { Address, BN } from 'ethereumjs-util';
 import type PeerId from 'peer-id';
 import type { EVMWorkMode } from '@rei-network/vm/dist/evm/evm';
 import type { SyncMode } from './sync';
+import type { TxPoolOptions } from './txpool';
 
 export interface NodeOptions {
   /**
@@ -68,6 +69,10 @@ export interface NodeOptions {
    * Trusted block hash
    */
   trustedHash?: Buffer;
+  /**
+   * Transaction pool options
+   */
+  txPool?: Omit<TxPoolOptions, 'node'>;
 }
 
 export type NodeStatus = {
@@ -1,7 +1,7 @@
 import { Address, BN } from 'ethereumjs-util';
 import { PostByzantiumTxReceipt, TxReceipt } from '@rei-network/vm/dist/types';
 import { Common } from '@rei-network/common';
-import { CLIQUE_EXTRA_VANITY, Receipt, Log } from '@rei-network/structure';
+import { CLIQUE_EXTRA_VANITY, Receipt, Log, BlockHeader } from '@rei-network/structure';
 import { hexStringToBN } from '@rei-network/utils';
 
 export const EMPTY_HASH = Buffer.alloc(32);
@@ -37,3 +37,19 @@ export function getGasLimitByCommon(common: Common): BN {
   const limit = common.param('gasConfig', 'gasLimit');
   return hexStringToBN(limit === null ? common.genesis().gasLimit : limit);
 }
+
+/**
+ * Calculate the base fee of the next block
+ * @param parent - Parent block header
+ * @param common - Common instance of the next block
+ * @returns Base fee, `undefined` if EIP-1559 isn't enabled for the next block
+ */
+export function calcNextBaseFee(parent: BlockHeader, common: Common): BN | undefined {
+  if (!common.isActivatedEIP(1559)) {
+    return undefined;
+  }
+  if (!parent._common.isActivatedEIP(1559)) {
+    return new BN(common.param('gasConfig', 'initialBaseFee'));
+  }
+  return parent.calcNextBaseFee();
+}
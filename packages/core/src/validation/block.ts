@@ -1,8 +1,14 @@
 import { Block } from '@rei-network/structure';
+import { isEnableTxType } from '../hardforks';
 
 export async function preValidateBlock(this: Block) {
   await this.validateData();
   if (this.uncleHeaders.length > 0) {
     throw this._error('invalid uncle headers');
   }
+  for (const tx of this.transactions) {
+    if (!isEnableTxType(this._common, tx.type)) {
+      throw this._error(`transaction type not supported: ${tx.type}`);
+    }
+  }
 }
@@ -1,10 +1,14 @@
 import { BN } from 'ethereumjs-util';
 import { hexStringToBN } from '@rei-network/utils';
-import { Transaction } from '@rei-network/structure';
+import { TypedTransaction, FeeMarketEIP1559Transaction } from '@rei-network/structure';
 import { StateManager } from '../stateManager';
-import { isEnableFreeStaking } from '../hardforks';
+import { isEnableFreeStaking, isEnableTxType } from '../hardforks';
+
+export async function validateTx(tx: TypedTransaction, timestamp: number, state: StateManager, totalAmount?: BN, dailyFee?: BN) {
+  if (!isEnableTxType(tx.common, tx.type)) {
+    throw new Error(`transaction type not supported: ${tx.type}`);
+  }
 
-export async function validateTx(tx: Transaction, timestamp: number, state: StateManager, totalAmount?: BN, dailyFee?: BN) {
   const senderAddr = tx.getSenderAddress();
   const account = await state.getAccount(senderAddr);
 
@@ -15,6 +19,9 @@ export async function validateTx(tx: Transaction, timestamp: number, state: Stat
     throw new Error(`sender doesn't have enough funds to send tx. The msg.value is: ${tx.value.toString()} and the sender's account only has: ${account.balance.toString()}`);
   }
 
+  // the max fee should be prepaid for EIP-1559 transaction
+  const cost = tx instanceof FeeMarketEIP1559Transaction ? tx.gasLimit.mul(tx.maxFeePerGas).add(tx.value) : tx.getUpfrontCost();
+
   let availableFee: BN | undefined;
 
   if (isEnableFreeStaking(tx.common)) {
@@ -38,13 +45,12 @@ export async function validateTx(tx: Transaction, timestamp: number, state: Stat
 
     // compare max and cost
     const max = account.balance.add(availableFee);
-    const cost = tx.getUpfrontCost();
     if (max.lt(cost)) {
       throw new Error(`sender doesn't have enough funds to send tx. The upfront cost is: ${cost.toString()} and the sender's account only has: ${max.toString()}`);
     }
   } else {
-    if (account.balance.lt(tx.getUpfrontCost())) {
-      throw new Error(`balance is not enough: ${tx.getUpfrontCost().toString()} account: ${account.balance.toString()}`);
+    if (account.balance.lt(cost)) {
+      throw new Error(`balance is not enough: ${cost.toString()} account: ${account.balance.toString()}`);
     }
   }
 
@@ -184,6 +184,24 @@ describe('BloomBits', () => {
       }
     });
 
+    it('should rewind succeed', async () => {
+      await indexer.rewind(await db.getCanonicalHeader(new BN(20)));
+      expect((await db.getStoredSectionCount())?.toNumber()).be.equal(1);
+
+      const filter = new BloomBitsFilter(genMockBackend(db, to));
+      for (const { address, topic } of blooms) {
+        const logs = await filter.filterRange(new BN(from), new BN(to), [new Address(address)], [topic]);
+        expect(logs.length).be.equal(1);
+      }
+
+      await indexer.rewind(await db.getCanonicalHeader(new BN(6)));
+      expect(await db.getStoredSectionCount()).be.undefined;
+
+      // reindex
+      await indexer.newBlockHeader(await db.getCanonicalHeader(new BN(to)), true);
+      expect((await db.getStoredSectionCount())?.toNumber()).be.equal(3);
+    });
+
     it('should abort succeed', async () => {
       await indexer.abort();
     });
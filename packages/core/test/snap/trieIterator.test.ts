@@ -33,4 +33,21 @@ describe('KVIterator', () => {
     }
     expect(kv.size === 0, 'kv should be empty').be.true;
   });
+
+  it('should seek succeed', async () => {
+    const keys: Buffer[] = [];
+    for await (const { key } of new KVIterator(trie)) {
+      keys.push(key);
+    }
+    const seeks = [Buffer.alloc(32), Buffer.alloc(32, 0xff), keys[0], keys[50], keys[99], Buffer.from(keys[50]), crypto.randomBytes(32), crypto.randomBytes(32)];
+    // a seek key between two keys
+    seeks[5][31] ^= 1;
+    for (const start of seeks) {
+      const seeked: Buffer[] = [];
+      for await (const { key } of new KVIterator(trie).seek(start)) {
+        seeked.push(key);
+      }
+      expect(seeked, 'keys should be equal').be.deep.equal(keys.filter((key) => key.compare(start) >= 0));
+    }
+  });
 });
@@ -0,0 +1,94 @@
+import { expect } from 'chai';
+import { Address, BN, keccak256, setLengthLeft, bufferToHex } from 'ethereumjs-util';
+import { Common } from '@rei-network/common';
+import { Database } from '@rei-network/database';
+import { SecureTrie } from '@rei-network/trie';
+import { StateManager } from '../../src/stateManager';
+import { SnapTree } from '../../src/snap/snapTree';
+import { genRandomAccounts, AccountInfo } from '../snap/util';
+
+const level = require('level-mem');
+
+describe('StateDump', () => {
+  const common = new Common({ chain: 'rei-devnet' });
+  common.setHardforkByBlockNumber(0);
+  let db: Database;
+  let root: Buffer;
+  let accounts: AccountInfo[];
+  let snapTree: SnapTree;
+
+  function createStateManager(snap: boolean) {
+    const stateManager = new StateManager({ common, trie: new SecureTrie(db.rawdb), snapTree: snap ? snapTree : undefined });
+    return stateManager.setStateRoot(root).then(() => stateManager);
+  }
+
+  before(async () => {
+    db = new Database(level(), common);
+    const result = await genRandomAccounts(db, 20, 0);
+    root = result.root;
+    accounts = result.accounts.sort((a, b) => a.accountHash.compare(b.accountHash));
+    snapTree = new SnapTree(db);
+    await snapTree.init(root, false, true);
+  });
+
+  it('should dump accounts in the order of account hash', async () => {
+    const stateManager = await createStateManager(false);
+    const dump = await stateManager.dumpRange(Buffer.alloc(32), 5, false, true, 0);
+    expect(dump.root).be.equal(bufferToHex(root));
+    expect(Object.keys(dump.accounts)).be.deep.equal(accounts.slice(0, 5).map(({ accountHash }) => bufferToHex(accountHash)));
+    expect(dump.next).be.equal(bufferToHex(accounts[5].accountHash));
+    const first = dump.accounts[bufferToHex(accounts[0].accountHash)];
+    expect(first.code).be.equal(bufferToHex(accounts[0].code));
+    expect(first.storage).be.undefined;
+
+    const next = await stateManager.dumpRange(accounts[5].accountHash, 100, true, true, 0);
+    expect(Object.keys(next.accounts).length).be.equal(15);
+    expect(next.next).be.undefined;
+    expect(next.accounts[bufferToHex(accounts[5].accountHash)].code).be.undefined;
+  });
+
+  it('should be the same whether the snapshot is used or not', async () => {
+    const trieDump = await (await createStateManager(false)).dumpRange(accounts[3].accountHash, 10, false, false, 100);
+    const snapStateManager = await createStateManager(true);
+    expect(snapStateManager._snap, 'snapshot should exist').not.be.undefined;
+    expect(snapTree.generating(), 'snapshot should be generated').be.false;
+    const snapDump = await snapStateManager.dumpRange(accounts[3].accountHash, 10, false, false, 100);
+    expect(snapDump).be.deep.equal(trieDump);
+  });
+
+  it('should iterate storage', async () => {
+    const stateManager = await createStateManager(false);
+    const address = new Address(accounts[0].address);
+    const slots = [1, 2, 3].map((i) => setLengthLeft(new BN(i).toBuffer(), 32));
+    await stateManager.checkpoint();
+    for (const slot of slots) {
+      await stateManager.putContractStorage(address, slot, slot);
+    }
+    await stateManager.commit();
+
+    const hashes = slots.map((slot) => keccak256(slot)).sort(Buffer.compare);
+    const iterated: Buffer[] = [];
+    for await (const { hash, value } of stateManager.iterateStorage(address, hashes[1])) {
+      expect(value.length).be.equal(1);
+      iterated.push(hash);
+    }
+    expect(iterated).be.deep.equal(hashes.slice(1));
+  });
+
+  it('should truncate the storage of each account', async () => {
+    const stateManager = await createStateManager(false);
+    const address = new Address(accounts[0].address);
+    const slots = [1, 2, 3].map((i) => setLengthLeft(new BN(i).toBuffer(), 32));
+    await stateManager.checkpoint();
+    for (const slot of slots) {
+      await stateManager.putContractStorage(address, slot, slot);
+    }
+    await stateManager.commit();
+
+    const hashes = slots.map((slot) => keccak256(slot)).sort(Buffer.compare);
+    const dump = await stateManager.dumpRange(accounts[0].accountHash, 1, true, false, 2);
+    const account = dump.accounts[bufferToHex(accounts[0].accountHash)];
+    expect(Object.keys(account.storage!)).be.deep.equal(hashes.slice(0, 2).map((hash) => bufferToHex(hash)));
+    expect(account.nextStorage).be.equal(bufferToHex(hashes[2]));
+  });
+});
@@ -0,0 +1,58 @@
+import { expect } from 'chai';
+import { Address, BN, KECCAK256_NULL, setLengthLeft } from 'ethereumjs-util';
+import { Common } from '@rei-network/common';
+import { StateManager, applyStateOverrides } from '../../src/stateManager';
+
+describe('StateOverrides', () => {
+  const address = Address.fromString('0xAE0c03FdeDB61021272922F7804505CEE2C12c78');
+  const key1 = setLengthLeft(Buffer.from('01', 'hex'), 32);
+  const key2 = setLengthLeft(Buffer.from('02', 'hex'), 32);
+  let stateManager: StateManager;
+
+  beforeEach(async () => {
+    const common = new Common({ chain: 'rei-devnet' });
+    common.setHardforkByBlockNumber(0);
+    stateManager = new StateManager({ common });
+    await stateManager.checkpoint();
+    await stateManager.putContractCode(address, Buffer.from('6000', 'hex'));
+    await stateManager.putContractStorage(address, key1, Buffer.from('11', 'hex'));
+    await stateManager.commit();
+  });
+
+  it('should override account fields', async () => {
+    await applyStateOverrides(stateManager, {
+      [address.toString()]: { balance: '0x64', nonce: '0x2', code: '0x' }
+    });
+    const account = await stateManager.getAccount(address);
+    expect(account.balance.eqn(100), 'balance should be equal').be.true;
+    expect(account.nonce.eqn(2), 'nonce should be equal').be.true;
+    expect(account.codeHash.equals(KECCAK256_NULL), 'code should be cleared').be.true;
+  });
+
+  it('should override partial storage', async () => {
+    await applyStateOverrides(stateManager, {
+      [address.toString()]: { stateDiff: { '0x02': '0x22' } }
+    });
+    expect(new BN(await stateManager.getContractStorage(address, key1)).eqn(0x11), 'slot1 should be kept').be.true;
+    expect(new BN(await stateManager.getContractStorage(address, key2)).eqn(0x22), 'slot2 should be overridden').be.true;
+  });
+
+  it('should override whole storage', async () => {
+    await applyStateOverrides(stateManager, {
+      [address.toString()]: { state: { '0x02': '0x22' } }
+    });
+    expect((await stateManager.getContractStorage(address, key1)).length, 'slot1 should be cleared').be.equal(0);
+    expect(new BN(await stateManager.getContractStorage(address, key2)).eqn(0x22), 'slot2 should be overridden').be.true;
+  });
+
+  it('should reject both state and stateDiff', async () => {
+    try {
+      await applyStateOverrides(stateManager, {
+        [address.toString()]: { state: {}, stateDiff: {} }
+      });
+      expect.fail('should throw');
+    } catch (err: any) {
+      expect(err.message).be.equal(`account ${address.toString()} has both 'state' and 'stateDiff'`);
+    }
+  });
+});
@@ -1,11 +1,12 @@
 import crypto from 'crypto';
 import { expect } from 'chai';
 import { encode } from 'rlp';
-import { Address, BN, keccak256, unpadBuffer } from 'ethereumjs-util';
+import { Address, BN, keccak256, unpadBuffer, bnToHex, bufferToHex, toBuffer } from 'ethereumjs-util';
 import { Common } from '@rei-network/common';
 import { FunctionalBufferMap, FunctionalBufferSet } from '@rei-network/utils';
 import { Database } from '@rei-network/database';
 import { Trie } from '@rei-network/trie/dist/baseTrie';
+import { SecureTrie } from '@rei-network/trie';
 import { StateManager, StakingAccount } from '../../src/stateManager';
 import { SnapTree } from '../../src/snap/snapTree';
 import { genRandomAccounts } from '../snap/util';
@@ -189,4 +190,27 @@ describe('StateManager', () => {
     }
     expect(storageEqual, 'revert _snapStorage should be equal').be.equal(true);
   });
+
+  it('should getProof correctly', async () => {
+    await stateManager.setStateRoot(stateManager._trie.root);
+    await stateManager.checkpoint();
+    await stateManager.putAccount(address, account1);
+    await stateManager.putContractStorage(address, key1, value1);
+    await stateManager.commit();
+
+    const key2 = crypto.randomBytes(32);
+    const proof = await stateManager.getProof(address, [key1, key2]);
+    const account = await stateManager.getAccount(address);
+    expect(proof.balance, 'balance should be equal').be.equal(bnToHex(account1.balance));
+    expect(proof.storageHash, 'storageHash should be equal').be.equal(bufferToHex(account.stateRoot));
+
+    const accountValue = await SecureTrie.verifyProof(stateManager._trie.root, address.buf, proof.accountProof.map(toBuffer));
+    expect(accountValue!.equals(account.serialize()), 'account proof should be valid').be.true;
+    const storageValue = await SecureTrie.verifyProof(account.stateRoot, key1, proof.storageProof[0].proof.map(toBuffer));
+    expect(storageValue!.equals(encodeValue1), 'storage proof should be valid').be.true;
+    expect(proof.storageProof[0].value, 'storage value should be equal').be.equal(bnToHex(new BN(value1)));
+    const emptyValue = await SecureTrie.verifyProof(account.stateRoot, key2, proof.storageProof[1].proof.map(toBuffer));
+    expect(emptyValue, 'storage proof should prove absence').be.null;
+    expect(proof.storageProof[1].value, 'storage value should be zero').be.equal('0x0');
+  });
 });
@@ -0,0 +1,127 @@
+import { expect } from 'chai';
+import { Address, BN, privateToAddress } from 'ethereumjs-util';
+import { Common } from '@rei-network/common';
+import { VM } from '@rei-network/vm';
+import { Block, Transaction } from '@rei-network/structure';
+import { StateManager, StakingAccount } from '../../src/stateManager';
+import { ReimintExecutor } from '../../src/reimint';
+import { IDebugImpl, JSDebug, CallTracerDebug, PrestateTracerDebug, PrestateDiff, MuxDebug } from '../../src/tracer';
+import { toAsync } from '../../src/tracer/toAsync';
+import { tracers } from '../../src/tracer/tracers';
+
+const sender = Address.fromString('0x3289621709f5b35d09b4335e129907ac367a0593');
+const caller = Address.fromString('0x00000000000000000000000000000000000000aa');
+const callee = Address.fromString('0x00000000000000000000000000000000000000bb');
+
+// store 1 to slot 0, return 42
+const calleeCode = Buffer.from('600160005560' + '2a60005260206000f3', 'hex');
+// load slot 0, then revert
+const revertCode = Buffer.from('60005450' + '60006000fd', 'hex');
+// query the balance of sender, create an empty contract,
+// then call the callee and return the output of the callee
+const callerCode = Buffer.from('73' + sender.buf.toString('hex') + '3150' + '600060006000f050' + '60206000600060006000' + '73' + callee.buf.toString('hex') + '61fffff1' + '5060206000f3', 'hex');
+
+describe('NativeTracer', () => {
+  let common: Common;
+
+  async function runCall(debug: IDebugImpl, code: Buffer) {
+    const stateManager = new StateManager({ common });
+    await stateManager.checkpoint();
+    await stateManager.putContractCode(caller, callerCode);
+    await stateManager.putContractCode(callee, code);
+    await stateManager.commit();
+    const vm = new VM({ common, stateManager, blockchain: {} as any });
+    await vm.runCall({ debug, caller: sender, origin: sender, to: caller, gasLimit: new BN(200000) });
+    return await debug.result();
+  }
+
+  async function runTrace(name: string, native: IDebugImpl, code: Buffer) {
+    let error: any;
+    const js = new JSDebug(common, { tracer: toAsync(`const obj = ${tracers.get(name)!}`), vmScriptsBatchSize: 0 }, (reason) => (error = reason));
+    const { expected, actual } = await runCall(
+      new MuxDebug(
+        new Map([
+          ['expected', js],
+          ['actual', native]
+        ])
+      ),
+      code
+    );
+    expect(error, 'js tracer should succeed').be.undefined;
+    return { expected, actual };
+  }
+
+  before(() => {
+    common = new Common({ chain: 'rei-devnet' });
+    common.setHardforkByBlockNumber(0);
+  });
+
+  it('should be the same as js callTracer', async () => {
+    const { expected, actual } = await runTrace('callTracer', new CallTracerDebug(common), calleeCode);
+    expect(actual.calls.length).be.equal(2);
+    expect(actual.calls[0].type).be.equal('CREATE');
+    expect(actual.calls[1].type).be.equal('CALL');
+    expect(JSON.stringify(actual)).be.equal(JSON.stringify(expected));
+  });
+
+  it('should be the same as js callTracer when the sub call reverts', async () => {
+    const { expected, actual } = await runTrace('callTracer', new CallTracerDebug(common), revertCode);
+    expect(actual.calls[1].error).be.equal('execution reverted');
+    expect(JSON.stringify(actual)).be.equal(JSON.stringify(expected));
+  });
+
+  it('should be the same as js prestateTracer', async () => {
+    const { expected, actual } = await runTrace('prestateTracer', new PrestateTracerDebug(), calleeCode);
+    expect(Object.keys(actual).length).be.equal(4);
+    expect(actual[callee.toString()].storage).be.deep.equal({ ['0x' + '00'.repeat(32)]: '0x' });
+    expect(JSON.stringify(actual)).be.equal(JSON.stringify(expected));
+  });
+
+  it('should generate prestate diff', async () => {
+    const { pre, post }: PrestateDiff = await runCall(new PrestateTracerDebug({ diffMode: true }), calleeCode);
+    const slot = '0x' + '00'.repeat(32);
+    expect(pre[sender.toString()], 'unmodified account should be ignored').be.undefined;
+    expect(pre[callee.toString()].storage).be.deep.equal({ [slot]: '0x' });
+    expect(post[callee.toString()]).be.deep.equal({ storage: { [slot]: '0x01' } });
+    expect(post[caller.toString()]).be.deep.equal({ nonce: 1 });
+    const created = Object.keys(post).filter((address) => pre[address] === undefined);
+    expect(created.length, 'created contract should only exist in post state').be.equal(1);
+  });
+
+  it('should generate prestate diff of a transaction', async () => {
+    // the free staking is disabled at the genesis of mainnet
+    const mainnetCommon = new Common({ chain: 'rei-mainnet' });
+    mainnetCommon.setHardforkByBlockNumber(0);
+    const privateKey = Buffer.from('d8ca4883bbf62202904e402750d593a297b5640dea80b6d5b239c5a9902662c0', 'hex');
+    const from = new Address(privateToAddress(privateKey));
+    const stateManager = new StateManager({ common: mainnetCommon });
+    await stateManager.checkpoint();
+    await stateManager.putAccount(from, new StakingAccount(new BN(0), new BN(10).pow(new BN(18))));
+    await stateManager.putContractCode(callee, calleeCode);
+    await stateManager.commit();
+    const vm = new VM({ common: mainnetCommon, stateManager, blockchain: {} as any });
+    const block = Block.fromBlockData({ header: { gasLimit: 1000000 } }, { common: mainnetCommon });
+    const tx = Transaction.fromTxData({ nonce: 0, gasPrice: 1, gasLimit: 100000, to: callee }, { common: mainnetCommon }).sign(privateKey);
+
+    const debug = new PrestateTracerDebug({ diffMode: true });
+    const { gasUsed } = await new ReimintExecutor({} as any, {} as any).processTx({ vm, debug, tx, block, root: stateManager._trie.root });
+    const { pre, post } = (await debug.result()) as PrestateDiff;
+    const slot = '0x' + '00'.repeat(32);
+    expect(pre[callee.toString()].storage).be.deep.equal({ [slot]: '0x' });
+    expect(post[callee.toString()]).be.deep.equal({ storage: { [slot]: '0x01' } });
+    expect(pre[from.toString()].nonce).be.equal(0);
+    expect(post[from.toString()].nonce).be.equal(1);
+    expect(new BN(pre[from.toString()].balance!.slice(2), 'hex').sub(new BN(post[from.toString()].balance!.slice(2), 'hex')).eq(gasUsed)).be.true;
+  });
+
+  it('should run several tracers in one pass', async () => {
+    const debugs = new Map<string, IDebugImpl>([
+      ['callTracer', new CallTracerDebug(common)],
+      ['prestateTracer', new PrestateTracerDebug()]
+    ]);
+    const result = await runCall(new MuxDebug(debugs), calleeCode);
+    expect(Object.keys(result)).be.deep.equal(['callTracer', 'prestateTracer']);
+    expect(result.callTracer.calls.length).be.equal(2);
+    expect(result.prestateTracer[callee.toString()]).not.be.undefined;
+  });
+});
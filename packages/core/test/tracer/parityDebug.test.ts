@@ -0,0 +1,78 @@
+import { expect } from 'chai';
+import { Address, BN } from 'ethereumjs-util';
+import { Common } from '@rei-network/common';
+import { VM } from '@rei-network/vm';
+import { StateManager } from '../../src/stateManager';
+import { ParityDebug } from '../../src/tracer';
+
+const sender = Address.fromString('0x3289621709f5b35d09b4335e129907ac367a0593');
+const caller = Address.fromString('0x00000000000000000000000000000000000000aa');
+const callee = Address.fromString('0x00000000000000000000000000000000000000bb');
+
+// store 1 to slot 0, return 42
+const calleeCode = Buffer.from('600160005560' + '2a60005260206000f3', 'hex');
+// revert directly
+const revertCode = Buffer.from('60006000fd', 'hex');
+// call the callee, then return the output of the callee
+const callerCode = Buffer.from('60206000600060006000' + '73' + callee.buf.toString('hex') + '61fffff1' + '5060206000f3', 'hex');
+
+describe('ParityDebug', () => {
+  let common: Common;
+  let vm: VM;
+
+  async function runTrace(code: Buffer) {
+    const stateManager = new StateManager({ common });
+    await stateManager.checkpoint();
+    await stateManager.putContractCode(caller, callerCode);
+    await stateManager.putContractCode(callee, code);
+    await stateManager.commit();
+    vm = new VM({ common, stateManager, blockchain: {} as any });
+    const debug = new ParityDebug(common, ['trace', 'stateDiff', 'vmTrace']);
+    await vm.runCall({ debug, caller: sender, origin: sender, to: caller, gasLimit: new BN(100000) });
+    return debug.result()[0];
+  }
+
+  before(() => {
+    common = new Common({ chain: 'rei-devnet' });
+    common.setHardforkByBlockNumber(0);
+  });
+
+  it('should generate flat traces', async () => {
+    const { output, trace } = await runTrace(calleeCode);
+    expect(output).be.equal('0x' + '2a'.padStart(64, '0'));
+    expect(trace.length, 'trace length should be equal').be.equal(2);
+    expect(trace[0].subtraces).be.equal(1);
+    expect(trace[0].traceAddress).be.deep.equal([]);
+    expect(trace[1].type).be.equal('call');
+    expect(trace[1].action.callType).be.equal('call');
+    expect(trace[1].action.from).be.equal(caller.toString());
+    expect(trace[1].action.to).be.equal(callee.toString());
+    expect(trace[1].traceAddress).be.deep.equal([0]);
+    expect(trace[1].result!.output).be.equal('0x' + '2a'.padStart(64, '0'));
+  });
+
+  it('should record the error of sub call', async () => {
+    const { trace } = await runTrace(revertCode);
+    expect(trace[1].error).be.equal('Reverted');
+    expect(trace[1].result).be.null;
+    expect(trace[0].error).be.undefined;
+  });
+
+  it('should generate state diff', async () => {
+    const { stateDiff } = await runTrace(calleeCode);
+    expect(stateDiff![callee.toString()].storage['0x' + '00'.repeat(32)]).be.deep.equal({ '*': { from: '0x' + '00'.repeat(32), to: '0x' + '01'.padStart(64, '0') } });
+    expect(stateDiff![callee.toString()].balance).be.equal('=');
+    expect(stateDiff![caller.toString()]).be.undefined;
+  });
+
+  it('should generate vm trace', async () => {
+    const { vmTrace } = await runTrace(calleeCode);
+    expect(vmTrace!.code).be.equal('0x' + callerCode.toString('hex'));
+    const callOp = vmTrace!.ops.find((op) => op.sub !== null)!;
+    expect(callOp.ex!.push).be.deep.equal(['0x1']);
+    expect(callOp.ex!.mem).be.deep.equal({ off: 0, data: '0x' + '2a'.padStart(64, '0') });
+    expect(callOp.sub!.code).be.equal('0x' + calleeCode.toString('hex'));
+    const sstoreOp = callOp.sub!.ops.find((op) => op.ex!.store !== null)!;
+    expect(sstoreOp.ex!.store).be.deep.equal({ key: '0x0', val: '0x1' });
+  });
+});
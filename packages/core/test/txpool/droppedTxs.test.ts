@@ -0,0 +1,108 @@
+import { expect } from 'chai';
+import { bufferToHex } from 'ethereumjs-util';
+import { DroppedTxs, DroppedTransaction } from '../../src/txpool';
+import { MockNode, createTxPool, genMockTx, privateKeys, toHashes } from './util';
+
+const [privateKey, privateKey2, privateKey3] = privateKeys;
+
+describe('DroppedTxs', () => {
+  it('should overwrite the oldest record', () => {
+    const ring = new DroppedTxs(2);
+    const txs = [genMockTx(privateKey, 0, 1), genMockTx(privateKey, 1, 1), genMockTx(privateKey, 2, 1)];
+    for (const tx of txs) {
+      ring.add(new DroppedTransaction(tx.hash(), 'pool full'));
+    }
+    expect(ring.size).be.equal(2);
+    expect(ring.get(txs[0].hash())).be.undefined;
+    expect(ring.get(txs[1].hash())?.reason).be.equal('pool full');
+    expect(ring.get(txs[2].hash())?.reason).be.equal('pool full');
+  });
+
+  it('should keep the newer record of the same transaction', () => {
+    const ring = new DroppedTxs(2);
+    const tx = genMockTx(privateKey, 0, 1);
+    ring.add(new DroppedTransaction(tx.hash(), 'pool full'));
+    ring.add(new DroppedTransaction(tx.hash(), 'underpriced'));
+    ring.add(new DroppedTransaction(genMockTx(privateKey, 1, 1).hash(), 'pool full'));
+    expect(ring.get(tx.hash())?.reason).be.equal('underpriced');
+  });
+
+  it('should record replaced transactions', async () => {
+    const txPool = await createTxPool(new MockNode());
+    const dropped: DroppedTransaction[] = [];
+    txPool.on('dropped', (txs) => dropped.push(...txs));
+
+    const old = genMockTx(privateKey, 0, 100);
+    const underpriced = genMockTx(privateKey, 0, 105);
+    const replacement = genMockTx(privateKey, 0, 110);
+    for (const tx of [old, underpriced, replacement]) {
+      await txPool.addTxs(tx, true);
+    }
+
+    expect(dropped.map(({ reason }) => reason)).be.deep.equal(['underpriced', 'replaced']);
+    expect(txPool.getTransactionStatus(replacement.hash())).be.equal('pending');
+    expect(txPool.getTransactionStatus(old.hash())).be.undefined;
+    const json = txPool.getDroppedTransaction(old.hash())!.toRPCJSON();
+    expect(json.reason).be.equal('replaced');
+    expect(json.replacedBy).be.equal(bufferToHex(replacement.hash()));
+    expect(txPool.getDroppedTransaction(underpriced.hash())?.message).be.equal('replacement transaction underpriced');
+  });
+
+  it('should only record the rejected local transactions', async () => {
+    const node = new MockNode();
+    node.mineBlock([genMockTx(privateKey, 0, 1)]);
+    const txPool = await createTxPool(node);
+
+    const remote = genMockTx(privateKey, 0, 2);
+    const local = genMockTx(privateKey, 0, 3);
+    expect((await txPool.addTxs(remote)).results).be.deep.equal([false]);
+    expect((await txPool.addTxs(local, true)).results).be.deep.equal([false]);
+    expect(txPool.getDroppedTransaction(remote.hash())).be.undefined;
+    expect(txPool.getDroppedTransaction(local.hash())?.reason).be.equal('nonce too low');
+  });
+
+  it('should not record the rejected remote transactions when the pool is full', async () => {
+    const node = new MockNode();
+    const txPool = await createTxPool(node, { globalSlots: 2, globalQueue: 0 });
+    const dropped: DroppedTransaction[] = [];
+    txPool.on('dropped', (txs) => dropped.push(...txs));
+
+    const mined = genMockTx(privateKey, 0, 5);
+    expect((await txPool.addTxs([mined, genMockTx(privateKey, 1, 5)])).results).be.deep.equal([true, true]);
+    // the priced list is rebuilt after the mined transaction is removed
+    await txPool.newBlock(node.mineBlock([mined]));
+    expect((await txPool.addTxs(genMockTx(privateKey2, 0, 5))).results).be.deep.equal([true]);
+
+    const replacement = genMockTx(privateKey, 1, 4);
+    const remote = genMockTx(privateKey3, 0, 1);
+    const local = genMockTx(privateKey3, 0, 2);
+    expect((await txPool.addTxs(replacement)).results).be.deep.equal([false]);
+    expect((await txPool.addTxs(remote)).results).be.deep.equal([false]);
+    expect((await txPool.addTxs(local, true)).results).be.deep.equal([false]);
+    expect(dropped.map(({ hash }) => bufferToHex(hash))).be.deep.equal([bufferToHex(local.hash())]);
+    expect(txPool.getDroppedTransaction(local.hash())?.message).be.equal('transaction underpriced');
+  });
+
+  for (const force of [false, true]) {
+    it(`should not record the included transactions${force ? ' when the block is forced' : ''}`, async () => {
+      const node = new MockNode();
+      const txPool = await createTxPool(node);
+      const dropped: DroppedTransaction[] = [];
+      txPool.on('dropped', (txs) => dropped.push(...txs));
+
+      // pending transactions
+      const pending = [genMockTx(privateKey, 0, 1), genMockTx(privateKey, 1, 1)];
+      // a queued transaction, its previous transaction is unknown
+      const queued = genMockTx(privateKey2, 1, 1);
+      await txPool.addTxs([...pending, queued]);
+      expect(txPool.getPoolStatus()).be.deep.equal({ pending: 2, queued: 1 });
+
+      // the second pending transaction is replaced by another one in the block
+      const replacement = genMockTx(privateKey, 1, 2);
+      await txPool.newBlock(node.mineBlock([pending[0], replacement, genMockTx(privateKey2, 0, 1), queued]), force);
+      expect(txPool.getPoolStatus()).be.deep.equal({ pending: 0, queued: 0 });
+      expect(dropped.map(({ hash }) => hash.toString('hex'))).be.deep.equal(toHashes([pending[1]]));
+      expect(dropped[0].reason).be.equal('nonce too low');
+    });
+  }
+});
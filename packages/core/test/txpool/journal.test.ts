@@ -2,7 +2,7 @@ import fs from 'fs';
 import path from 'path';
 import { expect } from 'chai';
 import { Common } from '@rei-network/common';
-import { Transaction } from '@rei-network/structure';
+import { Transaction, TypedTransaction } from '@rei-network/structure';
 import { FunctionalBufferMap, hexStringToBuffer, setLevel } from '@rei-network/utils';
 import { Journal } from '../../src/txpool/journal';
 
@@ -37,7 +37,7 @@ describe('Journal', () => {
   });
 
   it('should load correctly', async () => {
-    await journal.load(async (trxs: Transaction[]) => {
+    await journal.load(async (trxs: TypedTransaction[]) => {
       trxs.forEach((trx, i) => {
         expect(trx.serialize().equals(testTransactions[i].serialize()), 'transaction should be equal').be.true;
       });
@@ -47,7 +47,7 @@ describe('Journal', () => {
   it('should insert correctly', async () => {
     const another = Transaction.fromTxData(testdata.another);
     await journal.insert(another);
-    await journal.load(async (trxs: Transaction[]) => {
+    await journal.load(async (trxs: TypedTransaction[]) => {
       expect(trxs[4].serialize().equals(another.serialize()), 'transaction should be equal').be.true;
     });
   });
@@ -57,7 +57,7 @@ describe('Journal', () => {
     const remap = new FunctionalBufferMap<Transaction[]>();
     remap.set(addr, testTransactions);
     await journal.rotate(remap);
-    await journal.load(async (trxs: Transaction[]) => {
+    await journal.load(async (trxs: TypedTransaction[]) => {
       trxs.forEach((trx, i) => {
         expect(trx.serialize().equals(testTransactions[i].serialize()), 'transaction should be equal').be.true;
       });
@@ -0,0 +1,29 @@
+import { expect } from 'chai';
+import { Address } from 'ethereumjs-util';
+import { DroppedTransaction } from '../../src/txpool';
+import { MockNode, createTxPool, genMockTx, privateKeys } from './util';
+
+const [privateKey1, privateKey2] = privateKeys;
+const local = Address.fromPrivateKey(privateKey1);
+const receiver = Address.fromString('0x00000000000000000000000000000000000000aa');
+
+describe('TxPoolLocals', () => {
+  it('should exempt local transactions from eviction', async () => {
+    const node = new MockNode();
+    const txPool = await createTxPool(node, { globalSlots: 2, globalQueue: 0, accountSlots: 1, locals: [local] });
+    const dropped: DroppedTransaction[] = [];
+    txPool.on('dropped', (txs) => dropped.push(...txs));
+
+    expect((await txPool.addTxs([genMockTx(privateKey1, 0, 5, receiver), genMockTx(privateKey1, 1, 5, receiver)])).results).be.deep.equal([true, true]);
+    // the priced list is rebuilt by the new block
+    await txPool.newBlock(node.mineBlock([]));
+
+    // the pool is full, but the remote transaction isn't compared with the local transactions
+    expect((await txPool.addTxs(genMockTx(privateKey2, 0, 2, receiver))).results).be.deep.equal([true]);
+    // the local transactions are never underpriced
+    expect((await txPool.addTxs(genMockTx(privateKey1, 2, 1, receiver))).results).be.deep.equal([true]);
+    // the local account exceeds the account slots, but it isn't truncated
+    expect(Object.keys(txPool.getPoolContentFrom(local).pending)).be.deep.equal(['0', '1', '2']);
+    expect(dropped.length).be.equal(0);
+  });
+});
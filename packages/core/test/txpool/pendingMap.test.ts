@@ -1,7 +1,7 @@
 import { expect } from 'chai';
 import { Address, toBuffer } from 'ethereumjs-util';
 import { Common } from '@rei-network/common';
-import { Transaction } from '@rei-network/structure';
+import { Transaction, TypedTransaction } from '@rei-network/structure';
 import { PendingTxMap } from '../../src/txpool';
 
 const common = new Common({ chain: 'rei-devnet' });
@@ -29,7 +29,7 @@ describe('PendingTxMap', () => {
 
   it('should peek succeed', () => {
     const expectTxs = [...sortedTxs2, ...sortedTxs1].sort((tx1, tx2) => tx2.gasPrice.cmp(tx1.gasPrice));
-    let tx: Transaction | undefined;
+    let tx: TypedTransaction | undefined;
     while ((tx = map.peek())) {
       const _tx = expectTxs.shift()!;
       expect(tx === _tx).be.true;
@@ -0,0 +1,40 @@
+import { expect } from 'chai';
+import { Address, bufferToHex } from 'ethereumjs-util';
+import { TxPool } from '../../src/txpool';
+import { MockNode, createTxPool, genMockTx, privateKeys } from './util';
+
+const [privateKey1, privateKey2] = privateKeys;
+const sender1 = Address.fromPrivateKey(privateKey1);
+const sender2 = Address.fromPrivateKey(privateKey2);
+const receiver = Address.fromString('0x00000000000000000000000000000000000000aa');
+
+describe('TxPoolContent', () => {
+  let txPool: TxPool;
+
+  before(async () => {
+    txPool = await createTxPool(new MockNode());
+    const { results } = await txPool.addTxs([genMockTx(privateKey1, 0, 2, receiver), genMockTx(privateKey1, 1, 2), genMockTx(privateKey1, 3, 2, receiver), genMockTx(privateKey2, 5, 2, receiver)]);
+    expect(results).be.deep.equal([true, true, true, true]);
+  });
+
+  it('should get status', () => {
+    expect(txPool.getPoolStatus()).be.deep.equal({ pending: 2, queued: 2 });
+  });
+
+  it('should inspect', () => {
+    const { pending, queued } = txPool.getPoolInspect();
+    expect(pending[sender1.toString()]).be.deep.equal({
+      '0': '0x00000000000000000000000000000000000000AA: 1 wei + 53000 gas × 2 wei',
+      '1': 'contract creation: 1 wei + 53000 gas × 2 wei'
+    });
+    expect(pending[sender2.toString()]).be.undefined;
+    expect(Object.keys(queued)).be.deep.equal([sender1.toString(), sender2.toString()]);
+  });
+
+  it('should get content from the account', () => {
+    const { pending, queued } = txPool.getPoolContentFrom(sender2);
+    expect(pending).be.deep.equal({});
+    expect(queued['5'].hash).be.equal(bufferToHex(genMockTx(privateKey2, 5, 2, receiver).hash()));
+    expect(txPool.getPoolContentFrom(receiver)).be.deep.equal({ pending: {}, queued: {} });
+  });
+});
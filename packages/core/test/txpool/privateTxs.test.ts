@@ -0,0 +1,81 @@
+import { expect } from 'chai';
+import { BN } from 'ethereumjs-util';
+import { TypedTransaction } from '@rei-network/structure';
+import { PrivateTxs } from '../../src/txpool';
+import { genMockTx, privateKeys, toHashes } from './util';
+
+const [privateKey1, privateKey2] = privateKeys;
+
+function drain(txs: PrivateTxs, number: number) {
+  const map = txs.getPendingTxMap(new BN(number));
+  const result: TypedTransaction[] = [];
+  let tx: TypedTransaction | undefined;
+  while ((tx = map.peek())) {
+    result.push(tx);
+    map.shift();
+  }
+  return result;
+}
+
+describe('PrivateTxs', () => {
+  it('should reject duplicated transaction and overflow', () => {
+    const txs = new PrivateTxs(1, 10);
+    const tx = genMockTx(privateKey1, 0, 1);
+    txs.add(tx, new BN(10));
+    expect(() => txs.add(tx, new BN(10))).to.throw('already known');
+    expect(() => txs.add(genMockTx(privateKey1, 1, 1), new BN(10))).to.throw('private transactions full');
+  });
+
+  it('should limit transactions of each account', async () => {
+    const txs = new PrivateTxs(10, 2);
+    txs.add(genMockTx(privateKey1, 0, 1), new BN(5));
+    txs.add(genMockTx(privateKey1, 1, 1), new BN(10));
+    expect(() => txs.add(genMockTx(privateKey1, 2, 1), new BN(10))).to.throw('too many private transactions from the account, limit: 2');
+    txs.add(genMockTx(privateKey2, 0, 1), new BN(10));
+    // the expired transaction is removed
+    await txs.prune(new BN(6), async () => false);
+    txs.add(genMockTx(privateKey1, 2, 1), new BN(10));
+    expect(txs.size).be.equal(3);
+  });
+
+  it('should evict the cheapest transaction', () => {
+    const txs = new PrivateTxs(2, 10);
+    const cheapest = genMockTx(privateKey1, 0, 1);
+    const tx = genMockTx(privateKey2, 0, 5);
+    txs.add(cheapest, new BN(10));
+    txs.add(tx, new BN(10));
+    expect(() => txs.add(genMockTx(privateKey1, 1, 1), new BN(10))).to.throw('private transactions full');
+    const evicted = txs.add(genMockTx(privateKey1, 1, 2), new BN(10));
+    expect(evicted?.tx).be.equal(cheapest);
+    expect(txs.has(cheapest.hash())).be.false;
+    expect(txs.has(tx.hash())).be.true;
+    expect(txs.size).be.equal(2);
+  });
+
+  it('should sort transactions by nonce and price', () => {
+    const txs = new PrivateTxs(10, 10);
+    const tx1 = genMockTx(privateKey1, 1, 100);
+    const tx2 = genMockTx(privateKey1, 0, 1);
+    const tx3 = genMockTx(privateKey2, 0, 10);
+    for (const tx of [tx1, tx2, tx3]) {
+      txs.add(tx, new BN(10));
+    }
+    expect(toHashes(drain(txs, 5))).be.deep.equal(toHashes([tx3, tx2, tx1]));
+  });
+
+  it('should skip and prune expired transactions', async () => {
+    const txs = new PrivateTxs(10, 10);
+    const expired = genMockTx(privateKey1, 0, 1);
+    const stale = genMockTx(privateKey2, 0, 1);
+    const alive = genMockTx(privateKey2, 1, 1);
+    txs.add(expired, new BN(5));
+    txs.add(stale, new BN(10));
+    txs.add(alive, new BN(10));
+    expect(toHashes(drain(txs, 6))).be.deep.equal(toHashes([stale, alive]));
+
+    const removed = await txs.prune(new BN(6), async (tx) => tx === stale);
+    expect(toHashes(removed.map(({ tx }) => tx)).sort()).be.deep.equal(toHashes([expired, stale]).sort());
+    expect(txs.size).be.equal(1);
+    expect(txs.has(alive.hash())).be.true;
+  });
+});
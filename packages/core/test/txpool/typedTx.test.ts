@@ -0,0 +1,100 @@
+import { expect } from 'chai';
+import { BN } from 'ethereumjs-util';
+import { Common } from '@rei-network/common';
+import { TypedTransaction, AccessListEIP2930Transaction, Block, calcEffectiveGasTip, calcTransactionTrie } from '@rei-network/structure';
+import { FunctionalBufferMap } from '@rei-network/utils';
+import { PendingTxMap, DroppedTransaction } from '../../src/txpool';
+import { TxSortedMap } from '../../src/txpool/txmap';
+import { TxPricedList } from '../../src/txpool/txPricedList';
+import { isEnableTxType } from '../../src/hardforks';
+import { preValidateBlock } from '../../src/validation';
+import { MockNode, common, typedCommon, londonCommon, createTxPool, genMockTx, genMock1559Tx, privateKeys, toHashes } from './util';
+
+const [privateKey1, privateKey2, privateKey3] = privateKeys;
+
+describe('TypedTransaction', () => {
+  it('should calculate effective tip', () => {
+    const tx = genMock1559Tx(privateKey1, 0, 100, 10);
+    expect(calcEffectiveGasTip(tx).toNumber()).be.equal(10);
+    expect(calcEffectiveGasTip(tx, new BN(80)).toNumber()).be.equal(10);
+    expect(calcEffectiveGasTip(tx, new BN(95)).toNumber()).be.equal(5);
+    expect(calcEffectiveGasTip(genMockTx(privateKey1, 0, 100), new BN(95)).toNumber()).be.equal(5);
+  });
+
+  it('should require both fee cap and tip cap to be bumped', () => {
+    const map = new TxSortedMap(false);
+    expect(map.push(genMock1559Tx(privateKey1, 0, 100, 10), 10).inserted).be.true;
+    // only fee cap is bumped
+    expect(map.push(genMock1559Tx(privateKey1, 0, 110, 10), 10).inserted).be.false;
+    // only tip cap is bumped
+    expect(map.push(genMock1559Tx(privateKey1, 0, 100, 11), 10).inserted).be.false;
+    const replacement = genMock1559Tx(privateKey1, 0, 110, 11);
+    const { inserted, old } = map.push(replacement, 10);
+    expect(inserted).be.true;
+    expect(old).not.be.undefined;
+    expect(map.toList()[0] === replacement).be.true;
+  });
+
+  it('should sort pending transactions by effective tip', () => {
+    // effective tips under base fee 95 are 5, 10 and 8
+    const tx1 = genMock1559Tx(privateKey1, 0, 100, 20);
+    const tx2 = genMockTx(privateKey2, 0, 105);
+    const tx3 = genMock1559Tx(privateKey3, 0, 200, 8);
+    const map = new PendingTxMap(new BN(95));
+    for (const tx of [tx1, tx2, tx3]) {
+      map.push(tx.getSenderAddress().buf, [tx]);
+    }
+    const sorted: TypedTransaction[] = [];
+    let tx: TypedTransaction | undefined;
+    while ((tx = map.peek())) {
+      sorted.push(tx);
+      map.shift();
+    }
+    expect(toHashes(sorted)).be.deep.equal(toHashes([tx2, tx3, tx1]));
+  });
+
+  it('should check underpriced by effective tip', () => {
+    const all = new FunctionalBufferMap<TypedTransaction>();
+    const cheapest = genMock1559Tx(privateKey1, 0, 100, 20);
+    all.set(cheapest.hash(), cheapest);
+    const list = new TxPricedList(all);
+    list.setBaseFee(new BN(95));
+    expect(list.underpriced(genMockTx(privateKey2, 0, 101))).be.false;
+    expect(list.underpriced(genMock1559Tx(privateKey2, 0, 99, 20))).be.true;
+    // without base fee, the tip cap is used
+    list.setBaseFee(undefined);
+    expect(list.underpriced(genMockTx(privateKey2, 0, 19))).be.true;
+  });
+
+  it('should reject unsupported transaction type', async () => {
+    const txPool = await createTxPool(new MockNode());
+    const dropped: DroppedTransaction[] = [];
+    txPool.on('dropped', (txs) => dropped.push(...txs));
+
+    const tx = genMock1559Tx(privateKey1, 0, 100, 10);
+    expect((await txPool.addTxs(tx, true)).results).be.deep.equal([false]);
+    expect(dropped.length).be.equal(1);
+    expect(dropped[0].message).be.equal('transaction type not supported: 2');
+  });
+
+  it('should enable transaction types by hardfork', () => {
+    expect([0, 1, 2, 3].map((type) => isEnableTxType(common, type))).be.deep.equal([true, false, false, false]);
+    expect([0, 1, 2, 3].map((type) => isEnableTxType(typedCommon, type))).be.deep.equal([true, true, false, false]);
+    expect(isEnableTxType(londonCommon, 2)).be.true;
+  });
+
+  it('should reject typed transactions in blocks before the hardfork', async () => {
+    const genBlock = async (common: Common) => {
+      const tx = AccessListEIP2930Transaction.fromTxData({ nonce: 0, gasLimit: 53000, gasPrice: 1 }, { common }).sign(privateKey1);
+      return Block.fromBlockData({ header: { transactionsTrie: await calcTransactionTrie([tx]) }, transactions: [tx] }, { common });
+    };
+    await preValidateBlock.call(await genBlock(typedCommon));
+    let error: any;
+    try {
+      await preValidateBlock.call(await genBlock(common));
+    } catch (err) {
+      error = err;
+    }
+    expect(error?.message).include('transaction type not supported: 1');
+  });
+});
@@ -0,0 +1,123 @@
+import { Address, BN, toBuffer } from 'ethereumjs-util';
+import { Common } from '@rei-network/common';
+import { Block, FeeMarketEIP1559Transaction, Transaction, TypedTransaction } from '@rei-network/structure';
+import { FunctionalBufferMap } from '@rei-network/utils';
+import { TxPool, TxPoolOptions } from '../../src/txpool';
+import { StakingAccount } from '../../src/stateManager';
+
+export const common = new Common({ chain: 'rei-devnet' });
+common.setHardforkByBlockNumber(0);
+
+export const typedCommon = new Common({ chain: 'rei-devnet' });
+typedCommon.setHardfork('typed-tx');
+
+export const londonCommon = typedCommon.copy();
+londonCommon.setEIPs([1559]);
+
+export const privateKeys = ['0xd8ca4883bbf62202904e402750d593a297b5640dea80b6d5b239c5a9902662c0', '0xd8ca4883bbf62202904e402750d593a297b5640dea80b6d5b239c5a9902662c1', '0xd8ca4883bbf62202904e402750d593a297b5640dea80b6d5b239c5a9902662c2'].map((key) => toBuffer(key));
+
+/**
+ * Generate a signed legacy transaction
+ * @param privateKey - Sender private key
+ * @param nonce - Transaction nonce
+ * @param gasPrice - Gas price
+ * @param to - Receiver, contract creation if it is undefined
+ * @returns Transaction
+ */
+export function genMockTx(privateKey: Buffer, nonce: number, gasPrice: number, to?: Address) {
+  return Transaction.fromTxData({ nonce, to, value: 1, gasLimit: 53000, gasPrice }, { common }).sign(privateKey);
+}
+
+/**
+ * Generate a signed EIP-1559 transaction
+ * @param privateKey - Sender private key
+ * @param nonce - Transaction nonce
+ * @param maxFeePerGas - Fee cap
+ * @param maxPriorityFeePerGas - Tip cap
+ * @returns Transaction
+ */
+export function genMock1559Tx(privateKey: Buffer, nonce: number, maxFeePerGas: number, maxPriorityFeePerGas: number) {
+  return FeeMarketEIP1559Transaction.fromTxData({ nonce, gasLimit: 53000, maxFeePerGas, maxPriorityFeePerGas }, { common: londonCommon }).sign(privateKey);
+}
+
+/**
+ * MockNode provides the chain and the state that the transaction pool depends on,
+ * every account has enough balance and its nonce is updated by the mined blocks
+ */
+export class MockNode {
+  private readonly nonces = new FunctionalBufferMap<BN>();
+  private readonly blocks = new FunctionalBufferMap<Block>();
+  latestBlock: Block;
+
+  readonly db = {
+    getBlockByHashAndNumber: async (hash: Buffer) => {
+      const block = this.blocks.get(hash);
+      if (!block) {
+        throw new Error('missing block');
+      }
+      return block;
+    }
+  };
+
+  readonly accMngr = {
+    totalUnlockedAccounts: () => [] as Buffer[]
+  };
+
+  constructor() {
+    this.latestBlock = Block.fromBlockData({}, { common });
+    this.blocks.set(this.latestBlock.hash(), this.latestBlock);
+  }
+
+  getCommon() {
+    return common;
+  }
+
+  getLatestCommon() {
+    return common;
+  }
+
+  async getStateManager() {
+    return {
+      _common: common,
+      getAccount: async (addr: Address) => new StakingAccount(this.nonces.get(addr.buf)?.clone() ?? new BN(0), new BN(10).pow(new BN(18)))
+    };
+  }
+
+  /**
+   * Mine a new block on the given parent,
+   * the nonces of the senders are updated
+   * @param txs - Transactions of the block
+   * @param parent - Parent block, the latest block if it is undefined
+   * @returns New block
+   */
+  mineBlock(txs: TypedTransaction[], parent = this.latestBlock) {
+    const block = Block.fromBlockData({ header: { number: parent.header.number.addn(1), parentHash: parent.hash(), timestamp: parent.header.timestamp.addn(1) }, transactions: txs }, { common });
+    for (const tx of txs) {
+      this.nonces.set(tx.getSenderAddress().buf, tx.nonce.addn(1));
+    }
+    this.blocks.set(block.hash(), block);
+    this.latestBlock = block;
+    return block;
+  }
+}
+
+/**
+ * Create a transaction pool on the latest block of the node
+ * @param node - Mock node
+ * @param options - Transaction pool options
+ * @returns Transaction pool
+ */
+export async function createTxPool(node: MockNode, options?: Partial<TxPoolOptions>) {
+  const txPool = new TxPool({ ...options, node: node as any });
+  await txPool.newBlock(node.latestBlock, true);
+  return txPool;
+}
+
+/**
+ * Convert transactions to hex hashes for comparison
+ * @param txs - Transactions
+ * @returns Hashes
+ */
+export function toHashes(txs: TypedTransaction[]) {
+  return txs.map((tx) => tx.hash().toString('hex'));
+}
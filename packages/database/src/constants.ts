@@ -14,6 +14,11 @@ export const HEAD_HEADER_KEY = 'LastHeader';
  */
 export const HEAD_BLOCK_KEY = 'LastBlock';
 
+/**
+ * Latest block whose commit has been verified
+ */
+export const HEAD_FINALIZED_BLOCK_KEY = 'LastFinalized';
+
 /**
  * Cique signers
  */
@@ -15,6 +15,15 @@ export function DBSetTD(TD: BN, blockNumber: BN, blockHash: Buffer): DBOp {
   });
 }
 
+/**
+ * Create a operation to save the hash of the finalized block
+ * @param blockHash - Block hash
+ * @returns New operation
+ */
+export function DBSaveHeadFinalizedBlock(blockHash: Buffer) {
+  return DBOp.set(DBTarget.HeadFinalizedBlock, blockHash);
+}
+
 /*
  * This method accepts either a BlockHeader or a Block and returns a list of DatabaseOperation instances
  *
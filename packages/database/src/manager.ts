@@ -1,7 +1,7 @@
 import * as rlp from 'rlp';
 import { Address, BN } from 'ethereumjs-util';
 import type { LevelUp } from 'levelup';
-import { Block, BlockHeader, BlockBuffer, BlockHeaderBuffer, BlockBodyBuffer, Transaction, Receipt } from '@rei-network/structure';
+import { Block, BlockHeader, BlockBuffer, BlockHeaderBuffer, BlockBodyBuffer, TypedTransaction, Receipt } from '@rei-network/structure';
 import { Common } from '@rei-network/common';
 import { CliqueLatestSignerStates, CliqueLatestVotes, CliqueLatestBlockSigners } from './clique';
 import Cache from './cache';
@@ -75,6 +75,20 @@ export class DBManager {
     return this.get(DBTarget.HeadBlock);
   }
 
+  /**
+   * Fetches hash of the finalized block.
+   */
+  async getHeadFinalizedBlock(): Promise<Buffer | null> {
+    try {
+      return await this.get(DBTarget.HeadFinalizedBlock);
+    } catch (err: any) {
+      if (err.type === 'NotFoundError') {
+        return null;
+      }
+      throw err;
+    }
+  }
+
   /**
    * Fetches clique signers.
    */
@@ -189,6 +203,29 @@ export class DBManager {
     return BlockHeader.fromRLPSerializedHeader(encodedHeader, opts);
   }
 
+  /**
+   * Fetches the rlp encoded header of a block given its hash and number.
+   */
+  async getRawHeader(blockHash: Buffer, blockNumber: BN): Promise<Buffer> {
+    return this.get(DBTarget.Header, { blockHash, blockNumber });
+  }
+
+  /**
+   * Fetches the rlp encoded block given its hash and number.
+   */
+  async getRawBlock(blockHash: Buffer, blockNumber: BN): Promise<Buffer> {
+    const header = rlp.decode(await this.getRawHeader(blockHash, blockNumber)) as any as BlockHeaderBuffer;
+    let body: BlockBodyBuffer = [[], []];
+    try {
+      body = await this.getBody(blockHash, blockNumber);
+    } catch (error: any) {
+      if (error.type !== 'NotFoundError') {
+        throw error;
+      }
+    }
+    return rlp.encode([header, ...body]);
+  }
+
   /**
    * Fetches total difficulty for a block given its hash and number.
    */
@@ -263,16 +300,15 @@ export class DBManager {
    * @param txHash - Transaction hash
    * @returns Transaction
    */
-  async getTransaction(txHash: Buffer): Promise<Transaction> {
+  async getTransaction(txHash: Buffer): Promise<TypedTransaction> {
     const blockHeightBuffer = await this.get(DBTarget.TxLookup, { txHash });
     const blockHeight = new BN(blockHeightBuffer);
     const block = await this.getBlock(blockHeight);
     for (let i = 0; i < block.transactions.length; i++) {
       const tx = block.transactions[i];
       if (tx.hash().equals(txHash)) {
-        const _tx = tx as Transaction;
-        _tx.initExtension(block);
-        return _tx;
+        tx.initExtension(block);
+        return tx;
       }
     }
     throw new level.errors.NotFoundError();
@@ -290,7 +326,7 @@ export class DBManager {
     const rawArr = rlp.decode(await this.get(DBTarget.Receipts, { blockHash: block.hash(), blockNumber: blockHeihgt })) as unknown as Buffer[][];
     let lastCumulativeGasUsed = new BN(0);
     for (let i = 0; i < block.transactions.length; i++) {
-      const tx = block.transactions[i] as Transaction;
+      const tx = block.transactions[i];
       const receipt = Receipt.fromValuesArray(rawArr[i]);
       if (tx.hash().equals(txHash)) {
         const gasUsed = receipt.bnCumulativeGasUsed.sub(lastCumulativeGasUsed);
@@ -316,13 +352,24 @@ export class DBManager {
       const raw = rawArr[i];
       const receipt = Receipt.fromValuesArray(raw);
       const gasUsed = receipt.bnCumulativeGasUsed.sub(lastCumulativeGasUsed);
-      block && receipt.initExtension(block, block.transactions[i] as Transaction, gasUsed, i);
+      block && receipt.initExtension(block, block.transactions[i], gasUsed, i);
       lastCumulativeGasUsed = receipt.bnCumulativeGasUsed;
       receipts.push(receipt);
     }
     return receipts;
   }
 
+  /**
+   * Get the rlp encoded receipts by block hash and number
+   * @param number - Block number
+   * @param hash - Block hash
+   * @returns Encoded receipts
+   */
+  async getRawReceipts(number: BN, hash: Buffer): Promise<Buffer[]> {
+    const rawArr = rlp.decode(await this.get(DBTarget.Receipts, { blockHash: hash, blockNumber: number })) as unknown as Buffer[][];
+    return rawArr.map((raw) => rlp.encode(raw));
+  }
+
   /**
    * Get transaction receipt by block hash and block number
    * @param txHash - Transaction hash
@@ -337,7 +384,7 @@ export class DBManager {
     const rawArr = rlp.decode(await this.get(DBTarget.Receipts, { blockHash, blockNumber })) as unknown as Buffer[][];
     let lastCumulativeGasUsed = new BN(0);
     for (let i = 0; i < block.transactions.length; i++) {
-      const tx = block.transactions[i] as Transaction;
+      const tx = block.transactions[i];
       const receipt = Receipt.fromValuesArray(rawArr[i]);
       if (tx.hash().equals(txHash)) {
         const gasUsed = receipt.bnCumulativeGasUsed.sub(lastCumulativeGasUsed);
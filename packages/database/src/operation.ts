@@ -1,12 +1,13 @@
 import { BN } from 'ethereumjs-util';
 import { compressBytes } from './compress';
-import { HEADS_KEY, HEAD_HEADER_KEY, HEAD_BLOCK_KEY, BLOOM_BITS_SECTION_COUNT, tdKey, headerKey, bodyKey, numberToHashKey, hashToNumberKey, CLIQUE_SIGNERS_KEY as CLIQUE_SIGNER_STATES_KEY, CLIQUE_VOTES_KEY, CLIQUE_BLOCK_SIGNERS_KEY, receiptsKey, txLookupKey, bloomBitsKey, snapAccountKey, snapStorageKey, SNAP_ROOT_KEY, SNAP_JOURNAL_KEY, SNAP_GENERATOR_KEY, SNAP_RECOVERY_KEY, SNAP_DISABLED_KEY, SNAP_SYNC_PROGRESS_KEY } from './constants';
+import { HEADS_KEY, HEAD_HEADER_KEY, HEAD_BLOCK_KEY, HEAD_FINALIZED_BLOCK_KEY, BLOOM_BITS_SECTION_COUNT, tdKey, headerKey, bodyKey, numberToHashKey, hashToNumberKey, CLIQUE_SIGNERS_KEY as CLIQUE_SIGNER_STATES_KEY, CLIQUE_VOTES_KEY, CLIQUE_BLOCK_SIGNERS_KEY, receiptsKey, txLookupKey, bloomBitsKey, snapAccountKey, snapStorageKey, SNAP_ROOT_KEY, SNAP_JOURNAL_KEY, SNAP_GENERATOR_KEY, SNAP_RECOVERY_KEY, SNAP_DISABLED_KEY, SNAP_SYNC_PROGRESS_KEY } from './constants';
 import { CacheMap } from './manager';
 
 export enum DBTarget {
   Heads,
   HeadHeader,
   HeadBlock,
+  HeadFinalizedBlock,
   HashToNumber,
   NumberToHash,
   TotalDifficulty,
@@ -85,6 +86,10 @@ export class DBOp {
         this.baseDBOp.key = HEAD_BLOCK_KEY;
         break;
       }
+      case DBTarget.HeadFinalizedBlock: {
+        this.baseDBOp.key = HEAD_FINALIZED_BLOCK_KEY;
+        break;
+      }
       case DBTarget.HashToNumber: {
         this.baseDBOp.key = hashToNumberKey(key!.blockHash!);
         this.cacheString = 'hashToNumber';
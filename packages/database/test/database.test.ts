@@ -6,7 +6,7 @@ import { generateAddress } from 'ethereumjs-util';
 import { hexStringToBN, hexStringToBuffer } from '@rei-network/utils';
 import { Common } from '@rei-network/common';
 import { Block, Receipt, Log } from '@rei-network/structure';
-import { Database, createEncodingLevelDB, DBSaveTxLookup, DBSetBlockOrHeader, DBSetHashToNumber, DBSaveLookups, DBSetTD, DBSaveReceipts } from '../src';
+import { Database, createEncodingLevelDB, DBSaveTxLookup, DBSetBlockOrHeader, DBSetHashToNumber, DBSaveLookups, DBSetTD, DBSaveReceipts, DBSaveHeadFinalizedBlock } from '../src';
 
 describe('Database', () => {
   let database: Database;
@@ -71,6 +71,27 @@ describe('Database', () => {
     expect(rs.length, 'receipt length should be equal').be.equal(testreceipts.length);
   });
 
+  it('should get raw header and block', async () => {
+    const rawHeader = await database.getRawHeader(testblock.hash(), testblock.header.number);
+    expect(rawHeader.equals(testblock.header.serialize()), 'raw header should be equal').be.true;
+    const rawBlock = await database.getRawBlock(testblock.hash(), testblock.header.number);
+    expect(rawBlock.equals(testblock.serialize()), 'raw block should be equal').be.true;
+  });
+
+  it('should get raw receipts', async () => {
+    const rawReceipts = await database.getRawReceipts(testblock.header.number, testblock.hash());
+    rawReceipts.forEach((raw, i) => {
+      expect(raw.equals(testreceipts[i].serialize()), 'raw receipt should be equal').be.true;
+    });
+    expect(rawReceipts.length, 'raw receipts length should be equal').be.equal(testreceipts.length);
+  });
+
+  it('should save finalized block', async () => {
+    expect(await database.getHeadFinalizedBlock()).be.null;
+    await database.batch([DBSaveHeadFinalizedBlock(testblock.hash())]);
+    expect((await database.getHeadFinalizedBlock())?.equals(testblock.hash())).be.true;
+  });
+
   after(async () => {
     await testdb.close();
     fs.rmdirSync(testdir, { recursive: true });
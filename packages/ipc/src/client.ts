@@ -35,8 +35,10 @@ export class IpcClient {
         this.replServer.context.eth = modules.eth;
         this.replServer.context.net = modules.net;
         this.replServer.context.rei = modules.rei;
+        this.replServer.context.trace = modules.trace;
         this.replServer.context.txpool = modules.txpool;
         this.replServer.context.web3 = modules.web3;
+        this.replServer.context.rpc = modules.rpc;
 
         this.replServer.on('exit', () => {
           console.log('Received exit signal');
@@ -20,166 +20,223 @@ function passMessageToJsonAndEmit(method: string, ...args) {
 
 export const admin = {
   get peers() {
-    return passMessageToJsonAndEmit('peers');
+    return passMessageToJsonAndEmit('admin_peers');
   },
   get nodeInfo() {
-    return passMessageToJsonAndEmit('nodeInfo');
+    return passMessageToJsonAndEmit('admin_nodeInfo');
   },
   get datadir() {
-    return passMessageToJsonAndEmit('datadir');
+    return passMessageToJsonAndEmit('admin_datadir');
   },
   rpcRunning() {
-    passMessageToJsonAndEmit('rpcRunning');
+    passMessageToJsonAndEmit('admin_rpcRunning');
+  },
+  rpcRateLimits() {
+    passMessageToJsonAndEmit('admin_rpcRateLimits');
   },
   startRPC(host?: string, port?: number) {
-    passMessageToJsonAndEmit('startRPC', host, port);
+    passMessageToJsonAndEmit('admin_startRPC', host, port);
   },
   stopRPC() {
-    passMessageToJsonAndEmit('stopRPC');
+    passMessageToJsonAndEmit('admin_stopRPC');
   },
   addPeer(enrTxt: string) {
-    passMessageToJsonAndEmit('addPeer', enrTxt);
+    passMessageToJsonAndEmit('admin_addPeer', enrTxt);
   },
   removePeer(enrTxt: string) {
-    passMessageToJsonAndEmit('removePeer', enrTxt);
+    passMessageToJsonAndEmit('admin_removePeer', enrTxt);
   },
   addTrustedPeer(enrTxt: string) {
-    passMessageToJsonAndEmit('addTrustedPeer', enrTxt);
+    passMessageToJsonAndEmit('admin_addTrustedPeer', enrTxt);
   },
   removeTrutedPeer(enrTxt: string) {
-    passMessageToJsonAndEmit('removeTrutedPeer', enrTxt);
+    passMessageToJsonAndEmit('admin_removeTrutedPeer', enrTxt);
   },
   isTrusted(enrTxt: string) {
-    passMessageToJsonAndEmit('isTrusted', enrTxt);
+    passMessageToJsonAndEmit('admin_isTrusted', enrTxt);
   }
 };
 
 export const debug = {
   traceBlock(blockRlp: string, options: any) {
-    passMessageToJsonAndEmit('traceBlock', blockRlp, options);
+    passMessageToJsonAndEmit('debug_traceBlock', blockRlp, options);
   },
   traceBlockByNumber(tag: string, options: any) {
-    passMessageToJsonAndEmit('traceBlockByNumber', tag, options);
+    passMessageToJsonAndEmit('debug_traceBlockByNumber', tag, options);
   },
   traceBlockByHash(hash: string, options: any) {
-    passMessageToJsonAndEmit('traceBlockByHash', hash, options);
+    passMessageToJsonAndEmit('debug_traceBlockByHash', hash, options);
   },
   traceTransaction(hash: string, options: any) {
-    passMessageToJsonAndEmit('traceTransaction', hash, options);
+    passMessageToJsonAndEmit('debug_traceTransaction', hash, options);
   },
   traceCall(data: CallData, tag: string, options: any) {
-    passMessageToJsonAndEmit('traceCall', data, tag, options);
+    passMessageToJsonAndEmit('debug_traceCall', data, tag, options);
+  },
+  getRawHeader(tag: string) {
+    passMessageToJsonAndEmit('debug_getRawHeader', tag);
+  },
+  getRawBlock(tag: string) {
+    passMessageToJsonAndEmit('debug_getRawBlock', tag);
+  },
+  getRawReceipts(tag: string) {
+    passMessageToJsonAndEmit('debug_getRawReceipts', tag);
+  },
+  getRawTransaction(hash: string) {
+    passMessageToJsonAndEmit('debug_getRawTransaction', hash);
+  },
+  accountRange(tag: string, start: string, maxResults: number, nocode: boolean, nostorage: boolean) {
+    passMessageToJsonAndEmit('debug_accountRange', tag, start, maxResults, nocode, nostorage);
+  },
+  storageRangeAt(blockHash: string, txIndex: number, address: string, startKey: string, limit: number) {
+    passMessageToJsonAndEmit('debug_storageRangeAt', blockHash, txIndex, address, startKey, limit);
+  },
+  dumpBlock(tag: string) {
+    passMessageToJsonAndEmit('debug_dumpBlock', tag);
+  },
+  setHead(number: string) {
+    passMessageToJsonAndEmit('debug_setHead', number);
+  },
+  verbosity(level: string | number) {
+    passMessageToJsonAndEmit('debug_verbosity', level);
+  },
+  vmodule(vmodule: string) {
+    passMessageToJsonAndEmit('debug_vmodule', vmodule);
   }
 };
 
 export const eth = {
   protocolVersion() {
-    passMessageToJsonAndEmit('protocolVersion');
+    passMessageToJsonAndEmit('eth_protocolVersion');
   },
   syncing() {
-    passMessageToJsonAndEmit('syncing');
+    passMessageToJsonAndEmit('eth_syncing');
   },
   chainId() {
-    passMessageToJsonAndEmit('chainId');
+    passMessageToJsonAndEmit('eth_chainId');
   },
   coinbase() {
-    passMessageToJsonAndEmit('coinbase');
+    passMessageToJsonAndEmit('eth_coinbase');
   },
   mining() {
-    passMessageToJsonAndEmit('mining');
+    passMessageToJsonAndEmit('eth_mining');
   },
   hashrate() {
-    passMessageToJsonAndEmit('hashrate');
+    passMessageToJsonAndEmit('eth_hashrate');
   },
   gasPrice() {
-    passMessageToJsonAndEmit('gasPrice');
+    passMessageToJsonAndEmit('eth_gasPrice');
+  },
+  maxPriorityFeePerGas() {
+    passMessageToJsonAndEmit('eth_maxPriorityFeePerGas');
+  },
+  feeHistory(blockCount: string | number, newestBlock: any, rewardPercentiles?: number[]) {
+    passMessageToJsonAndEmit('eth_feeHistory', blockCount, newestBlock, rewardPercentiles);
   },
   accounts() {
-    passMessageToJsonAndEmit('accounts');
+    passMessageToJsonAndEmit('eth_accounts');
   },
   blockNumber() {
-    passMessageToJsonAndEmit('blockNumber');
+    passMessageToJsonAndEmit('eth_blockNumber');
   },
   getBalance(address: string, tag: any) {
-    passMessageToJsonAndEmit('getBalance', address, tag);
+    passMessageToJsonAndEmit('eth_getBalance', address, tag);
   },
   getStorageAt(address: string, key: string, tag: any) {
-    passMessageToJsonAndEmit('getStorageAt', address, key, tag);
+    passMessageToJsonAndEmit('eth_getStorageAt', address, key, tag);
   },
   getTransactionCount(address: string, tag: any) {
-    passMessageToJsonAndEmit('getTransactionCount', address, tag);
+    passMessageToJsonAndEmit('eth_getTransactionCount', address, tag);
   },
   getBlockTransactionCountByHash(hash: string) {
-    passMessageToJsonAndEmit('getBlockTransactionCountByHash', hash);
+    passMessageToJsonAndEmit('eth_getBlockTransactionCountByHash', hash);
   },
   getBlockTransactionCountByNumber(tag: any) {
-    passMessageToJsonAndEmit('getBlockTransactionCountByNumber', tag);
+    passMessageToJsonAndEmit('eth_getBlockTransactionCountByNumber', tag);
   },
   getUncleCountByBlockHash(hash: string) {
-    passMessageToJsonAndEmit('getUncleCountByBlockHash', hash);
+    passMessageToJsonAndEmit('eth_getUncleCountByBlockHash', hash);
   },
   getUncleCountByBlockNumber(tag: any) {
-    passMessageToJsonAndEmit('getUncleCountByBlockNumber', tag);
+    passMessageToJsonAndEmit('eth_getUncleCountByBlockNumber', tag);
   },
   getCode(address: string, tag: any) {
-    passMessageToJsonAndEmit('getCode', address, tag);
+    passMessageToJsonAndEmit('eth_getCode', address, tag);
+  },
+  getProof(address: string, storageKeys: string[], tag: any) {
+    passMessageToJsonAndEmit('eth_getProof', address, storageKeys, tag);
   },
   sign(address: string, data: string) {
-    passMessageToJsonAndEmit('sign', address, data);
+    passMessageToJsonAndEmit('eth_sign', address, data);
   },
   signTransaction(data: CallData) {
-    passMessageToJsonAndEmit('signTransaction', data);
+    passMessageToJsonAndEmit('eth_signTransaction', data);
   },
   sendTransaction(data: CallData) {
-    passMessageToJsonAndEmit('sendTransaction', data);
+    passMessageToJsonAndEmit('eth_sendTransaction', data);
   },
   sendRawTransaction(rawtx: string) {
-    passMessageToJsonAndEmit('sendRawTransaction', rawtx);
+    passMessageToJsonAndEmit('eth_sendRawTransaction', rawtx);
+  },
+  sendPrivateTransaction(rawtx: string, options?: { maxBlockNumber?: string }) {
+    passMessageToJsonAndEmit('eth_sendPrivateTransaction', rawtx, options);
+  },
+  call(data: CallData, tag: any, overrides?: any) {
+    passMessageToJsonAndEmit('eth_call', data, tag, overrides);
+  },
+  estimateGas(data: CallData, tag: any, overrides?: any) {
+    passMessageToJsonAndEmit('eth_estimateGas', data, tag, overrides);
+  },
+  callBundle(rawTxs: string[], blockNumber?: string, stateTag?: any, timestamp?: string) {
+    passMessageToJsonAndEmit('eth_callBundle', rawTxs, blockNumber, stateTag, timestamp);
   },
-  call(data: CallData, tag: any) {
-    passMessageToJsonAndEmit('call', data, tag);
+  simulateV1(payload: { blockStateCalls: any[] }, tag: any) {
+    passMessageToJsonAndEmit('eth_simulateV1', payload, tag);
   },
-  estimateGas(data: CallData, tag: any) {
-    passMessageToJsonAndEmit('estimateGas', data, tag);
+  createAccessList(data: CallData, tag: any) {
+    passMessageToJsonAndEmit('eth_createAccessList', data, tag);
   },
   getBlockByHash(hash: string, fullTransactions: boolean) {
-    passMessageToJsonAndEmit('getBlockByHash', hash, fullTransactions);
+    passMessageToJsonAndEmit('eth_getBlockByHash', hash, fullTransactions);
   },
   getBlockByNumber(tag: any, fullTransactions: boolean) {
-    passMessageToJsonAndEmit('getBlockByNumber', tag, fullTransactions);
+    passMessageToJsonAndEmit('eth_getBlockByNumber', tag, fullTransactions);
   },
   getTransactionByHash(hash: string) {
-    passMessageToJsonAndEmit('getTransactionByHash', hash);
+    passMessageToJsonAndEmit('eth_getTransactionByHash', hash);
   },
   getTransactionByBlockHashAndIndex(hash: string, index: string) {
-    passMessageToJsonAndEmit('getTransactionByBlockHashAndIndex', hash, index);
+    passMessageToJsonAndEmit('eth_getTransactionByBlockHashAndIndex', hash, index);
   },
   getTransactionByBlockNumberAndIndex(tag: any, index: string) {
-    passMessageToJsonAndEmit('getTransactionByBlockNumberAndIndex', tag, index);
+    passMessageToJsonAndEmit('eth_getTransactionByBlockNumberAndIndex', tag, index);
   },
   getTransactionReceipt(hash: string) {
-    passMessageToJsonAndEmit('getTransactionReceipt', hash);
+    passMessageToJsonAndEmit('eth_getTransactionReceipt', hash);
+  },
+  getBlockReceipts(tag: string) {
+    passMessageToJsonAndEmit('eth_getBlockReceipts', tag);
   },
   getUncleByBlockHashAndIndex() {
-    passMessageToJsonAndEmit('getUncleByBlockHashAndIndex');
+    passMessageToJsonAndEmit('eth_getUncleByBlockHashAndIndex');
   },
   getUncleByBlockNumberAndIndex() {
-    passMessageToJsonAndEmit('getUncleByBlockNumberAndIndex');
+    passMessageToJsonAndEmit('eth_getUncleByBlockNumberAndIndex');
   },
   getCompilers() {
-    passMessageToJsonAndEmit('getCompilers');
+    passMessageToJsonAndEmit('eth_getCompilers');
   },
   compileSolidity() {
-    passMessageToJsonAndEmit('compileSolidity');
+    passMessageToJsonAndEmit('eth_compileSolidity');
   },
   compileLLL() {
-    passMessageToJsonAndEmit('compileLLL');
+    passMessageToJsonAndEmit('eth_compileLLL');
   },
   compileSerpent() {
-    passMessageToJsonAndEmit('compileSerpent');
+    passMessageToJsonAndEmit('eth_compileSerpent');
   },
   newFilter(fromBlock?: string, toBlock?: string, _addresses?: string | string[], topics?: TopicsData) {
-    passMessageToJsonAndEmit('newFilter', { fromBlock, toBlock, address: _addresses, topics: topics });
+    passMessageToJsonAndEmit('eth_newFilter', { fromBlock, toBlock, address: _addresses, topics: topics });
   },
   newBlockFilter() {
     passMessageToJsonAndEmit('eth_newBlockFilter');
@@ -212,48 +269,90 @@ export const eth = {
 
 export const net = {
   version() {
-    passMessageToJsonAndEmit('version');
+    passMessageToJsonAndEmit('net_version');
   },
   listenging() {
-    passMessageToJsonAndEmit('listenging');
+    passMessageToJsonAndEmit('net_listenging');
   },
   peerCount() {
-    passMessageToJsonAndEmit('peerCount');
+    passMessageToJsonAndEmit('net_peerCount');
   }
 };
 
 export const rei = {
   getCrude(address: string, tag: any) {
-    passMessageToJsonAndEmit('getCrude', address, tag);
+    passMessageToJsonAndEmit('rei_getCrude', address, tag);
   },
   getUsedCrude(address: string, tag: any) {
-    passMessageToJsonAndEmit('getUsedCrude', address, tag);
+    passMessageToJsonAndEmit('rei_getUsedCrude', address, tag);
   },
   getTotalAmount(address: string, tag: any) {
-    passMessageToJsonAndEmit('getTotalAmount', address, tag);
+    passMessageToJsonAndEmit('rei_getTotalAmount', address, tag);
   },
   getDailyFee(tag: string) {
-    passMessageToJsonAndEmit('getDailyFee', tag);
+    passMessageToJsonAndEmit('rei_getDailyFee', tag);
   },
   getMinerRewardFactor(tag: string) {
-    passMessageToJsonAndEmit('getMinerRewardFactor', tag);
+    passMessageToJsonAndEmit('rei_getMinerRewardFactor', tag);
   },
   getMinerInfo(tag: string) {
-    passMessageToJsonAndEmit('getMinerInfo', tag);
+    passMessageToJsonAndEmit('rei_getMinerInfo', tag);
+  },
+  getValidators(tag: string) {
+    passMessageToJsonAndEmit('rei_getValidators', tag);
+  },
+  getIndexedValidators(tag: string) {
+    passMessageToJsonAndEmit('rei_getIndexedValidators', tag);
+  },
+  getTransactionStatus(hash: string) {
+    passMessageToJsonAndEmit('rei_getTransactionStatus', hash);
+  },
+  getLogsPaged(filter: { fromBlock?: string; toBlock?: string; address?: string | string[]; topics?: TopicsData }, cursor?: { blockNumber: string; transactionIndex: string; logIndex: string }, limit?: string) {
+    passMessageToJsonAndEmit('rei_getLogsPaged', filter, cursor, limit);
+  }
+};
+
+export const trace = {
+  block(tag: string) {
+    passMessageToJsonAndEmit('trace_block', tag);
+  },
+  transaction(hash: string) {
+    passMessageToJsonAndEmit('trace_transaction', hash);
+  },
+  replayTransaction(hash: string, types: string[]) {
+    passMessageToJsonAndEmit('trace_replayTransaction', hash, types);
+  },
+  filter(filter: { fromBlock?: string; toBlock?: string; fromAddress?: string[]; toAddress?: string[]; after?: number; count?: number }) {
+    passMessageToJsonAndEmit('trace_filter', filter);
   }
 };
 
 export const txpool = {
   content() {
-    passMessageToJsonAndEmit('content');
+    passMessageToJsonAndEmit('txpool_content');
+  },
+  status() {
+    passMessageToJsonAndEmit('txpool_status');
+  },
+  inspect() {
+    passMessageToJsonAndEmit('txpool_inspect');
+  },
+  contentFrom(address: string) {
+    passMessageToJsonAndEmit('txpool_contentFrom', address);
+  }
+};
+
+export const rpc = {
+  modules() {
+    passMessageToJsonAndEmit('rpc_modules');
   }
 };
 
 export const web3 = {
   clientVersion() {
-    passMessageToJsonAndEmit('clientVersion');
+    passMessageToJsonAndEmit('web3_clientVersion');
   },
   sha3(data: string) {
-    passMessageToJsonAndEmit('sha3', data);
+    passMessageToJsonAndEmit('web3_sha3', data);
   }
 };
@@ -6,10 +6,10 @@ import { hexStringToBN, logger } from '@rei-network/utils';
 import { ipcId, ipcAppspace } from './constants';
 
 export class IpcServer {
-  private readonly controllers: Map<string, any>;
+  private readonly apiServer: ApiServer;
 
   constructor(apiServer: ApiServer, datadir: string) {
-    this.controllers = apiServer.controllers;
+    this.apiServer = apiServer;
     ipc.config.id = ipcId;
     ipc.config.maxConnections = 1;
     ipc.config.socketRoot = path.join(datadir, '/');
@@ -26,7 +26,7 @@ export class IpcServer {
       ipc.serve(() => {
         ipc.server.on('connect', async (socket) => {
           logger.info('IPC client connected', socket.server._pipeName);
-          const ethController = this.controllers.get('eth')!;
+          const ethController = this.apiServer.controllers.get('eth')!;
           const coinbase = ethController.coinbase();
           const block = await ethController.getBlockByNumber(['latest', true]);
           const time = new Date(hexStringToBN(block?.timestamp!).toNumber() * 1000).toUTCString();
@@ -48,11 +48,11 @@ To exit, press ctrl-d or type .exit
         ipc.server.on('message', async (data: string, socket: any) => {
           try {
             const { method, params } = JSON.parse(data);
-            const controller = Array.from(this.controllers.values()).find((c) => method in c);
-            if (!controller) {
+            const handler = method === 'rpc_modules' ? () => this.apiServer.getModules() : this.apiServer.getMethod(method);
+            if (!handler) {
               throw new Error(`Unknown method ${method}`);
             }
-            let result = controller[method](params);
+            let result = handler(params);
             result = util.types.isPromise(result) ? await result : result;
             ipc.server.emit(socket, 'message', JSON.stringify(result));
           } catch (err: any) {
@@ -6,7 +6,7 @@ import { v4, v6 } from 'is-ip';
 import { ENR } from '@gxchain2/discv5';
 import { createKeypairFromPeerId } from '@gxchain2/discv5/lib/keypair';
 import { Message as Discv5Message, MessageType } from '@gxchain2/discv5/lib/message';
-import { logger, ignoreError, Channel, AbortableTimer } from '@rei-network/utils';
+import { createLogger, ignoreError, Channel, AbortableTimer } from '@rei-network/utils';
 import { ExpHeap } from './expheap';
 import { NodeDB } from './nodedb';
 import { Peer } from './peer';
@@ -15,6 +15,8 @@ import { Protocol, ProtocolHandler, ILibp2p, IDiscv5, Connection, Stream } from
 import * as m from './messages';
 import * as c from './config';
 
+const logger = createLogger('network');
+
 enum Libp2pPeerValue {
   trusted = 1,
   installed = 0.66,
@@ -1,8 +1,10 @@
 import EventEmitter from 'events';
 import pipe from 'it-pipe';
-import { Channel, logger, ignoreError } from '@rei-network/utils';
+import { Channel, createLogger, ignoreError } from '@rei-network/utils';
 import { Connection, Protocol, ProtocolHandler, Stream } from './types';
 
+const logger = createLogger('network');
+
 /**
  * A message stream for a single protocol
  */
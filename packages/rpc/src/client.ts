@@ -1,6 +1,6 @@
 import { bufferToHex } from 'ethereumjs-util';
 import { BlockHeader, Log } from '@rei-network/structure';
-import { SyncingStatus } from '@rei-network/api';
+import { SyncingStatus, DroppedTransactionInfo } from '@rei-network/api';
 import { JSONRPC_VERSION } from './types';
 
 /**
@@ -111,4 +111,22 @@ export class WebsocketClient {
       }
     });
   }
+
+  /**
+   * Notify dropped transactions to remote client
+   * @param subscription - Subscription identity
+   * @param dropped - Dropped transactions
+   */
+  notifyDroppedTransactions(subscription: string, dropped: DroppedTransactionInfo[]) {
+    for (const info of dropped) {
+      this.send({
+        jsonrpc: JSONRPC_VERSION,
+        method: 'eth_subscription',
+        params: {
+          subscription,
+          result: info
+        }
+      });
+    }
+  }
 }
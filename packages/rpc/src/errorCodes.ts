@@ -22,6 +22,14 @@ export default {
     code: -32603,
     message: 'Internal error'
   },
+  UNAUTHORIZED: {
+    code: -32001,
+    message: 'Unauthorized'
+  },
+  LIMIT_EXCEEDED: {
+    code: -32005,
+    message: 'Limit exceeded'
+  },
   SERVER_ERROR: {
     code: -32000,
     message: 'Server error'
@@ -0,0 +1,126 @@
+import { DocumentNode, FieldNode, FragmentDefinitionNode, Kind, OperationDefinitionNode, SelectionSetNode, valueFromASTUntyped } from 'graphql';
+
+// rate limit methods of the time-consuming and state reading fields, other fields are free
+const fieldMethods: { [field: string]: string } = {
+  logs: 'eth_getLogs',
+  call: 'eth_call',
+  estimateGas: 'eth_estimateGas',
+  sendRawTransaction: 'eth_sendRawTransaction',
+  balance: 'eth_getBalance',
+  code: 'eth_getCode',
+  storage: 'eth_getStorageAt'
+};
+
+// estimated number of items of the list fields, their sub fields are counted for each item
+const listFieldSizes: { [field: string]: number } = {
+  transactions: 100,
+  ommers: 2,
+  logs: 100
+};
+
+export type QueryComplexity = {
+  // max nesting depth of fields
+  depth: number;
+  // number of resolved fields, the fields of each block in a range and each item of a list are counted separately
+  fields: number;
+  // rate limit methods and their counts
+  methods: Map<string, number>;
+};
+
+/**
+ * Parse the block number of `blocks(from, to)`
+ * @param value - Argument value
+ * @returns Block number, undefined if it is missing or invalid
+ */
+function parseBlockNumber(value: any) {
+  if (value === undefined || value === null) {
+    return;
+  }
+  const number = Number(value);
+  return Number.isSafeInteger(number) && number >= 0 ? number : undefined;
+}
+
+/**
+ * Estimate the number of blocks returned by `blocks(from, to)`
+ * @param field - Field node
+ * @param variables - Query variables
+ * @param maxRange - Max block range
+ * @returns Number of blocks
+ */
+function blockRange(field: FieldNode, variables: { [name: string]: any }, maxRange: number) {
+  const args: { [name: string]: any } = {};
+  for (const arg of field.arguments ?? []) {
+    args[arg.name.value] = valueFromASTUntyped(arg.value, variables);
+  }
+  if (args.from === undefined && args.to === undefined) {
+    // only the latest block
+    return 1;
+  }
+  const from = parseBlockNumber(args.from);
+  const to = parseBlockNumber(args.to);
+  if (from === undefined || to === undefined) {
+    // the range depends on the latest block
+    return maxRange;
+  }
+  return Math.max(1, Math.min(to - from + 1, maxRange));
+}
+
+/**
+ * Analyze the complexity of a validated graphql document
+ * @param document - Validated document
+ * @param variables - Query variables
+ * @param operationName - Operation name, all operations are analyzed if it is undefined
+ * @param maxRange - Max block range of `blocks(from, to)`
+ * @returns Query complexity
+ */
+export function analyzeQuery(document: DocumentNode, variables: { [name: string]: any } | undefined, operationName: string | undefined, maxRange: number): QueryComplexity {
+  const fragments = new Map<string, FragmentDefinitionNode>();
+  const operations: OperationDefinitionNode[] = [];
+  for (const definition of document.definitions) {
+    if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+      fragments.set(definition.name.value, definition);
+    } else if (definition.kind === Kind.OPERATION_DEFINITION && (!operationName || definition.name?.value === operationName)) {
+      operations.push(definition);
+    }
+  }
+
+  const result: QueryComplexity = { depth: 0, fields: 0, methods: new Map<string, number>() };
+  const addMethod = (method: string, count: number) => result.methods.set(method, (result.methods.get(method) ?? 0) + count);
+  // the validation rules ensure there are no fragment cycles
+  const visit = (selectionSet: SelectionSetNode, depth: number, multiplier: number) => {
+    for (const selection of selectionSet.selections) {
+      if (selection.kind === Kind.FRAGMENT_SPREAD) {
+        const fragment = fragments.get(selection.name.value);
+        fragment && visit(fragment.selectionSet, depth, multiplier);
+      } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+        visit(selection.selectionSet, depth, multiplier);
+      } else {
+        const name = selection.name.value;
+        if (name.startsWith('__')) {
+          continue;
+        }
+        result.depth = Math.max(result.depth, depth + 1);
+        result.fields += multiplier;
+        if (depth === 0) {
+          // each top-level field is charged as a request
+          addMethod('graphql', 1);
+        }
+        const method = fieldMethods[name];
+        if (method) {
+          addMethod(method, multiplier);
+        }
+        if (selection.selectionSet) {
+          let size = listFieldSizes[name] ?? 1;
+          if (depth === 0 && name === 'blocks') {
+            size = blockRange(selection, variables ?? {}, maxRange);
+          }
+          visit(selection.selectionSet, depth + 1, multiplier * size);
+        }
+      }
+    }
+  };
+  for (const operation of operations) {
+    visit(operation.selectionSet, 0, 1);
+  }
+  return result;
+}
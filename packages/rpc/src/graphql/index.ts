@@ -0,0 +1,149 @@
+import { DocumentNode, execute as executeQuery, parse, validate } from 'graphql';
+import { createLogger } from '@rei-network/utils';
+import { ApiServer } from '@rei-network/api';
+import { Authenticator } from '../jsonRPCMiddleware';
+import { RateLimiter } from '../rateLimiter';
+import { GraphQLContext, GraphQLRoot } from './resolvers';
+import { schema } from './schema';
+import { analyzeQuery, QueryComplexity } from './complexity';
+
+const logger = createLogger('rpc');
+
+// max nesting depth of fields, like `block { parent { parent { ... } } }`
+const maxQueryDepth = 10;
+// max number of resolved fields
+const maxQueryFields = 10000;
+
+type PreparedQuery = {
+  document: DocumentNode;
+  variables?: { [name: string]: any };
+  operationName?: string;
+  complexity: QueryComplexity;
+};
+
+/**
+ * GraphQLMiddleware serves EIP-1767 graphql queries,
+ * the request must be able to reach the `eth` namespace
+ */
+export class GraphQLMiddleware {
+  private readonly apiServer: ApiServer;
+  private readonly authenticate: Authenticator;
+  private readonly rateLimiter?: RateLimiter;
+
+  constructor(apiServer: ApiServer, authenticate: Authenticator, rateLimiter?: RateLimiter) {
+    this.apiServer = apiServer;
+    this.authenticate = authenticate;
+    this.rateLimiter = rateLimiter;
+  }
+
+  /**
+   * Parse and validate graphql query, then analyze its complexity
+   * @param query - Query document
+   * @param variables - Query variables
+   * @param operationName - Operation name
+   * @returns Prepared request, or the errors
+   */
+  private prepare(query: any, variables: any, operationName: any): { errors: readonly { message: string }[] } | PreparedQuery {
+    if (typeof query !== 'string') {
+      return { errors: [{ message: 'missing query' }] };
+    }
+    if (typeof variables === 'string') {
+      try {
+        variables = JSON.parse(variables);
+      } catch (err) {
+        return { errors: [{ message: 'invalid variables' }] };
+      }
+    }
+
+    let document: DocumentNode;
+    try {
+      document = parse(query);
+    } catch (err: any) {
+      return { errors: [err] };
+    }
+    const errors = validate(schema, document);
+    if (errors.length > 0) {
+      return { errors };
+    }
+
+    const complexity = analyzeQuery(document, variables ?? undefined, operationName ?? undefined, this.apiServer.maxLogsBlockRange);
+    if (complexity.depth > maxQueryDepth) {
+      return { errors: [{ message: `query is too deep, max depth is ${maxQueryDepth}` }] };
+    }
+    if (complexity.fields > maxQueryFields) {
+      return { errors: [{ message: `query is too complex, max fields is ${maxQueryFields}` }] };
+    }
+    return { document, variables, operationName, complexity };
+  }
+
+  /**
+   * Execute graphql query
+   * @param query - Prepared query
+   * @param apis - Namespaces that the request can reach
+   * @returns Execution result
+   */
+  private async execute({ document, variables, operationName }: PreparedQuery, apis: Set<string>) {
+    const startAt = Date.now();
+    const ctx = new GraphQLContext(this.apiServer, apis);
+    const result = await executeQuery({
+      schema,
+      document,
+      rootValue: new GraphQLRoot(ctx),
+      contextValue: ctx,
+      variableValues: variables,
+      operationName
+    });
+    logger.debug('📦 GraphQL served, usage:', Date.now() - startAt);
+    return result;
+  }
+
+  /**
+   * Create express handler for `GET /graphql` and `POST /graphql`
+   */
+  makeMiddleWare() {
+    return (req: any, res: any) => {
+      let apis: Set<string>;
+      try {
+        apis = this.authenticate(req.headers['authorization']);
+      } catch (err: any) {
+        res.status(401).send(err.message);
+        return;
+      }
+      if (!apis.has('eth')) {
+        res.status(401).send('unauthorized');
+        return;
+      }
+
+      const { query, variables, operationName } = req.method === 'GET' ? req.query : req.body ?? {};
+      const prepared = this.prepare(query, variables, operationName);
+      if ('errors' in prepared) {
+        res.status(400).send(prepared);
+        return;
+      }
+      // charge each top-level field and each time-consuming field,
+      // a request without any field is charged as a top-level field
+      if (this.rateLimiter) {
+        let cost = this.rateLimiter.getCost('graphql');
+        if (prepared.complexity.methods.size > 0) {
+          cost = 0;
+          for (const [method, count] of prepared.complexity.methods) {
+            cost += this.rateLimiter.getCost(method) * count;
+          }
+        }
+        if (!this.rateLimiter.consumeCost(`ip:${req.ip}`, cost)) {
+          res.status(429).send({ errors: [{ message: 'rate limit exceeded' }] });
+          return;
+        }
+      }
+
+      this.execute(prepared, apis)
+        .then((result) => {
+          res.status(result.errors && !('data' in result) ? 400 : 200).send(result);
+        })
+        .catch((err) => {
+          logger.debug('GraphQLMiddleware::execute, catch error:', err);
+          res.status(500).send({ errors: [{ message: err.message }] });
+        });
+    };
+  }
+}
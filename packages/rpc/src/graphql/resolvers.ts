@@ -0,0 +1,630 @@
+import { Address, BN, bnToHex, bufferToHex, setLengthLeft } from 'ethereumjs-util';
+import { Block, Receipt, Log, TypedTransaction, FeeMarketEIP1559Transaction, AccessListEIP2930Transaction, calcEffectiveGasPrice, calcEffectiveGasTip } from '@rei-network/structure';
+import { hexStringToBuffer, hexStringToBN } from '@rei-network/utils';
+import { ApiServer, CallData, parseAddressesAndTopics } from '@rei-network/api';
+
+type Node = ApiServer['node'];
+type StateManager = Awaited<ReturnType<Node['getStateManager']>>;
+
+type GraphQLCallData = {
+  from?: string;
+  to?: string;
+  gas?: number | string;
+  gasPrice?: string;
+  value?: string;
+  data?: string;
+};
+
+type GraphQLFilter = {
+  addresses?: string[];
+  topics?: string[][];
+};
+
+/**
+ * Parse `Long` or `BigInt` input value,
+ * the value can be a number, a hex string or a decimal string
+ * @param value - Input value
+ * @returns BN
+ */
+function parseNumber(value: number | string) {
+  if (typeof value === 'number') {
+    return new BN(value);
+  }
+  return value.startsWith('0x') ? hexStringToBN(value) : new BN(value);
+}
+
+/**
+ * Convert graphql call data to api call data
+ * @param data - GraphQL call data
+ * @returns Api call data
+ */
+function toCallData(data: GraphQLCallData): CallData {
+  return {
+    from: data.from,
+    to: data.to,
+    gas: data.gas !== undefined ? bnToHex(parseNumber(data.gas)) : undefined,
+    gasPrice: data.gasPrice !== undefined ? bnToHex(parseNumber(data.gasPrice)) : undefined,
+    value: data.value !== undefined ? bnToHex(parseNumber(data.value)) : undefined,
+    data: data.data
+  };
+}
+
+/**
+ * GraphQLContext is created for each graphql request,
+ * it caches the loaded blocks, so the receipts of a block will only be loaded once
+ */
+export class GraphQLContext {
+  readonly server: ApiServer;
+  // namespaces that the request can reach
+  readonly apis: Set<string>;
+  private readonly blocks = new Map<string, Promise<GraphQLBlock | null>>();
+
+  constructor(server: ApiServer, apis: Set<string>) {
+    this.server = server;
+    this.apis = apis;
+  }
+
+  get node() {
+    return this.server.node;
+  }
+
+  /**
+   * Load block by hash or number
+   * @param hashOrNumber - Block hash or number
+   * @returns Block, null if it doesn't exist
+   */
+  getBlock(hashOrNumber: Buffer | BN) {
+    const key = Buffer.isBuffer(hashOrNumber) ? bufferToHex(hashOrNumber) : hashOrNumber.toString();
+    let block = this.blocks.get(key);
+    if (!block) {
+      block = this.node.db
+        .getBlock(hashOrNumber)
+        .then((block) => new GraphQLBlock(this, block))
+        .catch((err) => {
+          if (err.type === 'NotFoundError') {
+            return null;
+          }
+          throw err;
+        });
+      this.blocks.set(key, block);
+    }
+    return block;
+  }
+
+  /**
+   * Load account at the given block
+   * @param address - Account address
+   * @param number - Block number, the latest block if it is undefined
+   * @returns Account
+   */
+  getAccount(address: Address, number?: number | string) {
+    return new GraphQLAccount(address, async () => {
+      const block = number === undefined ? this.node.getLatestBlock() : (await this.getBlock(parseNumber(number)))?.block;
+      if (!block) {
+        throw new Error('unknown block');
+      }
+      return this.node.getStateManager(block.header.stateRoot, block.header.number);
+    });
+  }
+
+  /**
+   * Run call on the given block
+   * @param data - Call data
+   * @param block - Block
+   * @returns Call result
+   */
+  async call(data: GraphQLCallData, block: Block) {
+    const result = await this.server.controllers.get('eth').runCall(toCallData(data), block);
+    return {
+      data: bufferToHex(result.execResult.returnValue),
+      gasUsed: result.gasUsed.toNumber(),
+      status: 1
+    };
+  }
+
+  /**
+   * Estimate gas on the given block
+   * @param data - Call data
+   * @param tag - Block tag
+   * @returns Gas used
+   */
+  async estimateGas(data: GraphQLCallData, tag: string) {
+    return Number(await this.server.controllers.get('eth').estimateGas([toCallData(data), tag]));
+  }
+}
+
+export class GraphQLAccount {
+  private readonly _address: Address;
+  private readonly getStateManager: () => Promise<StateManager>;
+
+  constructor(address: Address, getStateManager: () => Promise<StateManager>) {
+    this._address = address;
+    this.getStateManager = getStateManager;
+  }
+
+  address() {
+    return this._address.toString();
+  }
+
+  async balance() {
+    return bnToHex((await (await this.getStateManager()).getAccount(this._address)).balance);
+  }
+
+  async transactionCount() {
+    return (await (await this.getStateManager()).getAccount(this._address)).nonce.toNumber();
+  }
+
+  async code() {
+    return bufferToHex(await (await this.getStateManager()).getContractCode(this._address));
+  }
+
+  async storage({ slot }: { slot: string }) {
+    const value = await (await this.getStateManager()).getContractStorage(this._address, setLengthLeft(hexStringToBuffer(slot), 32));
+    return bufferToHex(setLengthLeft(value, 32));
+  }
+}
+
+export class GraphQLLog {
+  private readonly ctx: GraphQLContext;
+  private readonly log: Log;
+
+  constructor(ctx: GraphQLContext, log: Log) {
+    this.ctx = ctx;
+    this.log = log;
+  }
+
+  index() {
+    return this.log.extension!.logIndex;
+  }
+
+  account({ block }: { block?: number }) {
+    return this.ctx.getAccount(new Address(this.log.address), block ?? this.log.extension!.blockNumber.toNumber());
+  }
+
+  topics() {
+    return this.log.topics.map((topic) => bufferToHex(topic));
+  }
+
+  data() {
+    return bufferToHex(this.log.data);
+  }
+
+  async transaction() {
+    const block = await this.ctx.getBlock(this.log.extension!.blockHash);
+    if (!block) {
+      throw new Error('unknown block');
+    }
+    return block.transactionAt({ index: this.log.extension!.transactionIndex });
+  }
+}
+
+export class GraphQLTransaction {
+  private readonly ctx: GraphQLContext;
+  private readonly tx: TypedTransaction;
+  private readonly _block?: GraphQLBlock;
+  private readonly _index?: number;
+
+  constructor(ctx: GraphQLContext, tx: TypedTransaction, block?: GraphQLBlock, index?: number) {
+    this.ctx = ctx;
+    this.tx = tx;
+    this._block = block;
+    this._index = index;
+  }
+
+  /**
+   * Get the receipt of the transaction
+   * @returns Receipt, undefined if the transaction is pending
+   */
+  private async getReceipt(): Promise<Receipt | undefined> {
+    if (!this._block) {
+      return;
+    }
+    return (await this._block.getReceipts())[this._index!];
+  }
+
+  private get baseFee() {
+    return this._block?.block.header.baseFeePerGas;
+  }
+
+  hash() {
+    return bufferToHex(this.tx.hash());
+  }
+
+  nonce() {
+    return this.tx.nonce.toNumber();
+  }
+
+  index() {
+    return this._index ?? null;
+  }
+
+  from({ block }: { block?: number }) {
+    return this.ctx.getAccount(this.tx.getSenderAddress(), block ?? this._block?.block.header.number.toNumber());
+  }
+
+  to({ block }: { block?: number }) {
+    return this.tx.to ? this.ctx.getAccount(this.tx.to, block ?? this._block?.block.header.number.toNumber()) : null;
+  }
+
+  value() {
+    return bnToHex(this.tx.value);
+  }
+
+  gasPrice() {
+    return bnToHex(calcEffectiveGasPrice(this.tx, this.baseFee));
+  }
+
+  maxFeePerGas() {
+    return this.tx instanceof FeeMarketEIP1559Transaction ? bnToHex(this.tx.maxFeePerGas) : null;
+  }
+
+  maxPriorityFeePerGas() {
+    return this.tx instanceof FeeMarketEIP1559Transaction ? bnToHex(this.tx.maxPriorityFeePerGas) : null;
+  }
+
+  effectiveTip() {
+    return this._block ? bnToHex(calcEffectiveGasTip(this.tx, this.baseFee)) : null;
+  }
+
+  gas() {
+    return this.tx.gasLimit.toNumber();
+  }
+
+  inputData() {
+    return bufferToHex(this.tx.data);
+  }
+
+  block() {
+    return this._block ?? null;
+  }
+
+  async status() {
+    const receipt = await this.getReceipt();
+    return receipt ? receipt.status : null;
+  }
+
+  async gasUsed() {
+    const receipt = await this.getReceipt();
+    return receipt ? receipt.extension!.gasUsed.toNumber() : null;
+  }
+
+  async cumulativeGasUsed() {
+    const receipt = await this.getReceipt();
+    return receipt ? receipt.bnCumulativeGasUsed.toNumber() : null;
+  }
+
+  effectiveGasPrice() {
+    return this._block ? this.gasPrice() : null;
+  }
+
+  async createdContract({ block }: { block?: number }) {
+    const receipt = await this.getReceipt();
+    const contractAddress = receipt?.extension!.contractAddress;
+    return contractAddress ? this.ctx.getAccount(new Address(contractAddress), block ?? this._block!.block.header.number.toNumber()) : null;
+  }
+
+  async logs() {
+    const receipt = await this.getReceipt();
+    return receipt ? receipt.logs.map((log) => new GraphQLLog(this.ctx, log)) : null;
+  }
+
+  r() {
+    return bnToHex(this.tx.r!);
+  }
+
+  s() {
+    return bnToHex(this.tx.s!);
+  }
+
+  v() {
+    return bnToHex(this.tx.v!);
+  }
+
+  type() {
+    return this.tx.type;
+  }
+
+  accessList() {
+    if (this.tx instanceof AccessListEIP2930Transaction || this.tx instanceof FeeMarketEIP1559Transaction) {
+      return this.tx.AccessListJSON;
+    }
+    return null;
+  }
+
+  raw() {
+    return bufferToHex(this.tx.serialize());
+  }
+
+  async rawReceipt() {
+    const receipt = await this.getReceipt();
+    return receipt ? bufferToHex(receipt.serialize()) : null;
+  }
+}
+
+export class GraphQLBlock {
+  private readonly ctx: GraphQLContext;
+  readonly block: Block;
+  private receipts?: Promise<Receipt[]>;
+
+  constructor(ctx: GraphQLContext, block: Block) {
+    this.ctx = ctx;
+    this.block = block;
+  }
+
+  /**
+   * Load the receipts of the block from the receipts cache
+   * @returns Receipts
+   */
+  getReceipts() {
+    if (!this.receipts) {
+      this.receipts = this.ctx.node.receiptsCache.get(this.block.hash(), this.ctx.node.db);
+    }
+    return this.receipts;
+  }
+
+  private get numberTag() {
+    return bnToHex(this.block.header.number);
+  }
+
+  number() {
+    return this.block.header.number.toNumber();
+  }
+
+  hash() {
+    return bufferToHex(this.block.hash());
+  }
+
+  parent() {
+    return this.block.header.number.isZero() ? null : this.ctx.getBlock(this.block.header.parentHash);
+  }
+
+  nonce() {
+    return bufferToHex(this.block.header.nonce);
+  }
+
+  transactionsRoot() {
+    return bufferToHex(this.block.header.transactionsTrie);
+  }
+
+  transactionCount() {
+    return this.block.transactions.length;
+  }
+
+  stateRoot() {
+    return bufferToHex(this.block.header.stateRoot);
+  }
+
+  receiptsRoot() {
+    return bufferToHex(this.block.header.receiptTrie);
+  }
+
+  miner({ block }: { block?: number }) {
+    return this.ctx.getAccount(this.block.header.coinbase, block ?? this.number());
+  }
+
+  extraData() {
+    return bufferToHex(this.block.header.extraData);
+  }
+
+  gasLimit() {
+    return this.block.header.gasLimit.toNumber();
+  }
+
+  gasUsed() {
+    return this.block.header.gasUsed.toNumber();
+  }
+
+  baseFeePerGas() {
+    const baseFee = this.block.header.baseFeePerGas;
+    return baseFee ? bnToHex(baseFee) : null;
+  }
+
+  timestamp() {
+    return this.block.header.timestamp.toNumber();
+  }
+
+  logsBloom() {
+    return bufferToHex(this.block.header.bloom);
+  }
+
+  mixHash() {
+    return bufferToHex(this.block.header.mixHash);
+  }
+
+  difficulty() {
+    return bnToHex(this.block.header.difficulty);
+  }
+
+  async totalDifficulty() {
+    return bnToHex(await this.ctx.node.db.getTotalDifficulty(this.block.hash(), this.block.header.number));
+  }
+
+  ommerCount() {
+    return 0;
+  }
+
+  ommers() {
+    return [];
+  }
+
+  ommerAt() {
+    return null;
+  }
+
+  ommerHash() {
+    return bufferToHex(this.block.header.uncleHash);
+  }
+
+  transactions() {
+    return this.block.transactions.map((tx, i) => new GraphQLTransaction(this.ctx, tx, this, i));
+  }
+
+  transactionAt({ index }: { index: number }) {
+    const tx = this.block.transactions[index];
+    return tx ? new GraphQLTransaction(this.ctx, tx, this, index) : null;
+  }
+
+  async logs({ filter }: { filter: GraphQLFilter }) {
+    const { addresses, topics } = parseAddressesAndTopics(filter.addresses, filter.topics);
+    const logs = await this.ctx.node.getFilter().filterBlock(this.block.hash(), addresses, topics);
+    return logs.map((log) => new GraphQLLog(this.ctx, log));
+  }
+
+  account({ address }: { address: string }) {
+    return this.ctx.getAccount(Address.fromString(address), this.number());
+  }
+
+  call({ data }: { data: GraphQLCallData }) {
+    return this.ctx.call(data, this.block);
+  }
+
+  estimateGas({ data }: { data: GraphQLCallData }) {
+    return this.ctx.estimateGas(data, this.numberTag);
+  }
+
+  raw() {
+    return bufferToHex(this.block.serialize());
+  }
+
+  rawHeader() {
+    return bufferToHex(this.block.header.serialize());
+  }
+}
+
+export class GraphQLPending {
+  private readonly ctx: GraphQLContext;
+
+  constructor(ctx: GraphQLContext) {
+    this.ctx = ctx;
+  }
+
+  private get block() {
+    return this.ctx.node.getPendingBlock();
+  }
+
+  transactionCount() {
+    return this.block.transactions.length;
+  }
+
+  transactions() {
+    return this.block.transactions.map((tx) => new GraphQLTransaction(this.ctx, tx));
+  }
+
+  account({ address }: { address: string }) {
+    return new GraphQLAccount(Address.fromString(address), () => this.ctx.node.getPendingStateManager());
+  }
+
+  call({ data }: { data: GraphQLCallData }) {
+    return this.ctx.call(data, this.block);
+  }
+
+  estimateGas({ data }: { data: GraphQLCallData }) {
+    return this.ctx.estimateGas(data, 'pending');
+  }
+}
+
+/**
+ * Root resolver of query and mutation
+ */
+export class GraphQLRoot {
+  private readonly ctx: GraphQLContext;
+
+  constructor(ctx: GraphQLContext) {
+    this.ctx = ctx;
+  }
+
+  async block({ number, hash }: { number?: number | string; hash?: string }) {
+    if (number !== undefined && hash !== undefined) {
+      throw new Error('only one of number or hash must be specified');
+    }
+    if (hash !== undefined) {
+      return this.ctx.getBlock(hexStringToBuffer(hash));
+    }
+    return number !== undefined ? this.ctx.getBlock(parseNumber(number)) : this.ctx.getBlock(this.ctx.node.getLatestBlock().header.number);
+  }
+
+  async blocks({ from, to }: { from?: number | string; to?: number | string }) {
+    const latest = this.ctx.node.getLatestBlock().header.number;
+    const fromBN = from !== undefined ? parseNumber(from) : latest;
+    const toBN = to !== undefined ? BN.min(parseNumber(to), latest) : latest;
+    if (toBN.sub(fromBN).gten(this.ctx.server.maxLogsBlockRange)) {
+      throw new Error(`block range is too large, max limit is ${this.ctx.server.maxLogsBlockRange}`);
+    }
+
+    const blocks: GraphQLBlock[] = [];
+    for (const num = fromBN.clone(); num.lte(toBN); num.iaddn(1)) {
+      const block = await this.ctx.getBlock(num.clone());
+      if (!block) {
+        break;
+      }
+      blocks.push(block);
+    }
+    return blocks;
+  }
+
+  pending() {
+    return new GraphQLPending(this.ctx);
+  }
+
+  async transaction({ hash }: { hash: string }) {
+    const hashBuffer = hexStringToBuffer(hash);
+    try {
+      const tx = await this.ctx.node.db.getTransaction(hashBuffer);
+      const block = await this.ctx.getBlock(tx.extension!.blockHash);
+      if (block) {
+        return block.transactionAt({ index: tx.extension!.transactionIndex });
+      }
+    } catch (err: any) {
+      if (err.type !== 'NotFoundError') {
+        throw err;
+      }
+    }
+    const tx = this.ctx.node.txPool.getTransaction(hashBuffer);
+    return tx ? new GraphQLTransaction(this.ctx, tx) : null;
+  }
+
+  async logs({ filter }: { filter: GraphQLFilter & { fromBlock?: number | string; toBlock?: number | string } }) {
+    const latest = this.ctx.node.getLatestBlock().header.number;
+    const from = filter.fromBlock !== undefined ? parseNumber(filter.fromBlock) : latest;
+    const to = filter.toBlock !== undefined ? parseNumber(filter.toBlock) : latest;
+    const { addresses, topics } = parseAddressesAndTopics(filter.addresses, filter.topics);
+    const logs = await this.ctx.server.filterLogs(from, to, addresses, topics);
+    return logs.map((log) => new GraphQLLog(this.ctx, log));
+  }
+
+  gasPrice() {
+    return bnToHex(this.ctx.server.oracle.gasPrice);
+  }
+
+  maxPriorityFeePerGas() {
+    return bnToHex(this.ctx.server.oracle.maxPriorityFeePerGas);
+  }
+
+  syncing() {
+    const sync = this.ctx.node.sync;
+    if (!sync.isSyncing) {
+      return null;
+    }
+    return {
+      startingBlock: sync.status.startingBlock,
+      currentBlock: this.ctx.node.getLatestBlock().header.number.toNumber(),
+      highestBlock: sync.status.highestBlock
+    };
+  }
+
+  chainID() {
+    return bnToHex(this.ctx.node.getCommon(0).chainIdBN());
+  }
+
+  async sendRawTransaction({ data }: { data: string }) {
+    const method = this.ctx.server.getMethod('eth_sendRawTransaction', this.ctx.apis);
+    if (!method) {
+      throw new Error('eth_sendRawTransaction is unavailable');
+    }
+    const hash = await method([data]);
+    if (!hash) {
+      throw new Error('failed to add transaction');
+    }
+    return hash;
+  }
+}
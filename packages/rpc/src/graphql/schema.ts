@@ -0,0 +1,158 @@
+import { buildSchema } from 'graphql';
+
+/**
+ * EIP-1767 GraphQL schema,
+ * `Long` is serialized as a number, `BigInt`, `Bytes` and `Bytes32` are serialized as hex strings
+ */
+export const schema = buildSchema(`
+  scalar Bytes32
+  scalar Address
+  scalar Bytes
+  scalar BigInt
+  scalar Long
+
+  schema {
+    query: Query
+    mutation: Mutation
+  }
+
+  type Account {
+    address: Address!
+    balance: BigInt!
+    transactionCount: Long!
+    code: Bytes!
+    storage(slot: Bytes32!): Bytes32!
+  }
+
+  type Log {
+    index: Int!
+    account(block: Long): Account!
+    topics: [Bytes32!]!
+    data: Bytes!
+    transaction: Transaction!
+  }
+
+  type AccessTuple {
+    address: Address!
+    storageKeys: [Bytes32!]!
+  }
+
+  type Transaction {
+    hash: Bytes32!
+    nonce: Long!
+    index: Int
+    from(block: Long): Account!
+    to(block: Long): Account
+    value: BigInt!
+    gasPrice: BigInt!
+    maxFeePerGas: BigInt
+    maxPriorityFeePerGas: BigInt
+    effectiveTip: BigInt
+    gas: Long!
+    inputData: Bytes!
+    block: Block
+    status: Long
+    gasUsed: Long
+    cumulativeGasUsed: Long
+    effectiveGasPrice: BigInt
+    createdContract(block: Long): Account
+    logs: [Log!]
+    r: BigInt!
+    s: BigInt!
+    v: BigInt!
+    type: Int
+    accessList: [AccessTuple!]
+    raw: Bytes!
+    rawReceipt: Bytes
+  }
+
+  input BlockFilterCriteria {
+    addresses: [Address!]
+    topics: [[Bytes32!]!]
+  }
+
+  type Block {
+    number: Long!
+    hash: Bytes32!
+    parent: Block
+    nonce: Bytes!
+    transactionsRoot: Bytes32!
+    transactionCount: Int
+    stateRoot: Bytes32!
+    receiptsRoot: Bytes32!
+    miner(block: Long): Account!
+    extraData: Bytes!
+    gasLimit: Long!
+    gasUsed: Long!
+    baseFeePerGas: BigInt
+    timestamp: Long!
+    logsBloom: Bytes!
+    mixHash: Bytes32!
+    difficulty: BigInt!
+    totalDifficulty: BigInt!
+    ommerCount: Int
+    ommers: [Block]
+    ommerAt(index: Int!): Block
+    ommerHash: Bytes32!
+    transactions: [Transaction!]
+    transactionAt(index: Int!): Transaction
+    logs(filter: BlockFilterCriteria!): [Log!]!
+    account(address: Address!): Account!
+    call(data: CallData!): CallResult
+    estimateGas(data: CallData!): Long!
+    raw: Bytes!
+    rawHeader: Bytes!
+  }
+
+  input CallData {
+    from: Address
+    to: Address
+    gas: Long
+    gasPrice: BigInt
+    value: BigInt
+    data: Bytes
+  }
+
+  type CallResult {
+    data: Bytes!
+    gasUsed: Long!
+    status: Long!
+  }
+
+  input FilterCriteria {
+    fromBlock: Long
+    toBlock: Long
+    addresses: [Address!]
+    topics: [[Bytes32!]!]
+  }
+
+  type SyncState {
+    startingBlock: Long!
+    currentBlock: Long!
+    highestBlock: Long!
+  }
+
+  type Pending {
+    transactionCount: Int!
+    transactions: [Transaction!]
+    account(address: Address!): Account!
+    call(data: CallData!): CallResult
+    estimateGas(data: CallData!): Long!
+  }
+
+  type Query {
+    block(number: Long, hash: Bytes32): Block
+    blocks(from: Long, to: Long): [Block!]!
+    pending: Pending!
+    transaction(hash: Bytes32!): Transaction
+    logs(filter: FilterCriteria!): [Log!]!
+    gasPrice: BigInt!
+    maxPriorityFeePerGas: BigInt!
+    syncing: SyncState
+    chainID: BigInt!
+  }
+
+  type Mutation {
+    sendRawTransaction(data: Bytes!): Bytes32!
+  }
+`);
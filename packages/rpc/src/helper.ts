@@ -26,6 +26,14 @@ export function makeNotFoundErr(method: string) {
   return makeRpcErr(`${error.METHOD_NOT_FOUND.message} - ${method}`, error.METHOD_NOT_FOUND.code);
 }
 
+/**
+ * Throw unauthorized error
+ * @param method - Unauthorized method
+ */
+export function makeUnauthorizedErr(method: string) {
+  return makeRpcErr(`${error.UNAUTHORIZED.message} - ${method}`, error.UNAUTHORIZED.code);
+}
+
 /**
  * Validate JSONRPC version
  * @param version - JSONRPC version
@@ -5,20 +5,28 @@ import express from 'express';
 import expressws from 'express-ws';
 import bodyParse from 'body-parser';
 import { BN, bufferToHex } from 'ethereumjs-util';
-import { logger, Channel } from '@rei-network/utils';
+import { createLogger, Channel } from '@rei-network/utils';
 import { ApiServer, OutOfGasError as ApiOutOfGasError, RevertError as ApiRevertError } from '@rei-network/api';
 import { JsonRPCMiddleware } from './jsonRPCMiddleware';
+import { GraphQLMiddleware } from './graphql';
 import { WebsocketClient } from './client';
 import { Request } from './types';
+import { verifyJWT, parseBearerToken } from './jwt';
+import { RateLimiter, RateLimiterOptions } from './rateLimiter';
 import * as helper from './helper';
 import errors from './errorCodes';
 
+const logger = createLogger('rpc');
+
+export * from './jwt';
+export * from './rateLimiter';
+
 const defaultPort = 11451;
 const defaultHost = '127.0.0.1';
 const defaultApis = 'eth,net,web3,rei';
 
 // long time-consuming requests that need to be queued for processing
-const queuedMethods = new Set<string>(['eth_getLogs', 'eth_getFilterLogs', 'debug_traceBlock', 'debug_traceBlockByNumber', 'debug_traceBlockByHash', 'debug_traceTransaction', 'debug_traceCall']);
+const queuedMethods = new Set<string>(['eth_getLogs', 'eth_getFilterLogs', 'rei_getLogsPaged', 'eth_callBundle', 'eth_simulateV1', 'debug_traceBlock', 'debug_traceBlockByNumber', 'debug_traceBlockByHash', 'debug_traceTransaction', 'debug_traceCall', 'debug_accountRange', 'debug_storageRangeAt', 'debug_dumpBlock', 'trace_block', 'trace_transaction', 'trace_replayTransaction', 'trace_filter']);
 
 export class RevertError {
   readonly code = errors.REVERT_ERROR.code;
@@ -53,6 +61,14 @@ export interface RpcServerOptions {
   host?: string;
   // rpc server enable api
   apis?: string;
+  // JWT secret, authentication is disabled if it is undefined
+  jwtSecret?: Buffer;
+  // apis that require authentication, all enabled apis by default
+  authApis?: string;
+  // rate limit options, rate limit is disabled if it is undefined
+  rateLimit?: RateLimiterOptions;
+  // enable graphql service at `/graphql`
+  graphql?: boolean;
 }
 
 /**
@@ -63,7 +79,11 @@ export class RpcServer {
   host: string;
   readonly apiServer: ApiServer;
   private readonly sockets = new Set<net.Socket>();
-  private readonly controllers: { [name: string]: any }[];
+  private readonly apis: Set<string>;
+  private readonly publicApis: Set<string>;
+  private readonly jwtSecret?: Buffer;
+  private readonly graphql: boolean;
+  readonly rateLimiter?: RateLimiter;
   private readonly reqQueue = new Channel<Request>({
     max: 1000,
     drop: (msg) => {
@@ -80,12 +100,32 @@ export class RpcServer {
     this.port = options.port ?? defaultPort;
     this.host = options.host ?? defaultHost;
 
-    this.controllers = (options.apis ?? defaultApis).split(',').map((name) => {
-      if (!this.apiServer.controllers.has(name)) {
-        throw new Error('unknown api:' + name);
+    this.apis = new Set<string>(
+      (options.apis ?? defaultApis).split(',').map((name) => {
+        if (!this.apiServer.controllers.has(name)) {
+          throw new Error('unknown api:' + name);
+        }
+        return name;
+      })
+    );
+
+    this.rateLimiter = options.rateLimit && new RateLimiter(options.rateLimit);
+    this.graphql = !!options.graphql;
+    if (this.graphql && !this.apis.has('eth')) {
+      throw new Error('graphql requires eth api');
+    }
+    this.jwtSecret = options.jwtSecret;
+    if (this.jwtSecret) {
+      const authApis = new Set<string>(options.authApis ? options.authApis.split(',') : this.apis);
+      for (const name of authApis) {
+        if (!this.apiServer.controllers.has(name)) {
+          throw new Error('unknown api:' + name);
+        }
       }
-      return this.apiServer.controllers.get(name)!;
-    });
+      this.publicApis = new Set<string>(Array.from(this.apis).filter((name) => !authApis.has(name)));
+    } else {
+      this.publicApis = this.apis;
+    }
   }
 
   /**
@@ -95,24 +135,48 @@ export class RpcServer {
     return !!this.server;
   }
 
+  /**
+   * Authenticate the request by the authorization header
+   * @param authorization - Authorization header
+   * @returns Namespaces that the request can reach
+   */
+  private authenticate(authorization?: string) {
+    if (!this.jwtSecret) {
+      return this.apis;
+    }
+    if (authorization === undefined) {
+      return this.publicApis;
+    }
+
+    const claims = verifyJWT(parseBearerToken(authorization), this.jwtSecret);
+    if (claims.apis === undefined) {
+      return this.apis;
+    }
+    const apis = typeof claims.apis === 'string' ? claims.apis.split(',') : claims.apis;
+    return new Set<string>(Array.from(this.apis).filter((name) => this.publicApis.has(name) || apis.includes(name)));
+  }
+
   /**
    * Handle client request
    * @param param0 - Request instance
    */
-  private async handleReq({ method, params, client, resolve, reject }: Request) {
+  private async handleReq({ method, params, client, apis, resolve, reject }: Request) {
     try {
       const startAt = Date.now();
       logger.detail('📦 Rpc served', method, 'params:', params);
 
-      method = method.split('_')[1];
-      const controller = this.controllers.find((c) => method in c);
-      if (!controller) {
+      const handler = method === 'rpc_modules' ? () => this.apiServer.getModules(apis) : this.apiServer.getMethod(method, apis);
+      if (!handler) {
+        if (this.apiServer.getMethod(method, this.apis)) {
+          // method exists but the request isn't authorized to reach it
+          throw helper.makeUnauthorizedErr(method);
+        }
         // method doesn't exist or unsupported method
         throw helper.makeNotFoundErr(method);
       }
 
       try {
-        const result = controller[method](params, client);
+        const result = handler(params, client);
         resolve(util.types.isPromise(result) ? await result : result);
       } catch (err) {
         if (err instanceof Error) {
@@ -177,11 +241,17 @@ export class RpcServer {
         expressws(app, this.server);
         app.use(bodyParse.json({ type: '*/*', limit: '5mb' }));
 
-        const jsonmid = new JsonRPCMiddleware(this.newReq.bind(this));
+        if (this.graphql) {
+          const graphqlmid = new GraphQLMiddleware(this.apiServer, this.authenticate.bind(this), this.rateLimiter);
+          app.get('/graphql', graphqlmid.makeMiddleWare());
+          app.post('/graphql', graphqlmid.makeMiddleWare());
+        }
+
+        const jsonmid = new JsonRPCMiddleware(this.newReq.bind(this), this.authenticate.bind(this), this.rateLimiter);
         app.use(jsonmid.makeMiddleWare());
-        app.ws('/', (ws) => {
+        app.ws('/', (ws, req) => {
           const client = new WebsocketClient(ws);
-          jsonmid.wrapWs(client);
+          jsonmid.wrapWs(client, req.headers['authorization']);
           ws.on('error', (err) => {
             logger.detail('RpcServer, ws error:', err);
           });
@@ -244,6 +314,14 @@ export class RpcServer {
     this.reqPromise = undefined;
   }
 
+  /**
+   * Get the counters of rate limiter
+   * @returns Counters, undefined if rate limit is disabled
+   */
+  rateLimitStats() {
+    return this.rateLimiter?.stats();
+  }
+
   /**
    * Reset host and port rpc Serve
    * @param newHost - new host address
@@ -2,23 +2,32 @@ import * as helper from './helper';
 import errors from './errorCodes';
 import { JSONRPC_VERSION, Request } from './types';
 import { WebsocketClient } from './client';
+import { RateLimiter } from './rateLimiter';
 
 type JsonRPCBody = { id: any; method: string; jsonrpc: string; params: any };
 
+export type Authenticator = (authorization?: string) => Set<string>;
+
 export class JsonRPCMiddleware {
   private readonly newReq: (req: Request) => void;
+  private readonly authenticate: Authenticator;
+  private readonly rateLimiter?: RateLimiter;
+  private wsClientId = 0;
 
-  constructor(newReq: (req: Request) => void) {
+  constructor(newReq: (req: Request) => void, authenticate: Authenticator, rateLimiter?: RateLimiter) {
     this.newReq = newReq;
+    this.authenticate = authenticate;
+    this.rateLimiter = rateLimiter;
   }
 
   /**
    * Deal with a single RPC request
    * @param body Request body
+   * @param apis Namespaces that the request can reach
    * @param client Websoket client
    * @returns Handled result
    */
-  private async handleSingleReq(body: JsonRPCBody, client?: WebsocketClient): Promise<any> {
+  private async handleSingleReq(body: JsonRPCBody, apis: Set<string>, client?: WebsocketClient): Promise<any> {
     const { id, method, jsonrpc, params } = body;
     try {
       helper.validateJsonRpcVersion(jsonrpc);
@@ -29,6 +38,7 @@ export class JsonRPCMiddleware {
           method,
           params,
           client,
+          apis,
           resolve,
           reject
         });
@@ -53,13 +63,14 @@ export class JsonRPCMiddleware {
   /**
    * Process a series of requests
    * @param batchBody Request body
+   * @param apis Namespaces that the request can reach
    * @param client Websocket client
    * @returns Array of Handled results
    */
-  private handleBatchReq(batchBody: any[], client?: WebsocketClient): Promise<any[]> {
+  private handleBatchReq(batchBody: any[], apis: Set<string>, client?: WebsocketClient): Promise<any[]> {
     return Promise.all(
       batchBody.reduce((memo, body) => {
-        memo.push(this.handleSingleReq(body, client));
+        memo.push(this.handleSingleReq(body, apis, client));
         return memo;
       }, [])
     );
@@ -77,21 +88,69 @@ export class JsonRPCMiddleware {
     };
   }
 
-  private async handleReq(req: any, send: (res: any) => void, client?: WebsocketClient) {
+  /**
+   * Consume the tokens of the client
+   * @param key - Client key
+   * @param req - Request body
+   * @returns Whether the request is allowed
+   */
+  private consume(key: string, req: any) {
+    if (!this.rateLimiter) {
+      return true;
+    }
+    const bodies: any[] = Array.isArray(req) ? req : [req];
+    return this.rateLimiter.consume(
+      key,
+      bodies.map((body) => body?.method)
+    );
+  }
+
+  /**
+   * Create LIMIT_EXCEEDED responses for the request
+   * @param req - Request body
+   * @returns Response
+   */
+  private makeLimitError(req: any) {
+    const makeError = (body: any) => {
+      return {
+        jsonrpc: JSONRPC_VERSION,
+        error: errors.LIMIT_EXCEEDED,
+        id: body?.id
+      };
+    };
+    return Array.isArray(req) ? req.map(makeError) : makeError(req);
+  }
+
+  private async handleReq(req: any, send: (res: any) => void, apis: Set<string>, client?: WebsocketClient) {
     if (Array.isArray(req)) {
-      send(await this.handleBatchReq(req, client));
+      send(await this.handleBatchReq(req, apis, client));
     } else if (typeof req === 'object') {
-      send(await this.handleSingleReq(req, client));
+      send(await this.handleSingleReq(req, apis, client));
     } else {
       send(this.makeParseError());
     }
   }
 
   /**
-   * Format the rpc request passed in by websocket and then process it
+   * Format the rpc request passed in by websocket and then process it,
+   * the connection is authenticated once when it is established
    * @param client Websocket client
+   * @param authorization Authorization header of the upgrade request
    */
-  wrapWs(client: WebsocketClient) {
+  wrapWs(client: WebsocketClient, authorization?: string) {
+    let apis: Set<string>;
+    try {
+      apis = this.authenticate(authorization);
+    } catch (err: any) {
+      client.ws.close(4001, err.message);
+      return;
+    }
+
+    const key = `ws:${this.wsClientId++}`;
+    client.ws.addEventListener('close', () => {
+      this.rateLimiter?.remove(key);
+    });
+
     client.ws.addEventListener('message', (msg) => {
       let req: any;
       try {
@@ -100,7 +159,11 @@ export class JsonRPCMiddleware {
         client.send(this.makeParseError());
         return;
       }
-      this.handleReq(req, client.send.bind(client), client);
+      if (!this.consume(key, req)) {
+        client.send(this.makeLimitError(req));
+        return;
+      }
+      this.handleReq(req, client.send.bind(client), apis, client);
     });
   }
 
@@ -112,7 +175,18 @@ export class JsonRPCMiddleware {
       if (req.ws) {
         next();
       } else {
-        this.handleReq(req.body, res.send.bind(res));
+        let apis: Set<string>;
+        try {
+          apis = this.authenticate(req.headers['authorization']);
+        } catch (err: any) {
+          res.status(401).send(err.message);
+          return;
+        }
+        if (!this.consume(`ip:${req.ip}`, req.body)) {
+          res.status(429).send(this.makeLimitError(req.body));
+          return;
+        }
+        this.handleReq(req.body, res.send.bind(res), apis);
       }
     };
   }
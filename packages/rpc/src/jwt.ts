@@ -0,0 +1,118 @@
+import fs from 'fs';
+import crypto from 'crypto';
+import { createLogger } from '@rei-network/utils';
+
+const logger = createLogger('rpc');
+
+// the maximum difference between `iat` claim and the local time, in seconds
+const maxIatDrift = 60;
+const secretLength = 32;
+
+export type JWTClaims = {
+  // issued at, in seconds
+  iat: number;
+  // expiration time, in seconds
+  exp?: number;
+  // namespaces that the token can reach, all enabled namespaces if it is undefined
+  apis?: string[] | string;
+};
+
+function decodeBase64Url(data: string) {
+  return Buffer.from(data.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+}
+
+function encodeBase64Url(data: Buffer) {
+  return data.toString('base64').replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+}
+
+/**
+ * Sign a HS256 JWT token
+ * @param claims - Token claims
+ * @param secret - Shared secret
+ * @returns Token
+ */
+export function signJWT(claims: JWTClaims, secret: Buffer) {
+  const header = encodeBase64Url(Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })));
+  const payload = encodeBase64Url(Buffer.from(JSON.stringify(claims)));
+  const signature = encodeBase64Url(crypto.createHmac('sha256', secret).update(`${header}.${payload}`).digest());
+  return `${header}.${payload}.${signature}`;
+}
+
+/**
+ * Verify a HS256 JWT token
+ * @param token - Token
+ * @param secret - Shared secret
+ * @returns Token claims
+ */
+export function verifyJWT(token: string, secret: Buffer): JWTClaims {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new Error('invalid token');
+  }
+
+  const [header, payload, signature] = parts;
+  let alg: any;
+  let claims: any;
+  try {
+    alg = JSON.parse(decodeBase64Url(header).toString()).alg;
+    claims = JSON.parse(decodeBase64Url(payload).toString());
+  } catch (err) {
+    throw new Error('invalid token');
+  }
+  if (alg !== 'HS256') {
+    throw new Error('unsupported signing algorithm');
+  }
+
+  const expected = crypto.createHmac('sha256', secret).update(`${header}.${payload}`).digest();
+  const actual = decodeBase64Url(signature);
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    throw new Error('invalid signature');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.iat !== 'number' || Math.abs(now - claims.iat) > maxIatDrift) {
+    throw new Error('stale token');
+  }
+  if (claims.exp !== undefined && (typeof claims.exp !== 'number' || now >= claims.exp)) {
+    throw new Error('token is expired');
+  }
+  return claims;
+}
+
+/**
+ * Parse the token from the authorization header
+ * @param authorization - Authorization header
+ * @returns Token
+ */
+export function parseBearerToken(authorization: string) {
+  const [scheme, token] = authorization.trim().split(/\s+/);
+  if (scheme.toLowerCase() !== 'bearer' || !token) {
+    throw new Error('missing bearer token');
+  }
+  return token;
+}
+
+/**
+ * Read the hex encoded secret from file,
+ * a random secret will be generated if the file doesn't exist
+ * @param file - Secret file path
+ * @returns Secret
+ */
+export function loadJWTSecret(file: string) {
+  if (!fs.existsSync(file)) {
+    const secret = crypto.randomBytes(secretLength);
+    fs.writeFileSync(file, secret.toString('hex'), { mode: 0o600 });
+    logger.info('Generated JWT secret, path:', file);
+    return secret;
+  }
+
+  let hex = fs.readFileSync(file).toString().trim();
+  if (hex.startsWith('0x')) {
+    hex = hex.substr(2);
+  }
+  const secret = Buffer.from(hex, 'hex');
+  if (secret.length !== secretLength || secret.toString('hex') !== hex.toLowerCase()) {
+    throw new Error('invalid JWT secret, it should be 32 bytes hex string');
+  }
+  return secret;
+}
@@ -0,0 +1,194 @@
+const defaultRefillRate = 100;
+const defaultPruneInterval = 60 * 1000;
+
+// default cost weights of time-consuming methods, other methods cost 1
+const defaultCosts: { [method: string]: number } = {
+  eth_call: 2,
+  eth_estimateGas: 5,
+  eth_createAccessList: 5,
+  eth_callBundle: 20,
+  eth_simulateV1: 50,
+  eth_getLogs: 10,
+  eth_getFilterLogs: 10,
+  rei_getLogsPaged: 10,
+  eth_feeHistory: 5,
+  rei_getValidators: 5,
+  rei_getIndexedValidators: 10,
+  debug_traceBlock: 50,
+  debug_traceBlockByNumber: 50,
+  debug_traceBlockByHash: 50,
+  debug_traceTransaction: 20,
+  debug_traceCall: 20,
+  debug_accountRange: 20,
+  debug_storageRangeAt: 20,
+  debug_dumpBlock: 100,
+  trace_block: 50,
+  trace_transaction: 20,
+  trace_replayTransaction: 20,
+  trace_filter: 100,
+  graphql: 10
+};
+
+export interface RateLimiterOptions {
+  // number of tokens refilled per second
+  refillRate?: number;
+  // capacity of each bucket, default equal to `refillRate`
+  capacity?: number;
+  // cost weights of methods, merged with the default weights
+  costs?: { [method: string]: number };
+}
+
+export type RateLimitStats = {
+  key: string;
+  tokens: number;
+  allowed: number;
+  limited: number;
+};
+
+/**
+ * A token bucket that is refilled at a constant rate
+ */
+class TokenBucket {
+  tokens: number;
+  allowed = 0;
+  limited = 0;
+  private lastRefill: number;
+
+  constructor(tokens: number, now: number) {
+    this.tokens = tokens;
+    this.lastRefill = now;
+  }
+
+  /**
+   * Refill tokens based on the elapsed time
+   * @param refillRate - Tokens per second
+   * @param capacity - Max tokens
+   * @param now - Current timestamp
+   */
+  refill(refillRate: number, capacity: number, now: number) {
+    this.tokens = Math.min(capacity, this.tokens + ((now - this.lastRefill) * refillRate) / 1000);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * RateLimiter manages token buckets of clients,
+ * each client is identified by a key, like the remote ip or the websocket client id
+ */
+export class RateLimiter {
+  readonly refillRate: number;
+  readonly capacity: number;
+  private readonly costs: Map<string, number>;
+  private readonly buckets = new Map<string, TokenBucket>();
+  private lastPrune = Date.now();
+
+  totalAllowed = 0;
+  totalLimited = 0;
+
+  constructor(options?: RateLimiterOptions) {
+    this.refillRate = options?.refillRate ?? defaultRefillRate;
+    this.capacity = options?.capacity ?? this.refillRate;
+    this.costs = new Map<string, number>(Object.entries({ ...defaultCosts, ...options?.costs }));
+    if (this.refillRate <= 0 || this.capacity <= 0) {
+      throw new Error('invalid rate limit options');
+    }
+  }
+
+  /**
+   * Get the cost weight of the method,
+   * the weight is limited by the capacity, otherwise the method will never be allowed
+   * @param method - Method name
+   * @returns Cost
+   */
+  getCost(method: string) {
+    return Math.min(this.costs.get(method) ?? 1, this.capacity);
+  }
+
+  /**
+   * Delete the buckets which are full,
+   * they are the same as new buckets
+   * @param now - Current timestamp
+   */
+  private prune(now: number) {
+    if (now - this.lastPrune < defaultPruneInterval) {
+      return;
+    }
+    this.lastPrune = now;
+    for (const [key, bucket] of this.buckets) {
+      bucket.refill(this.refillRate, this.capacity, now);
+      if (bucket.tokens >= this.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Try to consume tokens of the client,
+   * a batch whose total cost exceeds the capacity is always rejected
+   * @param key - Client key
+   * @param methods - Methods to be called
+   * @returns Whether the client has enough tokens
+   */
+  consume(key: string, methods: string[]) {
+    const cost = methods.reduce((sum, method) => sum + this.getCost(method), 0);
+    return this.consumeCost(key, cost);
+  }
+
+  /**
+   * Try to consume the given number of tokens of the client,
+   * a cost that exceeds the capacity is always rejected
+   * @param key - Client key
+   * @param cost - Total cost
+   * @returns Whether the client has enough tokens
+   */
+  consumeCost(key: string, cost: number) {
+    const now = Date.now();
+    this.prune(now);
+
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = new TokenBucket(this.capacity, now);
+      this.buckets.set(key, bucket);
+    } else {
+      bucket.refill(this.refillRate, this.capacity, now);
+    }
+
+    if (cost > this.capacity || bucket.tokens < cost) {
+      bucket.limited++;
+      this.totalLimited++;
+      return false;
+    }
+    bucket.tokens -= cost;
+    bucket.allowed++;
+    this.totalAllowed++;
+    return true;
+  }
+
+  /**
+   * Remove the bucket of the client
+   * @param key - Client key
+   */
+  remove(key: string) {
+    this.buckets.delete(key);
+  }
+
+  /**
+   * Get the counters of the rate limiter
+   * @returns Counters
+   */
+  stats() {
+    const now = Date.now();
+    const clients: RateLimitStats[] = [];
+    for (const [key, bucket] of this.buckets) {
+      bucket.refill(this.refillRate, this.capacity, now);
+      clients.push({ key, tokens: Math.floor(bucket.tokens), allowed: bucket.allowed, limited: bucket.limited });
+    }
+    return {
+      refillRate: this.refillRate,
+      capacity: this.capacity,
+      totalAllowed: this.totalAllowed,
+      totalLimited: this.totalLimited,
+      clients
+    };
+  }
+}
@@ -6,6 +6,8 @@ export interface Request {
   method: string;
   params: any;
   client?: WebsocketClient;
+  // namespaces that the request can reach
+  apis: Set<string>;
 
   resolve: (resps: any) => void;
   reject: (reason?: any) => void;
@@ -0,0 +1,151 @@
+import { expect } from 'chai';
+import { parse } from 'graphql';
+import { BN, bnToHex, bufferToHex } from 'ethereumjs-util';
+import { Common } from '@rei-network/common';
+import { Block, Transaction } from '@rei-network/structure';
+import { GraphQLMiddleware } from '../src/graphql';
+import { analyzeQuery } from '../src/graphql/complexity';
+import { RateLimiter } from '../src/rateLimiter';
+
+const common = new Common({ chain: 'rei-devnet' });
+common.setHardforkByBlockNumber(0);
+const privateKey = Buffer.from('d8ca4883bbf62202904e402750d593a297b5640dea80b6d5b239c5a9902662c0', 'hex');
+
+function createBlocks(count: number) {
+  const blocks: Block[] = [];
+  for (let i = 0; i < count; i++) {
+    const parent = blocks[i - 1];
+    const tx = Transaction.fromTxData({ nonce: i, gasPrice: 1, gasLimit: 21000, to: '0x' + '11'.repeat(20), value: 1 }, { common }).sign(privateKey);
+    blocks.push(Block.fromBlockData({ header: { number: new BN(i), parentHash: parent?.hash(), gasLimit: new BN(1000000) }, transactions: i > 0 ? [tx] : [] }, { common }));
+  }
+  return blocks;
+}
+
+function mockApiServer(blocks: Block[]) {
+  const latest = blocks[blocks.length - 1];
+  return {
+    maxLogsBlockRange: 100,
+    oracle: { gasPrice: new BN(1) },
+    node: {
+      getLatestBlock: () => latest,
+      getCommon: () => latest._common,
+      db: {
+        getBlock: async (hashOrNumber: Buffer | BN) => {
+          const block = blocks.find((block) => (Buffer.isBuffer(hashOrNumber) ? block.hash().equals(hashOrNumber) : block.header.number.eq(hashOrNumber)));
+          if (!block) {
+            throw { type: 'NotFoundError' };
+          }
+          return block;
+        }
+      }
+    }
+  } as any;
+}
+
+function request(middleware: (req: any, res: any) => void, query: string, variables?: any) {
+  return new Promise<{ status: number; body: any }>((resolve) => {
+    let status = 200;
+    const res = {
+      status: (code: number) => ((status = code), res),
+      send: (body: any) => resolve({ status, body })
+    };
+    middleware({ ip: '127.0.0.1', method: 'POST', headers: {}, body: { query, variables } }, res);
+  });
+}
+
+describe('GraphQL', () => {
+  const blocks = createBlocks(5);
+
+  it('should analyze query complexity', () => {
+    const query = `
+      fragment BlockFields on Block { number parent { number } }
+      query {
+        block { ...BlockFields }
+        blocks(from: 1, to: 3) { ... on Block { hash } logs(filter: {}) { index } }
+        logs(filter: {}) { data }
+        gasPrice
+      }
+    `;
+    const complexity = analyzeQuery(parse(query), undefined, undefined, 100);
+    expect(complexity.depth).be.equal(3);
+    // block, number, parent, number, blocks, 3 * (hash, logs, 100 * index), logs, 100 * data, gasPrice
+    expect(complexity.fields).be.equal(413);
+    expect(Object.fromEntries(complexity.methods)).be.deep.equal({ graphql: 4, eth_getLogs: 4 });
+  });
+
+  it('should count the items of list fields and charge state reading fields', () => {
+    const query = `{
+      blocks(from: 1, to: 2) { transactions { hash } }
+      block { account(address: "0x0000000000000000000000000000000000000000") { balance code storage(slot: "0x0000000000000000000000000000000000000000000000000000000000000000") } }
+    }`;
+    const complexity = analyzeQuery(parse(query), undefined, undefined, 100);
+    // blocks, 2 * (transactions, 100 * hash), block, account, balance, code, storage
+    expect(complexity.fields).be.equal(208);
+    expect(Object.fromEntries(complexity.methods)).be.deep.equal({ graphql: 2, eth_getBalance: 1, eth_getCode: 1, eth_getStorageAt: 1 });
+  });
+
+  it('should use the max range if the block range is unknown', () => {
+    const query = 'query ($from: Long) { blocks(from: $from) { number } }';
+    expect(analyzeQuery(parse(query), { from: 1 }, undefined, 100).fields).be.equal(101);
+    expect(analyzeQuery(parse(query), { from: 1, to: 10 }, undefined, 100).fields).be.equal(101);
+    expect(analyzeQuery(parse('{ blocks(from: 1, to: "0xa") { number } }'), undefined, undefined, 100).fields).be.equal(11);
+    expect(analyzeQuery(parse('{ blocks { number } }'), undefined, undefined, 100).fields).be.equal(2);
+  });
+
+  it('should resolve blocks and transactions', async () => {
+    const middleware = new GraphQLMiddleware(mockApiServer(blocks), () => new Set(['eth'])).makeMiddleWare();
+    const { status, body } = await request(
+      middleware,
+      `query ($hash: Bytes32) {
+        block(hash: $hash) { number hash parent { number } transactionCount transactionAt(index: 0) { hash nonce index value block { number } } }
+        blocks(from: 2, to: 10) { number }
+        chainID
+        gasPrice
+      }`,
+      { hash: bufferToHex(blocks[3].hash()) }
+    );
+    expect(status).be.equal(200);
+    expect(body.errors).be.undefined;
+    const { block } = body.data;
+    expect(block.number).be.equal(3);
+    expect(block.hash).be.equal(bufferToHex(blocks[3].hash()));
+    expect(block.parent.number).be.equal(2);
+    expect(block.transactionCount).be.equal(1);
+    expect(block.transactionAt).be.deep.equal({ hash: bufferToHex(blocks[3].transactions[0].hash()), nonce: 3, index: 0, value: '0x1', block: { number: 3 } });
+    expect(body.data.blocks.map(({ number }) => number)).be.deep.equal([2, 3, 4]);
+    expect(body.data.chainID).be.equal(bnToHex(blocks[0]._common.chainIdBN()));
+    expect(body.data.gasPrice).be.equal('0x1');
+  });
+
+  it('should return null for missing blocks', async () => {
+    const middleware = new GraphQLMiddleware(mockApiServer(blocks), () => new Set(['eth'])).makeMiddleWare();
+    const { status, body } = await request(middleware, '{ block(number: 100) { number } genesis: block(number: 0) { parent { number } } }');
+    expect(status).be.equal(200);
+    expect(body.data).be.deep.equal({ block: null, genesis: { parent: null } });
+  });
+
+  it('should reject invalid and too deep queries', async () => {
+    const middleware = new GraphQLMiddleware(mockApiServer(blocks), () => new Set(['eth'])).makeMiddleWare();
+    const invalid = await request(middleware, '{ block { unknown } }');
+    expect(invalid.status).be.equal(400);
+    expect(invalid.body.errors[0].message).include('unknown');
+
+    const deep = await request(middleware, '{ block { parent { parent { parent { parent { parent { parent { parent { parent { parent { number } } } } } } } } } } }');
+    expect(deep.status).be.equal(400);
+    expect(deep.body.errors[0].message).be.equal('query is too deep, max depth is 10');
+  });
+
+  it('should charge by the query complexity', async () => {
+    const realNow = Date.now;
+    Date.now = () => 0;
+    const limiter = new RateLimiter({ refillRate: 100 });
+    const middleware = new GraphQLMiddleware(mockApiServer(blocks), () => new Set(['eth']), limiter).makeMiddleWare();
+    // 3 top-level fields
+    expect((await request(middleware, '{ gasPrice chainID block { number } }')).status).be.equal(200);
+    expect(limiter.stats().clients[0].tokens).be.equal(70);
+    // the logs of 10 blocks
+    expect((await request(middleware, '{ blocks(from: 0, to: 9) { logs(filter: {}) { index } } }')).status).be.equal(429);
+    expect(limiter.stats().clients[0].tokens).be.equal(70);
+    Date.now = realNow;
+  });
+});
@@ -0,0 +1,91 @@
+import { expect } from 'chai';
+import { RateLimiter } from '../src/rateLimiter';
+import { JsonRPCMiddleware } from '../src/jsonRPCMiddleware';
+import { WebsocketClient } from '../src/client';
+
+const realNow = Date.now;
+let now = 0;
+
+function mockWsClient() {
+  const listeners = new Map<string, (msg: any) => void>();
+  const sent: any[] = [];
+  const client = new WebsocketClient({
+    send: (data: string) => sent.push(JSON.parse(data)),
+    close: () => {},
+    addEventListener: (type: string, listener: (msg: any) => void) => listeners.set(type, listener)
+  } as any);
+  const request = (body: any) => listeners.get('message')!({ data: JSON.stringify(body) });
+  return { client, sent, request };
+}
+
+function mockHttpRequest(middleware: (req: any, res: any, next: any) => void, ip: string, body: any) {
+  let status = 200;
+  middleware({ ip, body, headers: {} }, { status: (code: number) => ((status = code), { send: () => {} }), send: () => {} }, () => {});
+  return status;
+}
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    now = 0;
+    Date.now = () => now;
+  });
+
+  afterEach(() => {
+    Date.now = realNow;
+  });
+
+  it('should refill tokens over time', () => {
+    const limiter = new RateLimiter({ refillRate: 10 });
+    expect(limiter.consume('a', new Array(10).fill('eth_blockNumber'))).be.true;
+    expect(limiter.consume('a', ['eth_blockNumber'])).be.false;
+    now += 100;
+    expect(limiter.consume('a', ['eth_blockNumber'])).be.true;
+    expect(limiter.consume('a', ['eth_blockNumber'])).be.false;
+    // the bucket is never refilled beyond the capacity
+    now += 10000;
+    expect(limiter.stats().clients[0].tokens).be.equal(10);
+  });
+
+  it('should cap the method weight at capacity', () => {
+    const limiter = new RateLimiter({ refillRate: 10, costs: { debug_dumpBlock: 100 } });
+    expect(limiter.getCost('debug_dumpBlock')).be.equal(10);
+    expect(limiter.consume('a', ['debug_dumpBlock'])).be.true;
+    expect(limiter.consume('a', ['eth_blockNumber'])).be.false;
+  });
+
+  it('should reject the batch whose cost exceeds capacity', () => {
+    const limiter = new RateLimiter({ refillRate: 100 });
+    expect(limiter.consume('a', new Array(1000).fill('eth_getLogs'))).be.false;
+    expect(limiter.consume('a', new Array(3).fill('debug_traceBlock'))).be.false;
+    // the rejected batches don't consume tokens
+    expect(limiter.consume('a', new Array(2).fill('debug_traceBlock'))).be.true;
+    expect(limiter.stats().totalLimited).be.equal(2);
+  });
+
+  it('should use different keys for websocket and http clients', () => {
+    const limiter = new RateLimiter({ refillRate: 1 });
+    const middleware = new JsonRPCMiddleware(
+      () => {},
+      () => new Set<string>(),
+      limiter
+    );
+    const http = middleware.makeMiddleWare();
+    const body = { jsonrpc: '2.0', id: 1, method: 'eth_blockNumber' };
+    expect(mockHttpRequest(http, '127.0.0.1', body)).be.equal(200);
+    expect(mockHttpRequest(http, '127.0.0.1', body)).be.equal(429);
+    expect(mockHttpRequest(http, '127.0.0.2', body)).be.equal(200);
+
+    // the websocket clients from the same ip have their own buckets
+    const ws1 = mockWsClient();
+    const ws2 = mockWsClient();
+    middleware.wrapWs(ws1.client);
+    middleware.wrapWs(ws2.client);
+    ws1.request(body);
+    ws1.request(body);
+    ws2.request(body);
+    expect(ws1.sent.length).be.equal(1);
+    expect(ws1.sent[0].error.code).be.equal(-32005);
+    expect(ws2.sent.length).be.equal(0);
+    expect(limiter.stats().clients.map(({ key }) => key)).be.deep.equal(['ip:127.0.0.1', 'ip:127.0.0.2', 'ws:0', 'ws:1']);
+  });
+});
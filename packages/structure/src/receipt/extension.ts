@@ -1,6 +1,7 @@
 import { BN, generateAddress } from 'ethereumjs-util';
 import { Block } from '../block';
-import { Transaction } from '../tx';
+import { TypedTransaction } from '../tx';
+import { calcEffectiveGasPrice } from '../util';
 
 export class ReceiptExtension {
   gasUsed: BN;
@@ -11,8 +12,10 @@ export class ReceiptExtension {
   to?: Buffer;
   transactionHash: Buffer;
   transactionIndex: number;
+  type: number;
+  effectiveGasPrice: BN;
 
-  constructor(block: Block, tx: Transaction, gasUsed: BN, txIndex: number) {
+  constructor(block: Block, tx: TypedTransaction, gasUsed: BN, txIndex: number) {
     this.blockHash = block.hash();
     this.blockNumber = block.header.number;
     this.from = tx.getSenderAddress().toBuffer();
@@ -21,6 +24,8 @@ export class ReceiptExtension {
     this.to = tx?.to?.toBuffer();
     this.transactionHash = tx.hash();
     this.transactionIndex = txIndex;
+    this.type = tx.type;
+    this.effectiveGasPrice = calcEffectiveGasPrice(tx, block.header.baseFeePerGas);
   }
 }
 
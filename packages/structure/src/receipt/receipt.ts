@@ -1,6 +1,6 @@
 import { rlp, toBuffer, unpadBuffer, bufferToInt, BN, bufferToHex, bnToHex, intToHex } from 'ethereumjs-util';
 import { Block } from '../block';
-import { Transaction } from '../tx';
+import { TypedTransaction } from '../tx';
 import { LogRawValues, Log } from './log';
 import { ReceiptExtension } from './extension';
 
@@ -81,7 +81,7 @@ export class Receipt {
   /**
    * Init extension
    */
-  initExtension(block: Block, tx: Transaction, gasUsed: BN, txIndex: number) {
+  initExtension(block: Block, tx: TypedTransaction, gasUsed: BN, txIndex: number) {
     this.extension = new ReceiptExtension(block, tx, gasUsed, txIndex);
     this.logs.forEach((log, i) => {
       log.initExtension(this.extension!, i);
@@ -98,6 +98,7 @@ export class Receipt {
       blockNumber: this.extension?.blockNumber ? bnToHex(this.extension.blockNumber) : undefined,
       contractAddress: this.extension?.contractAddress ? bufferToHex(this.extension.contractAddress) : null,
       cumulativeGasUsed: bnToHex(this.bnCumulativeGasUsed),
+      effectiveGasPrice: this.extension?.effectiveGasPrice ? bnToHex(this.extension.effectiveGasPrice) : undefined,
       from: this.extension?.from ? bufferToHex(this.extension.from) : undefined,
       gasUsed: this.extension?.gasUsed ? bnToHex(this.extension.gasUsed) : undefined,
       logs: this.logs.map((log) => log.toRPCJSON()),
@@ -105,7 +106,8 @@ export class Receipt {
       status: intToHex(this.status),
       to: this.extension?.to ? bufferToHex(this.extension.to) : undefined,
       transactionHash: this.extension?.transactionHash ? bufferToHex(this.extension.transactionHash) : undefined,
-      transactionIndex: this.extension?.transactionIndex !== undefined ? intToHex(this.extension.transactionIndex) : undefined
+      transactionIndex: this.extension?.transactionIndex !== undefined ? intToHex(this.extension.transactionIndex) : undefined,
+      type: this.extension?.type !== undefined ? intToHex(this.extension.type) : undefined
     };
   }
 }
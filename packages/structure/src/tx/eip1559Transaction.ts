@@ -1,8 +1,9 @@
-import { BN, bnToHex, bnToUnpaddedBuffer, ecrecover, keccak256, rlp, toBuffer } from 'ethereumjs-util';
+import { BN, bnToHex, bnToUnpaddedBuffer, ecrecover, keccak256, rlp, toBuffer, bufferToHex, intToHex } from 'ethereumjs-util';
 import { Common } from '@rei-network/common';
 import { BaseTransaction } from './baseTransaction';
 import { AccessList, AccessListBuffer, FeeMarketEIP1559TxData, FeeMarketEIP1559ValuesArray, JsonTx, N_DIV_2, TxOptions } from './types';
 import { AccessLists } from './util';
+import { calcEffectiveGasPrice } from '../util';
 
 const TRANSACTION_TYPE = 2;
 const TRANSACTION_TYPE_BUFFER = Buffer.from(TRANSACTION_TYPE.toString(16).padStart(2, '0'), 'hex');
@@ -368,4 +369,37 @@ export default class FeeMarketEIP1559Transaction extends BaseTransaction<FeeMark
       s: this.s !== undefined ? bnToHex(this.s) : undefined
     };
   }
+
+  //////////////////////////////////////
+
+  /**
+   * Convert tx to rpc json,
+   * the `gasPrice` is the effective gas price if the transaction has been included,
+   * otherwise it is equal to `maxFeePerGas`
+   */
+  toRPCJSON() {
+    const baseFee = this.extension?.baseFeePerGas;
+    const gasPrice = calcEffectiveGasPrice(this, baseFee);
+    return {
+      blockHash: this.extension?.blockHash ? bufferToHex(this.extension.blockHash) : null,
+      blockNumber: this.extension?.blockNumber ? bnToHex(this.extension.blockNumber) : null,
+      from: this.getSenderAddress().toString(),
+      gas: bnToHex(this.gasLimit),
+      gasPrice: bnToHex(gasPrice),
+      maxFeePerGas: bnToHex(this.maxFeePerGas),
+      maxPriorityFeePerGas: bnToHex(this.maxPriorityFeePerGas),
+      hash: bufferToHex(this.hash()),
+      input: bufferToHex(this.data),
+      nonce: bnToHex(this.nonce),
+      to: this.to ? this.to.toString() : null,
+      transactionIndex: this.extension?.transactionIndex !== undefined ? intToHex(this.extension.transactionIndex) : null,
+      value: bnToHex(this.value),
+      type: intToHex(this.type),
+      chainId: bnToHex(this.chainId),
+      accessList: AccessLists.getAccessListJSON(this.accessList),
+      v: this.v ? bnToHex(this.v) : undefined,
+      r: this.r ? bnToHex(this.r) : undefined,
+      s: this.s ? bnToHex(this.s) : undefined
+    };
+  }
 }
@@ -1,4 +1,4 @@
-import { BN, bnToHex, bnToUnpaddedBuffer, ecrecover, keccak256, rlp, toBuffer } from 'ethereumjs-util';
+import { BN, bnToHex, bnToUnpaddedBuffer, ecrecover, keccak256, rlp, toBuffer, bufferToHex, intToHex } from 'ethereumjs-util';
 import { Common } from '@rei-network/common';
 import { BaseTransaction } from './baseTransaction';
 import { AccessList, AccessListBuffer, AccessListEIP2930TxData, AccessListEIP2930ValuesArray, JsonTx, TxOptions, N_DIV_2 } from './types';
@@ -340,4 +340,31 @@ export default class AccessListEIP2930Transaction extends BaseTransaction<Access
       s: this.s !== undefined ? bnToHex(this.s) : undefined
     };
   }
+
+  //////////////////////////////////////
+
+  /**
+   * Convert tx to rpc json
+   */
+  toRPCJSON() {
+    return {
+      blockHash: this.extension?.blockHash ? bufferToHex(this.extension.blockHash) : null,
+      blockNumber: this.extension?.blockNumber ? bnToHex(this.extension.blockNumber) : null,
+      from: this.getSenderAddress().toString(),
+      gas: bnToHex(this.gasLimit),
+      gasPrice: bnToHex(this.gasPrice),
+      hash: bufferToHex(this.hash()),
+      input: bufferToHex(this.data),
+      nonce: bnToHex(this.nonce),
+      to: this.to ? this.to.toString() : null,
+      transactionIndex: this.extension?.transactionIndex !== undefined ? intToHex(this.extension.transactionIndex) : null,
+      value: bnToHex(this.value),
+      type: intToHex(this.type),
+      chainId: bnToHex(this.chainId),
+      accessList: AccessLists.getAccessListJSON(this.accessList),
+      v: this.v ? bnToHex(this.v) : undefined,
+      r: this.r ? bnToHex(this.r) : undefined,
+      s: this.s ? bnToHex(this.s) : undefined
+    };
+  }
 }
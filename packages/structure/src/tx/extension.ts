@@ -5,10 +5,12 @@ export class TransactionExtension {
   readonly blockHash: Buffer;
   readonly blockNumber: BN;
   readonly transactionIndex: number;
+  readonly baseFeePerGas?: BN;
 
   constructor(block: Block, transactionIndex: number) {
     this.blockHash = block.hash();
     this.blockNumber = block.header.number;
     this.transactionIndex = transactionIndex;
+    this.baseFeePerGas = block.header.baseFeePerGas;
   }
 }
@@ -353,6 +353,7 @@ export default class Transaction extends BaseTransaction<Transaction> {
       to: this.to ? this.to.toString() : null,
       transactionIndex: this.extension?.transactionIndex !== undefined ? intToHex(this.extension.transactionIndex) : null,
       value: bnToHex(this.value),
+      type: intToHex(this.type),
       v: this.v ? bnToHex(this.v) : undefined,
       r: this.r ? bnToHex(this.r) : undefined,
       s: this.s ? bnToHex(this.s) : undefined
@@ -1,13 +1,14 @@
 import { BN, rlp } from 'ethereumjs-util';
 import { BaseTrie as Trie } from '@rei-network/trie';
-import { TxOptions, Transaction } from './tx';
+import { TxOptions, Transaction, TypedTransaction, TransactionFactory, FeeMarketEIP1559Transaction, Capability } from './tx';
+import { Receipt } from './receipt';
 
 /**
  * Calculate transaction trie
  * @param transactions - Transactions
  * @returns Transaction trie
  */
-export async function calcTransactionTrie(transactions: Transaction[]): Promise<Buffer> {
+export async function calcTransactionTrie(transactions: TypedTransaction[]): Promise<Buffer> {
   const trie = new Trie();
   for (const [i, tx] of transactions.entries()) {
     await trie.put(rlp.encode(i), tx.serialize());
@@ -15,6 +16,54 @@ export async function calcTransactionTrie(transactions: Transaction[]): Promise<
   return trie.root;
 }
 
+/**
+ * Calculate receipt trie,
+ * the receipt of typed transaction will be prefixed with the transaction type if typed receipts are enabled
+ * @param transactions - Transactions
+ * @param receipts - Receipts
+ * @param typed - Whether typed receipts are enabled
+ * @returns Receipt trie
+ */
+export async function calcReceiptTrie(transactions: TypedTransaction[], receipts: Receipt[], typed: boolean): Promise<Buffer> {
+  const trie = new Trie();
+  for (const [i, receipt] of receipts.entries()) {
+    const tx = transactions[i];
+    const serialized = receipt.serialize();
+    await trie.put(rlp.encode(i), typed && tx.supports(Capability.EIP2718TypedTransaction) ? Buffer.concat([Buffer.from([tx.type]), serialized]) : serialized);
+  }
+  return trie.root;
+}
+
+/**
+ * Calculate the tip actually paid to the miner under the base fee,
+ * it may be negative if the fee cap is lower than the base fee
+ * @param tx - Transaction
+ * @param baseFee - Block base fee, `undefined` if EIP-1559 isn't enabled
+ * @returns Effective tip
+ */
+export function calcEffectiveGasTip(tx: TypedTransaction, baseFee?: BN) {
+  const tipCap = tx instanceof FeeMarketEIP1559Transaction ? tx.maxPriorityFeePerGas : tx.gasPrice;
+  if (baseFee === undefined) {
+    return tipCap.clone();
+  }
+  const feeCap = tx instanceof FeeMarketEIP1559Transaction ? tx.maxFeePerGas : tx.gasPrice;
+  return BN.min(tipCap, feeCap.sub(baseFee)).clone();
+}
+
+/**
+ * Calculate the gas price actually paid by the transaction,
+ * it is equal to the fee cap if the base fee is unknown
+ * @param tx - Transaction
+ * @param baseFee - Block base fee
+ * @returns Effective gas price
+ */
+export function calcEffectiveGasPrice(tx: TypedTransaction, baseFee?: BN) {
+  if (baseFee === undefined) {
+    return (tx instanceof FeeMarketEIP1559Transaction ? tx.maxFeePerGas : tx.gasPrice).clone();
+  }
+  return calcEffectiveGasTip(tx, baseFee).add(baseFee);
+}
+
 /**
  * Calculate intrinsic gas
  * @param isCreate - Is a contract creation transaction
@@ -35,14 +84,28 @@ export function calcIntrinsicGas(isCreate: boolean, data: Buffer) {
 
 /**
  * Generate transaction object by given values
- * If transaction isn't `LegacyTransaction`, it will throw an error
+ * The values should be the raw values of `LegacyTransaction` or a serialized typed transaction,
+ * the typed transaction will be rejected if it isn't activated on the common
  * @param values - Transaction values
  * @param opts - The options for initializing a Transaction.
  * @returns Transaction object
  */
-export function mustParseTransction(values: Buffer[], opts?: TxOptions) {
+export function mustParseTransction(values: Buffer | Buffer[], opts?: TxOptions): TypedTransaction {
+  if (Buffer.isBuffer(values)) {
+    return TransactionFactory.fromSerializedData(values, opts);
+  }
   if (values.length === 6 || values.length === 9) {
     return Transaction.fromValuesArray(values, opts);
   }
   throw new Error('invalid tx data');
 }
+
+/**
+ * Convert the transaction to the format in block body,
+ * typed transaction will be serialized and legacy transaction will be converted to raw values
+ * @param tx - Transaction
+ * @returns Block body data
+ */
+export function txToBlockBodyData(tx: TypedTransaction): Buffer | Buffer[] {
+  return tx.supports(Capability.EIP2718TypedTransaction) ? tx.serialize() : (tx.raw() as Buffer[]);
+}
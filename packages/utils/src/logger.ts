@@ -1,15 +1,165 @@
-import tracer from 'tracer';
-export { setLevel, getLevel } from 'tracer';
+import tracer, { Tracer } from 'tracer';
 
-export const logger = tracer.colorConsole({
-  format: '{{title}} [{{timestamp}}] {{message}}',
-  level: 'detail',
-  methods: ['detail', 'debug', 'info', 'warn', 'error', 'silent'],
-  dateformat: 'mm-dd|HH:MM:ss.L',
-  preprocess: (data) => {
-    data.title = data.title.toUpperCase();
-    if (data.title.length < 5) {
-      data.title += ' '.repeat(5 - data.title.length);
+export const logLevels = ['detail', 'debug', 'info', 'warn', 'error', 'silent'];
+
+export type LogFormat = 'text' | 'json';
+
+// the default level of all loggers
+let defaultLevel = 0;
+// the level of each module, it overrides the default level
+const moduleLevels = new Map<string, number>();
+// output format
+let logFormat: LogFormat = 'text';
+
+/**
+ * Convert the level name or the verbosity number to level index,
+ * the verbosity number is the same as geth, `0` means silent and `5` means detail
+ * @param level - Level name or verbosity number
+ * @returns Level index
+ */
+function toLevelIndex(level: string | number) {
+  if (typeof level === 'string' && /^\d+$/.test(level)) {
+    level = Number(level);
+  }
+  if (typeof level === 'number') {
+    if (!Number.isInteger(level) || level < 0 || level >= logLevels.length) {
+      throw new Error(`invalid log level: ${level}`);
+    }
+    return logLevels.length - 1 - level;
+  }
+  const index = logLevels.indexOf(level);
+  if (index === -1) {
+    throw new Error(`invalid log level: ${level}`);
+  }
+  return index;
+}
+
+/**
+ * Update the global level of tracer,
+ * the logs lower than all levels will be dropped before formatting
+ */
+function updateGlobalLevel() {
+  tracer.setLevel(Math.min(defaultLevel, ...moduleLevels.values()));
+}
+
+/**
+ * Output the log if the level of the log isn't lower than the level of the module
+ * @param data - Log data
+ */
+function transport(data: Tracer.LogOutput) {
+  const level = (data.module !== undefined ? moduleLevels.get(data.module) : undefined) ?? defaultLevel;
+  if (data.level < level) {
+    return;
+  }
+  if (logFormat === 'json') {
+    console.log(JSON.stringify({ time: new Date().toISOString(), level: logLevels[data.level], module: data.module, msg: data.message }));
+  } else {
+    console.log(data.output);
+  }
+}
+
+/**
+ * Create a tracer logger
+ * @param module - Module name
+ * @returns Logger
+ */
+function create(module?: string) {
+  return tracer.colorConsole({
+    format: module === undefined ? '{{title}} [{{timestamp}}] {{message}}' : '{{title}} [{{timestamp}}] {{module}}: {{message}}',
+    level: 'detail',
+    methods: ['detail', 'debug', 'info', 'warn', 'error', 'silent'],
+    dateformat: 'mm-dd|HH:MM:ss.L',
+    transport,
+    preprocess: (data) => {
+      data.module = module;
+      data.title = data.title.toUpperCase();
+      if (data.title.length < 5) {
+        data.title += ' '.repeat(5 - data.title.length);
+      }
     }
+  });
+}
+
+export const logger = create();
+
+export type Logger = typeof logger;
+
+const loggers = new Map<string, Logger>();
+
+/**
+ * Get the logger of the module,
+ * the level of it can be changed by {@link setModuleLevels}
+ * @param module - Module name, e.g. sync, txpool
+ * @returns Logger
+ */
+export function createLogger(module: string) {
+  let moduleLogger = loggers.get(module);
+  if (!moduleLogger) {
+    moduleLogger = create(module);
+    loggers.set(module, moduleLogger);
+  }
+  return moduleLogger;
+}
+
+/**
+ * Set the default level of all loggers
+ * @param level - Level name or verbosity number
+ */
+export function setLevel(level: string | number) {
+  defaultLevel = toLevelIndex(level);
+  updateGlobalLevel();
+}
+
+/**
+ * Get the default level of all loggers
+ * @returns Level name
+ */
+export function getLevel() {
+  return logLevels[defaultLevel];
+}
+
+/**
+ * Set the level of modules, the previous settings will be cleared
+ * @param vmodule - Comma separated list of `<module>=<level>`, e.g. sync=debug,txpool=5
+ */
+export function setModuleLevels(vmodule: string) {
+  const levels = new Map<string, number>();
+  for (const item of vmodule.split(',')) {
+    if (item.trim() === '') {
+      continue;
+    }
+    const [module, level] = item.split('=').map((value) => value.trim());
+    if (!module || level === undefined) {
+      throw new Error(`invalid module level: ${item}`);
+    }
+    levels.set(module, toLevelIndex(level));
+  }
+  moduleLevels.clear();
+  for (const [module, level] of levels) {
+    moduleLevels.set(module, level);
+  }
+  updateGlobalLevel();
+}
+
+/**
+ * Get the level of modules
+ * @returns Module name to level name
+ */
+export function getModuleLevels() {
+  const levels: { [module: string]: string } = {};
+  for (const [module, level] of moduleLevels) {
+    levels[module] = logLevels[level];
+  }
+  return levels;
+}
+
+/**
+ * Set the output format of all loggers
+ * @param format - `text` or `json`
+ */
+export function setFormat(format: string) {
+  if (format !== 'text' && format !== 'json') {
+    throw new Error(`invalid log format: ${format}`);
   }
-});
+  logFormat = format;
+}
@@ -0,0 +1,66 @@
+import { expect } from 'chai';
+import { logger, createLogger, setLevel, getLevel, setModuleLevels, getModuleLevels, setFormat } from '../src';
+
+describe('Logger', () => {
+  const consoleLog = console.log;
+  let outputs: string[] = [];
+
+  before(() => {
+    console.log = (output: string) => outputs.push(output);
+  });
+
+  beforeEach(() => {
+    outputs = [];
+    setLevel('info');
+    setModuleLevels('');
+    setFormat('text');
+  });
+
+  after(() => {
+    console.log = consoleLog;
+    setLevel('detail');
+    setModuleLevels('');
+    setFormat('text');
+  });
+
+  it('should filter by default level', () => {
+    logger.debug('debug');
+    logger.info('info');
+    createLogger('sync').debug('debug');
+    expect(outputs.length).be.equal(1);
+    expect(outputs[0]).include('info');
+  });
+
+  it('should accept verbosity number', () => {
+    setLevel(4);
+    expect(getLevel()).be.equal('debug');
+    logger.debug('debug');
+    expect(outputs.length).be.equal(1);
+  });
+
+  it('should filter by module level', () => {
+    setModuleLevels('sync=debug, txpool=1');
+    expect(getModuleLevels()).be.deep.equal({ sync: 'debug', txpool: 'error' });
+    createLogger('sync').debug('sync debug');
+    createLogger('txpool').warn('txpool warn');
+    createLogger('rpc').debug('rpc debug');
+    logger.debug('debug');
+    expect(outputs.length).be.equal(1);
+    expect(outputs[0]).include('sync: sync debug');
+  });
+
+  it('should output json', () => {
+    setFormat('json');
+    createLogger('snap').info('message', 1);
+    const output = JSON.parse(outputs[0]);
+    expect(output.level).be.equal('info');
+    expect(output.module).be.equal('snap');
+    expect(output.msg).be.equal('message 1');
+  });
+
+  it('should throw when the level is invalid', () => {
+    expect(() => setLevel('trace')).throw('invalid log level: trace');
+    expect(() => setModuleLevels('sync')).throw('invalid module level: sync');
+    expect(getModuleLevels()).be.deep.equal({});
+  });
+});